@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "MigrationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'INTERRUPTED');
+
+-- CreateEnum
+CREATE TYPE "MigrationRecordStage" AS ENUM ('CONVERTED', 'IMAGES_PROCESSED', 'SAVED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "migration_runs" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "status" "MigrationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "settings" JSONB,
+    "phase_timings" JSONB,
+    "error" TEXT,
+    "resume_count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "migration_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "migration_run_records" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "sourceType" "SourceType" NOT NULL,
+    "source_id" TEXT NOT NULL,
+    "stage" "MigrationRecordStage" NOT NULL,
+    "snapshot" JSONB,
+    "product_id" TEXT,
+    "error" TEXT,
+
+    CONSTRAINT "migration_run_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "migration_run_records_run_id_sourceType_source_id_key" ON "migration_run_records"("run_id", "sourceType", "source_id");
+
+-- AddForeignKey
+ALTER TABLE "migration_run_records" ADD CONSTRAINT "migration_run_records_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "migration_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
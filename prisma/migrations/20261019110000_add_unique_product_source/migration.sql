@@ -0,0 +1,10 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[sourceType,source_id]` on the table `products` will be added. If there are existing duplicate values, this will fail.
+    Find them with:
+    SELECT "sourceType", "source_id", COUNT(*) FROM "products" GROUP BY 1, 2 HAVING COUNT(*) > 1;
+
+*/
+-- CreateIndex
+CREATE UNIQUE INDEX "products_sourceType_source_id_key" ON "products"("sourceType", "source_id");
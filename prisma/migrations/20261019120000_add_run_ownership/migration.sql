@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "MigrationRunStatus" ADD VALUE 'ROLLED_BACK';
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "created_by_run_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN "created_by_run_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "duplicate_matches" ADD COLUMN "run_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_created_by_run_id_fkey" FOREIGN KEY ("created_by_run_id") REFERENCES "migration_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_images" ADD CONSTRAINT "product_images_created_by_run_id_fkey" FOREIGN KEY ("created_by_run_id") REFERENCES "migration_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "duplicate_matches" ADD CONSTRAINT "duplicate_matches_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "migration_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN     "content_hash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "product_images_content_hash_idx" ON "product_images"("content_hash");
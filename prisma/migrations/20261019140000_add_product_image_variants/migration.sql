@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "ImageRendition" AS ENUM ('THUMBNAIL', 'MEDIUM', 'LARGE', 'ORIGINAL');
+
+-- CreateTable
+CREATE TABLE "product_image_variants" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "image_id" TEXT NOT NULL,
+    "rendition" "ImageRendition" NOT NULL,
+    "supabase_url" TEXT NOT NULL,
+    "supabase_path" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "file_size" INTEGER,
+    "content_hash" TEXT,
+
+    CONSTRAINT "product_image_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_image_variants_image_id_rendition_key" ON "product_image_variants"("image_id", "rendition");
+
+-- CreateIndex
+CREATE INDEX "product_image_variants_content_hash_idx" ON "product_image_variants"("content_hash");
+
+-- AddForeignKey
+ALTER TABLE "product_image_variants" ADD CONSTRAINT "product_image_variants_image_id_fkey" FOREIGN KEY ("image_id") REFERENCES "product_images"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- Las columnas de storage dejan de ser específicas de Supabase
+ALTER TABLE "product_images" RENAME COLUMN "supabase_url" TO "storage_url";
+ALTER TABLE "product_images" RENAME COLUMN "supabase_path" TO "storage_key";
+ALTER TABLE "product_images" ADD COLUMN     "storage_backend" TEXT;
+
+ALTER TABLE "product_image_variants" RENAME COLUMN "supabase_url" TO "storage_url";
+ALTER TABLE "product_image_variants" RENAME COLUMN "supabase_path" TO "storage_key";
+ALTER TABLE "product_image_variants" ADD COLUMN     "storage_backend" TEXT;
+
+-- Todo lo subido hasta ahora está en Supabase
+UPDATE "product_images" SET "storage_backend" = 'supabase' WHERE "storage_key" IS NOT NULL AND "storage_key" <> '';
+UPDATE "product_image_variants" SET "storage_backend" = 'supabase';
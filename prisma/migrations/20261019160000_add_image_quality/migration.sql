@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ImageQualityStatus" AS ENUM ('OK', 'WARNING', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN "quality_status" "ImageQualityStatus",
+ADD COLUMN "quality_issues" JSONB,
+ADD COLUMN "quality_checked_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "product_images_quality_status_idx" ON "product_images"("quality_status");
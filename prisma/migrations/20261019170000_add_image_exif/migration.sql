@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN "exif" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN "perceptual_hash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "product_images_perceptual_hash_idx" ON "product_images"("perceptual_hash");
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ImageFailureReason" AS ENUM ('INVALID_URL', 'NOT_FOUND', 'HTTP_ERROR', 'TIMEOUT', 'NETWORK', 'NOT_AN_IMAGE', 'DECODE', 'CONVERSION', 'UPLOAD', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN "failure_reason" "ImageFailureReason",
+ADD COLUMN "failure_message" TEXT,
+ADD COLUMN "failure_http_status" INTEGER,
+ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "last_attempt_at" TIMESTAMP(3);
+
+-- Las imágenes existentes se intentaron procesar una vez al guardarlas
+UPDATE "product_images" SET "attempts" = 1, "last_attempt_at" = COALESCE("processed_at", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "product_images_failure_reason_idx" ON "product_images"("failure_reason");
@@ -0,0 +1,9 @@
+-- DropIndex
+DROP INDEX "product_image_variants_image_id_rendition_key";
+
+-- AlterTable
+ALTER TABLE "product_image_variants" ADD COLUMN "format" TEXT NOT NULL DEFAULT 'webp',
+ADD COLUMN "ssim" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_image_variants_image_id_rendition_format_key" ON "product_image_variants"("image_id", "rendition", "format");
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ArtworkOrientation" AS ENUM ('PORTRAIT', 'LANDSCAPE', 'SQUARE', 'PANORAMIC');
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "dominant_colors" JSONB,
+ADD COLUMN "orientation" "ArtworkOrientation";
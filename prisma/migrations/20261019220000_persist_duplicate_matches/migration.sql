@@ -0,0 +1,20 @@
+/*
+  Warnings:
+
+  - Added the required columns `artwork_source_id` and `woo_source_id` to the `duplicate_matches` table without a default value. The table was never written before, so it is expected to be empty.
+
+*/
+-- AlterTable
+ALTER TABLE "duplicate_matches" ALTER COLUMN "artwork_product_id" DROP NOT NULL,
+ALTER COLUMN "woo_product_id" DROP NOT NULL,
+ADD COLUMN "artwork_source_id" TEXT NOT NULL,
+ADD COLUMN "woo_source_id" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "duplicate_matches_artwork_source_id_woo_source_id_key" ON "duplicate_matches"("artwork_source_id", "woo_source_id");
+
+-- CreateIndex
+CREATE INDEX "duplicate_matches_resolution_idx" ON "duplicate_matches"("resolution");
+
+-- AddForeignKey
+ALTER TABLE "duplicate_matches" ADD CONSTRAINT "duplicate_matches_woo_product_id_fkey" FOREIGN KEY ("woo_product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
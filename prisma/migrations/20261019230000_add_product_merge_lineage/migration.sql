@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "source_updated_at" TIMESTAMP(3),
+ADD COLUMN "merged_from" JSONB,
+ADD COLUMN "field_sources" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "duplicate_matches" ADD COLUMN "signals" JSONB;
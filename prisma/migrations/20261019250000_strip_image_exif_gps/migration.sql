@@ -0,0 +1,2 @@
+-- Quitar la ubicación GPS del EXIF ya guardado
+UPDATE "product_images" SET "exif" = "exif" - 'GPSInfo' WHERE "exif" ? 'GPSInfo';
@@ -2,13 +2,23 @@ import * as path from 'path';
 import * as fs from 'fs';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import { DuplicateResolution, Product, SourceType } from '@prisma/client';
 import { Logger } from '../utils/logger';
 import { CsvHandler } from '../utils/csvHandler';
 import { ArtworkToShopifyConverter } from '../converters/artwork';
 import { WooCommerceToShopifyConverter } from '../converters/wooCommerce';
 import { ShopifyProduct } from '../models/ShopifyProduct';
-import { PrismaProductService } from '../services/PrismaProductService';
-import { ImageProcessorService } from '../services/ImageProcessorService';
+import { FailedImage, FailedImageFilters, PrismaProductService, ProductWithImages, SaveSummary } from '../services/PrismaProductService';
+import { DuplicateMatchFilters, DuplicateReviewService } from '../services/DuplicateReviewService';
+import { DuplicateScoringService } from '../services/DuplicateScoringService';
+import { ImageProcessorService, StoredImageLookup } from '../services/ImageProcessorService';
+import { ImageCacheService } from '../services/ImageCacheService';
+import { ImageQualityService } from '../services/ImageQualityService';
+import { AltTextService } from '../services/AltTextService';
+import { MerchandisingService } from '../services/MerchandisingService';
+import { createStorageBackend, StorageGcService } from '../services/storage';
+import { MigrationRunService, MigrationRunSettings, RollbackMode } from '../services/MigrationRunService';
+import { ArtworkSyncPlan, ArtworkSyncService } from '../services/ArtworkSyncService';
 import {
   DuplicateDetectionService,
 } from '../services/DuplicateDetectionService';
@@ -16,20 +26,50 @@ import {
   DuplicateResolutionService,
   DuplicateResolutionConfig
 } from '../services/DuplicateResolutionService';
-import { ArtworkArchiveRecord, DbConfig,
-  DuplicateDetectionConfig,
-  DuplicateMatch, ProcessedImage } from '../types';
-import { extractDimensions, generateHtmlReport } from '../utils/report';
+import { AppliedDuplicateResolution, ArtworkArchiveRecord, DbConfig,
+  DuplicateChoice, DuplicateDetectionConfig,
+  DuplicateMatch, DuplicateSignalScore, ImageFailure, ImageFailureReason, ImageQualityIssue, MigrationCheckpoint, ProcessedImage } from '../types';
+import { FAILURE_LABELS, imageHost, isPermanentFailure } from '../utils/imageFailure';
+import { buildDuplicateReportData, extractDimensions, writeDuplicateReport } from '../utils/report';
 import { generateComparisonKeys, NormalizeUtils } from '../utils/normalizeFields';
+import { buildMigrationPlan, printMigrationPlan, writeMigrationPlan } from '../utils/migrationPlan';
+import { config as appConfig } from '../config';
+import { applyProfile, loadProfile, MigrationProfile } from '../config/profile';
+import { describeDbConfig, resolveDbConfig } from '../config/connections';
+import { Prompts } from './prompts';
+import {
+  AnalyzeOptions,
+  AltTextBackfillOptions,
+  AltTextReportOptions,
+  MerchandisingBackfillOptions,
+  CachePruneOptions,
+  CacheStatsOptions,
+  CheckImagesOptions,
+  DuplicateResolutionOption,
+  DuplicatesFilterOptions,
+  DuplicatesListOptions,
+  DuplicatesResolveOptions,
+  ExportCsvOptions,
+  ExportShopifyOptions,
+  ExportShopifyTestOptions,
+  MigrateOptions,
+  PreviewOptions,
+  RetryImagesOptions,
+  RollbackOptions,
+  StorageGcOptions,
+  RunsOptions,
+  SyncArtworkOptions,
+  TestConnectionOptions
+} from './options';
 
 export class Commands {
   private static prismaService: PrismaProductService;
   private static imageProcessor: ImageProcessorService;
 
-  static async preview(): Promise<void> {
+  static async preview(options: PreviewOptions = {}): Promise<void> {
     Logger.header('Preview Artwork Archive Data');
 
-    const answers = await inquirer.prompt([
+    const answers = await Prompts.ask<{ inputFile: string; limit: number }>([
       {
         type: 'input',
         name: 'inputFile',
@@ -48,7 +88,7 @@ export class Commands {
         message: 'How many records to preview?',
         default: 5
       }
-    ]);
+    ], { inputFile: options.inputFile, limit: options.limit }, options);
 
     try {
       const artworks = await CsvHandler.readCsv<ArtworkArchiveRecord>(answers.inputFile);
@@ -67,13 +107,14 @@ export class Commands {
       });
     } catch (error: any) {
       Logger.error(`Preview failed: ${error.message}`);
+      process.exitCode = 1;
     }
   }
 
-  static async analyze(): Promise<void> {
+  static async analyze(options: AnalyzeOptions = {}): Promise<void> {
     Logger.header('Analyze Artwork Archive Data');
 
-    const answers = await inquirer.prompt([
+    const answers = await Prompts.ask<{ inputFile: string }>([
       {
         type: 'input',
         name: 'inputFile',
@@ -86,7 +127,7 @@ export class Commands {
           return true;
         }
       }
-    ]);
+    ], { inputFile: options.inputFile }, options);
 
     try {
       const artworks = await CsvHandler.readCsv<ArtworkArchiveRecord>(answers.inputFile);
@@ -104,34 +145,19 @@ export class Commands {
       console.log(chalk.bold('================\n'));
 
       artworks.forEach((artwork, index) => {
-        const issues: string[] = [];
-        let willBeDraft = false;
-       
-        if (!artwork.Name || artwork.Name.trim() === '') {
-          issues.push('Missing name');
-          noNameCount++;
-          willBeDraft = true;
-        } else if (artwork.Name.length === 1) {
-          issues.push(`Single character name: "${artwork.Name}"`);
-          singleCharNameCount++;
-          willBeDraft = true;
-        }
-       
-        if (!artwork.Price || artwork.Price.trim() === '') {
-          issues.push('Missing price');
-          noPriceCount++;
-          willBeDraft = true;
-        }
-       
-        if (artwork.Status?.toLowerCase() !== 'available') {
-          issues.push(`Status: ${artwork.Status || 'not set'}`);
-          notAvailableCount++;
-          willBeDraft = true;
-        }
-
-        if (willBeDraft) {
+        // Mismas reglas que aplica el converter durante la migración
+        const reasons = ArtworkToShopifyConverter.getDraftReasons(artwork);
+
+        reasons.forEach(reason => {
+          if (reason.code === 'missingName') noNameCount++;
+          if (reason.code === 'singleCharacterName') singleCharNameCount++;
+          if (reason.code === 'missingPrice') noPriceCount++;
+          if (reason.code === 'notAvailable') notAvailableCount++;
+        });
+
+        if (reasons.length > 0) {
           draftCount++;
-          console.log(chalk.yellow(`⚠ Record ${index + 1}: ${artwork.Name || 'NO NAME'} - Will be DRAFT: ${issues.join(', ')}`));
+          console.log(chalk.yellow(`⚠ Record ${index + 1}: ${artwork.Name || 'NO NAME'} - Will be DRAFT: ${reasons.map(r => r.message).join(', ')}`));
         } else {
           activeCount++;
           console.log(chalk.green(`✓ Record ${index + 1}: ${artwork.Name} - Will be ACTIVE`));
@@ -151,68 +177,983 @@ export class Commands {
 
     } catch (error: any) {
       Logger.error(`Analysis failed: ${error.message}`);
+      process.exitCode = 1;
     }
   }
 
-  static async migrate(): Promise<void> {
+  static async migrate(options: MigrateOptions = {}): Promise<void> {
     Logger.header('Unified Migration Tool: Artwork Archive + WooCommerce to Database');
 
+    if (options.dryRun) {
+      Logger.warning('Dry-run: no se escribirá en la base de datos ni se procesarán imágenes');
+    }
+
+    // En dry-run no se registra ninguna corrida
+    const runService = options.dryRun ? undefined : new MigrationRunService();
+
+    // Ctrl-C: dejar la corrida como interrumpida para poder reanudarla
+    const onInterrupt = () => {
+      Logger.warning('Migración interrumpida');
+      Commands.finishRun(runService, 'INTERRUPTED').finally(() => process.exit(130));
+    };
+
     try {
-      // 1. Inicializar servicios
-      await Commands.initializeServices();
+      if (options.dryRun && options.resume) {
+        throw new Error('--resume no se puede combinar con --dry-run');
+      }
+
+      // 0. Corrida anterior: se reanuda con la misma configuración
+      if (runService) {
+        await runService.initialize();
+      }
+      if (runService && options.resume) {
+        const settings = await runService.resume(options.resume);
+        options = Commands.withRunSettings(options, settings);
+      }
+
+      // 1. Cargar perfil (antes de crear servicios, define imágenes y MySQL)
+      const profile = Commands.useProfile(options.profile);
+      Commands.useImageConcurrency(options.imageConcurrency);
+
+      // 2. Inicializar servicios
+      await Commands.initializeServices({ dryRun: options.dryRun });
+
+      // 3. Recopilar configuración del usuario (flags > perfil > prompt)
+      const config = await Commands.getMigrationConfig(options, profile);
 
-      // 2. Recopilar configuración del usuario
-      const config = await Commands.getMigrationConfig();
+      if (runService && !options.resume) {
+        await runService.start(Commands.toRunSettings(options, config));
+      }
+      process.once('SIGINT', onInterrupt);
+
+      const phase = <T>(name: string, fn: () => Promise<T>): Promise<T> =>
+        runService ? runService.timePhase(name, fn) : fn();
+
+      // Verificar WooCommerce antes de empezar a procesar imágenes
+      if (config.includeWooCommerce && !(await Commands.verifyWooConnection(config.dbConfig!))) {
+        Logger.warning('Continuing with only Artwork Archive products');
+        config.includeWooCommerce = false;
+      }
      
-      // 3. Procesar productos de Artwork Archive
-      const { artworkProducts, artworkRecords, artworkImages } = await Commands.processArtworkArchive(config.artworkFile);
+      // 4. Procesar productos de Artwork Archive
+      const { artworkProducts, artworkRecords, artworkImages } = await phase('artwork', () =>
+        Commands.processArtworkArchive(config.artworkFile, runService)
+      );
      
-      // 4. Procesar productos de WooCommerce (si está habilitado)
-      const { wooProducts, wooRecords, wooImages } = await Commands.processWooCommerce(config);
+      // 5. Procesar productos de WooCommerce (si está habilitado)
+      const { wooProducts, wooRecords, wooImages } = await phase('wooCommerce', () =>
+        Commands.processWooCommerce(config, runService)
+      );
      
-      // 5. Detectar y resolver duplicados (si está habilitado)
-      const { finalArtworkProducts, finalWooProducts } = await Commands.handleDuplicates(
-        artworkProducts,
-        wooProducts,
-        config
+      // 6. Detectar y resolver duplicados (si está habilitado)
+      const { finalArtworkProducts, finalWooProducts, resolutions } = await phase('duplicates', () =>
+        Commands.handleDuplicates(artworkProducts, wooProducts, config, [artworkImages, wooImages])
       );
+
+      // En dry-run se genera el plan en lugar de guardar
+      if (options.dryRun) {
+        const plan = buildMigrationPlan(finalArtworkProducts, finalWooProducts, resolutions, {
+          artworkFile: config.artworkFile,
+          includeWooCommerce: config.includeWooCommerce,
+          checkDuplicates: config.checkDuplicates,
+          duplicateStrategy: config.duplicateStrategy,
+          matchingStrategy: config.matchingStrategy,
+          similarityThreshold: config.similarityThreshold,
+          maxImageDistance: config.maxImageDistance
+        });
+
+        printMigrationPlan(plan);
+        const planPath = writeMigrationPlan(plan, options.planFile || 'data/output/migration_plan.json');
+        Logger.success(`Plan de migración guardado en: ${planPath}`);
+        return;
+      }
      
-      // 6. Guardar en base de datos
-      await Commands.saveToDatabase(
+      // 7. Guardar en base de datos
+      await phase('save', () => Commands.saveToDatabase(
         artworkRecords, 
         finalArtworkProducts, 
         wooRecords, 
         finalWooProducts,
         artworkImages,
-        wooImages
-      );
+        wooImages,
+        runService,
+        fs.statSync(config.artworkFile).mtime
+      ));
+      await Commands.flagFileSizeOutliers();
+
+      // 8. Guardar los duplicados con la resolución aplicada (después de los productos, para enlazarlos)
+      if (resolutions.length > 0) {
+        const { created, updated, toMerge } = await Commands.prismaService.saveDuplicateMatches(resolutions, {
+          strategy: config.duplicateStrategy,
+          runId: runService?.runId
+        });
+        Logger.success(`Duplicados guardados: ${created} nuevos, ${updated} actualizados`);
+
+        // En dry-run no se llega hasta acá: los duplicados van en el plan de migración
+        const reportPath = writeDuplicateReport(buildDuplicateReportData(resolutions, {
+          matchingStrategy: config.matchingStrategy,
+          duplicateStrategy: config.duplicateStrategy,
+          similarityThreshold: config.similarityThreshold,
+          artworkProductsCount: artworkProducts.filter(p => p.getTitle()).length,
+          wooProductsCount: wooProducts.filter(p => p.getTitle()).length
+        }), 'data/output/duplicates_report.html');
+        Logger.success(`Reporte de duplicados guardado en: ${reportPath}`);
+
+        if (toMerge.length > 0) {
+          await Commands.mergeDuplicates(toMerge);
+        }
+      }
      
-      // 7. Generar reportes finales
-      await Commands.generateFinalReport(config);
+      // 9. Generar reportes finales
+      await phase('report', () => Commands.generateFinalReport(config));
+
+      await Commands.finishRun(runService, 'COMPLETED');
      
     } catch (error: any) {
       Logger.error(`Unified migration failed: ${error.message}`);
       console.error(error);
+      process.exitCode = 1;
+      await Commands.finishRun(runService, 'FAILED', error.message);
+    } finally {
+      process.removeListener('SIGINT', onInterrupt);
+      await runService?.disconnect();
+      await Commands.cleanup();
+    }
+  }
+
+  /**
+   * Aplicar un export nuevo de Artwork Archive sobre los productos guardados
+   */
+  static async syncArtwork(options: SyncArtworkOptions = {}): Promise<void> {
+    Logger.header('Sync Artwork Archive Export');
+
+    if (options.dryRun) {
+      Logger.warning('Dry-run: solo se mostrarán los cambios');
+    }
+
+    try {
+      const profile = Commands.useProfile(options.profile);
+
+      const { artworkFile } = await Prompts.ask<{ artworkFile: string }>([
+        {
+          type: 'input',
+          name: 'artworkFile',
+          message: 'Enter the path to the new Artwork Archive CSV export:',
+          default: 'data/input/PiecesExport.csv',
+          validate: (input) => {
+            if (!fs.existsSync(input)) {
+              return 'File not found. Please enter a valid file path.';
+            }
+            return true;
+          }
+        }
+      ], { artworkFile: options.artworkFile ?? profile?.migration?.artworkFile }, options);
+
+      await Commands.initializeServices({ dryRun: options.dryRun });
+
+      const artworks = await CsvHandler.readCsv<ArtworkArchiveRecord>(artworkFile);
+      const products = await Commands.prismaService.getProductsBySource(SourceType.ARTWORK_ARCHIVE);
+      Logger.info(`Export: ${artworks.length} piezas, base de datos: ${products.length} productos de Artwork Archive`);
+
+      const plan = ArtworkSyncService.diff(artworks, products);
+      Commands.printSyncPlan(plan);
+
+      const pending = plan.new.length + plan.changed.length + plan.removed.length;
+      if (pending === 0) {
+        Logger.success('La base de datos ya está al día con el export');
+        return;
+      }
+
+      if (options.dryRun) {
+        return;
+      }
+
+      const { apply } = await Prompts.ask<{ apply: boolean }>([
+        {
+          type: 'confirm',
+          name: 'apply',
+          message: `Apply ${pending} changes to the database?`,
+          default: true
+        }
+      ], {}, options);
+
+      if (!apply) {
+        Logger.info('Sincronización cancelada');
+        return;
+      }
+
+      // Piezas que ya no están en el export: se archivan, no se borran
+      if (plan.removed.length > 0) {
+        const archived = await Commands.prismaService.archiveProducts(plan.removed.map(entry => entry.product!.id));
+        Logger.success(`Productos archivados: ${archived}`);
+      }
+
+      const toConvert = [...plan.new, ...plan.changed];
+      if (toConvert.length > 0) {
+        // Solo se procesan las imágenes nuevas o cuya URL cambió
+        const processedImages = new Map<string, ProcessedImage>();
+        const shopifyProducts = await ArtworkToShopifyConverter.convertArtworkToShopify(artworks, {
+          only: new Set(toConvert.map(entry => entry.sourceId)),
+          processedImages,
+          knownImages: ArtworkSyncService.toKnownImages(plan.changed.map(entry => entry.product!))
+        });
+
+        const { summary } = await Commands.prismaService.saveArtworkProducts(
+          artworks,
+          shopifyProducts,
+          processedImages,
+          undefined,
+          { exportedAt: fs.statSync(artworkFile).mtime, restoreArchived: true }
+        );
+
+        console.log('\n' + chalk.bold('Sync Results:'));
+        console.log(chalk.bold('============='));
+        console.log(chalk.green(`Created: ${summary.created}`));
+        console.log(chalk.blue(`Updated: ${summary.updated}`));
+        console.log(`Unchanged: ${summary.unchanged}`);
+        if (summary.failed > 0) {
+          console.log(chalk.red(`Failed: ${summary.failed}`));
+          process.exitCode = 1;
+        }
+        await Commands.flagFileSizeOutliers();
+
+        // La imagen anterior se quita recién cuando la nueva quedó guardada
+        let replaced = 0;
+        for (const entry of plan.changed) {
+          const replacedUrl = ArtworkSyncService.getReplacedImageUrl(entry);
+          if (replacedUrl) {
+            replaced += await Commands.prismaService.removeReplacedImages(entry.product!.id, [replacedUrl]);
+          }
+        }
+        if (replaced > 0) {
+          Logger.info(`Imágenes reemplazadas: ${replaced} (sus objetos quedan para storage gc)`);
+        }
+      }
+
+      Logger.success('Sincronización completada');
+    } catch (error: any) {
+      Logger.error(`Artwork sync failed: ${error.message}`);
+      process.exitCode = 1;
     } finally {
       await Commands.cleanup();
     }
   }
 
-  static async exportCsv(): Promise<void> {
+  /**
+   * Deshacer lo que creó una corrida de migración (base de datos y bucket)
+   */
+  static async rollback(runId: string, options: RollbackOptions = {}): Promise<void> {
+    Logger.header(`Rollback Migration Run ${runId}`);
+
+    const runService = new MigrationRunService();
+
+    try {
+      await runService.initialize();
+
+      const { mode } = await Prompts.ask<{ mode: RollbackMode }>([
+        {
+          type: 'list',
+          name: 'mode',
+          message: 'What should happen to the products this run created?',
+          choices: [
+            { name: 'Delete them (and their images)', value: 'delete' },
+            { name: 'Archive them (keep rows, free their handles)', value: 'archive' }
+          ],
+          default: 'delete'
+        }
+      ], { mode: options.mode }, options);
+
+      const plan = await runService.planRollback(runId, mode);
+
+      console.log('\n' + chalk.bold('Rollback Plan:'));
+      console.log(chalk.bold('=============='));
+      console.log(`Run: ${plan.run.id} (${plan.run.status}, started ${plan.run.startedAt.toISOString()})`);
+      console.log(`Products to ${mode}: ${plan.products.length}`);
+      console.log(`Image rows to delete: ${plan.images.length}`);
+      console.log(`Duplicate matches to delete: ${plan.duplicateMatches}`);
+      console.log(`Storage objects to delete: ${plan.storageObjects.length}`);
+      Logger.info('Products this run only updated are not reverted');
+
+      if (plan.skipped.length > 0) {
+        Logger.warning(`${plan.skipped.length} productos de esta corrida se conservan: una corrida posterior los volvió a guardar`);
+        plan.skipped.forEach(product => console.log(chalk.yellow(`  - ${product.handle}: updated by run ${product.runId}`)));
+      }
+
+      if (options.dryRun) {
+        plan.products.forEach(product => console.log(chalk.yellow(`  - ${product.handle}: ${product.title}`)));
+        return;
+      }
+
+      // --yes confirma; sin él se pregunta (y sin TTY falla)
+      const { yes } = await Prompts.ask<{ yes: boolean }>([
+        {
+          type: 'confirm',
+          name: 'yes',
+          message: `This cannot be undone. ${mode === 'delete' ? 'Delete' : 'Archive'} ${plan.products.length} products from run ${runId}?`,
+          default: false
+        }
+      ], { yes: options.yes }, options);
+
+      if (!yes) {
+        Logger.info('Rollback cancelado');
+        return;
+      }
+
+      await runService.rollback(plan);
+      Logger.success(`Base de datos revertida: ${plan.products.length} productos, ${plan.images.length} imágenes`);
+
+      // Cada objeto se borra del backend donde se subió (puede no ser el configurado hoy)
+      const backends = [...new Set(plan.storageObjects.map(object => object.backend))];
+      for (const backend of backends) {
+        const keys = plan.storageObjects.filter(object => object.backend === backend).map(object => object.key);
+        const { deleted, errors } = await createStorageBackend(backend).delete(keys);
+        Logger.success(`Objetos borrados del storage (${backend}): ${deleted}`);
+
+        if (errors.length > 0) {
+          Logger.warning(`${keys.length - deleted} objetos no se pudieron borrar; quedan como huérfanos en ${backend}`);
+          process.exitCode = 1;
+        }
+      }
+    } catch (error: any) {
+      Logger.error(`Rollback failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await runService.disconnect();
+    }
+  }
+
+  /**
+   * Regenerar el alt text de las imágenes guardadas con las plantillas de config.altText
+   */
+  static async altTextBackfill(options: AltTextBackfillOptions = {}): Promise<void> {
+    Logger.header('Backfill Image Alt Text');
+
+    Commands.useProfile(options.profile);
+    const prismaService = new PrismaProductService();
+
+    try {
+      const sourceType = options.source === 'artwork'
+        ? SourceType.ARTWORK_ARCHIVE
+        : options.source === 'woocommerce' ? SourceType.WOOCOMMERCE : undefined;
+      const products = await prismaService.getProductsForAltText(sourceType);
+
+      // Por defecto solo se tocan los alt texts vacíos o iguales al título (el valor que ponía la migración)
+      const changes = products.flatMap(product => product.images
+        .filter(image => options.all || !image.altText || image.altText === product.title)
+        .map(image => ({
+          image,
+          handle: product.handle,
+          altText: AltTextService.render(AltTextService.contextFromProduct(product, image.position), image.originalUrl)
+        }))
+        .filter(change => change.altText !== change.image.altText));
+
+      const imageCount = products.reduce((sum, product) => sum + product.images.length, 0);
+      console.log(`Images checked: ${imageCount}`);
+      console.log(`Alt texts to update: ${changes.length}`);
+
+      if (changes.length === 0) {
+        Logger.success('No hay alt texts para actualizar');
+        return;
+      }
+
+      changes.slice(0, options.dryRun ? undefined : 10).forEach(change => {
+        console.log(chalk.gray(`  ${change.handle} #${change.image.position}: "${change.image.altText || ''}"`));
+        console.log(chalk.green(`    -> "${change.altText}"`));
+      });
+
+      if (options.dryRun) {
+        return;
+      }
+
+      const { yes } = await Prompts.ask<{ yes: boolean }>([
+        {
+          type: 'confirm',
+          name: 'yes',
+          message: `Update the alt text of ${changes.length} images?`,
+          default: true
+        }
+      ], { yes: options.yes }, options);
+
+      if (!yes) {
+        Logger.info('Backfill cancelado');
+        return;
+      }
+
+      for (const change of changes) {
+        await prismaService.updateImageAltText(change.image.id, change.altText);
+      }
+      Logger.success(`Alt texts actualizados: ${changes.length}`);
+
+      const duplicates = await prismaService.getDuplicateAltTexts();
+      if (duplicates.length > 0) {
+        Logger.warning(`${duplicates.length} alt texts siguen repetidos en varias imágenes (ver: alt-text report)`);
+      }
+    } catch (error: any) {
+      Logger.error(`Alt text backfill failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await prismaService.disconnect();
+    }
+  }
+
+  /**
+   * Completar color dominante y formato de los productos guardados sin ellos. El formato sale de
+   * las medidas guardadas; la paleta necesita volver a descargar la imagen principal.
+   */
+  static async merchandisingBackfill(options: MerchandisingBackfillOptions = {}): Promise<void> {
+    Logger.header('Backfill Dominant Colours and Orientation');
+
+    Commands.useProfile(options.profile);
+    const prismaService = new PrismaProductService();
+
+    try {
+      const sourceType = options.source === 'artwork'
+        ? SourceType.ARTWORK_ARCHIVE
+        : options.source === 'woocommerce' ? SourceType.WOOCOMMERCE : undefined;
+      const products = (await prismaService.getProductsMissingMerchandising(sourceType))
+        .filter(product => product.images.length > 0);
+      const needPalette = products.filter(product => product.dominantColors === null);
+
+      console.log(`Products missing colours or orientation: ${products.length}`);
+      console.log(`Primary images to download for the palette: ${needPalette.length}`);
+
+      if (products.length === 0) {
+        Logger.success('No hay productos para completar');
+        return;
+      }
+
+      products.slice(0, options.dryRun ? undefined : 10).forEach(product => {
+        const missing = [product.dominantColors === null ? 'colours' : '', product.orientation ? '' : 'orientation'].filter(Boolean);
+        console.log(chalk.gray(`  ${product.handle}: ${missing.join(', ')}`));
+      });
+
+      if (options.dryRun) {
+        return;
+      }
+
+      const { yes } = await Prompts.ask<{ yes: boolean }>([
+        {
+          type: 'confirm',
+          name: 'yes',
+          message: `Update ${products.length} products?`,
+          default: true
+        }
+      ], { yes: options.yes }, options);
+
+      if (!yes) {
+        Logger.info('Backfill cancelado');
+        return;
+      }
+
+      // Las imágenes ya están en el storage: al procesarlas se reutiliza el objeto por su hash
+      let palettes = new Map<string, ProcessedImage>();
+      if (needPalette.length > 0) {
+        const urls = needPalette.map(product => product.images[0].originalUrl);
+        const imageProcessor = ImageProcessorService.createDefault();
+        imageProcessor.setStoredImageLookup((contentHash, backend) => prismaService.findStoredImage(contentHash, backend));
+        await imageProcessor.initialize();
+        try {
+          palettes = await imageProcessor.processImages(urls, [], urls);
+        } finally {
+          await imageProcessor.cleanup();
+        }
+      }
+
+      let updated = 0;
+      let failed = 0;
+      for (const product of products) {
+        const [primary] = product.images;
+        const processed = palettes.get(primary.originalUrl);
+        if (processed && !processed.success) {
+          failed++;
+          Logger.warning(`${product.handle}: no se pudo descargar la imagen principal (${processed.error})`);
+        }
+
+        const image = {
+          width: primary.width ?? undefined,
+          height: primary.height ?? undefined,
+          ...(processed?.success ? { palette: processed.palette } : {})
+        };
+        if (await prismaService.updateProductMerchandising(product.id, image)) {
+          updated++;
+        }
+      }
+
+      Logger.success(`Productos actualizados: ${updated}`);
+      if (failed > 0) {
+        Logger.warning(`${failed} productos siguen sin paleta (imagen principal no disponible)`);
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      Logger.error(`Merchandising backfill failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await prismaService.disconnect();
+    }
+  }
+
+  /**
+   * Alt texts repetidos entre imágenes y alt texts que superan el largo máximo
+   */
+  static async altTextReport(options: AltTextReportOptions = {}): Promise<void> {
+    Logger.header('Image Alt Text Report');
+
+    Commands.useProfile(options.profile);
+    const prismaService = new PrismaProductService();
+
+    try {
+      const duplicates = await prismaService.getDuplicateAltTexts();
+      const products = await prismaService.getProductsForAltText();
+      const maxLength = appConfig.altText.maxLength;
+      const images = products.flatMap(product => product.images.map(image => ({ ...image, handle: product.handle })));
+      const missing = images.filter(image => !image.altText);
+      const tooLong = images.filter(image => (image.altText?.length || 0) > maxLength);
+
+      console.log(`Images: ${images.length}`);
+      console.log(chalk.yellow(`Without alt text: ${missing.length}`));
+      console.log(chalk.yellow(`Longer than ${maxLength} characters: ${tooLong.length}`));
+      console.log(chalk.yellow(`Alt texts shared by several images: ${duplicates.length} ` +
+        `(${duplicates.reduce((sum, group) => sum + group.images.length, 0)} images)`));
+
+      duplicates.slice(0, options.limit ?? 20).forEach(group => {
+        console.log(`\n"${group.altText}" (${group.images.length} images)`);
+        group.images.slice(0, 5).forEach(image => console.log(chalk.gray(`   - ${image.handle} #${image.position}`)));
+        if (group.images.length > 5) {
+          console.log(chalk.gray(`   ... and ${group.images.length - 5} more`));
+        }
+      });
+
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        const rows = [
+          ...duplicates.flatMap(group => group.images.map(image => ({
+            Issue: 'duplicate', 'Alt Text': group.altText, Handle: image.handle, Position: image.position, Length: group.altText.length
+          }))),
+          ...tooLong.map(image => ({
+            Issue: 'too long', 'Alt Text': image.altText, Handle: image.handle, Position: image.position, Length: image.altText!.length
+          })),
+          ...missing.map(image => ({
+            Issue: 'missing', 'Alt Text': '', Handle: image.handle, Position: image.position, Length: 0
+          }))
+        ];
+        await CsvHandler.writeCsv(outputPath, rows, ['Issue', 'Alt Text', 'Handle', 'Position', 'Length']);
+        Logger.success(`Reporte guardado en: ${outputPath}`);
+      }
+    } catch (error: any) {
+      Logger.error(`Alt text report failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await prismaService.disconnect();
+    }
+  }
+
+  /**
+   * Tamaño y contenido de la caché de imágenes descargadas
+   */
+  static async cacheStats(options: CacheStatsOptions = {}): Promise<void> {
+    Logger.header('Image Cache');
+
+    Commands.useProfile(options.profile);
+    const cache = ImageCacheService.createDefault();
+    const stats = await cache.stats();
+
+    console.log(`Directory: ${stats.dir}${cache.enabled ? '' : chalk.yellow(' (disabled)')}`);
+    console.log(`Entries: ${stats.entries}`);
+    console.log(`Size: ${Commands.formatBytes(stats.totalBytes)} of ${Commands.formatBytes(stats.maxBytes)}`);
+    if (stats.oldestUsedAt && stats.newestUsedAt) {
+      console.log(`Last used: ${stats.oldestUsedAt} .. ${stats.newestUsedAt}`);
+    }
+  }
+
+  /**
+   * Podar la caché de imágenes (LRU por tamaño, antigüedad o completa)
+   */
+  static async cachePrune(options: CachePruneOptions = {}): Promise<void> {
+    Logger.header('Prune Image Cache');
+
+    Commands.useProfile(options.profile);
+    const cache = ImageCacheService.createDefault();
+    const { removed, freedBytes } = await cache.prune({
+      maxBytes: options.maxSizeMb !== undefined ? options.maxSizeMb * 1024 * 1024 : undefined,
+      olderThanDays: options.olderThanDays,
+      all: options.all
+    });
+
+    Logger.success(`Entradas borradas: ${removed} (${Commands.formatBytes(freedBytes)} liberados)`);
+  }
+
+  /**
+   * Objetos del storage que ninguna imagen usa (huérfanos) e imágenes cuyo objeto ya no existe
+   */
+  static async storageGc(options: StorageGcOptions = {}): Promise<void> {
+    Logger.header('Storage Garbage Collection');
+
+    Commands.useProfile(options.profile);
+    const prismaService = new PrismaProductService();
+
+    try {
+      const storage = createStorageBackend();
+      const graceHours = options.graceHours ?? 24;
+      const references = await prismaService.getStorageReferences(storage.name);
+      const report = await StorageGcService.scan(storage, references, { prefix: 'products/', graceHours });
+      const limit = options.limit ?? 20;
+
+      console.log(`Backend: ${report.backend} (${report.prefix})`);
+      console.log(`Objects in storage: ${report.listed}`);
+      console.log(`Keys referenced by images: ${report.referenced}`);
+      console.log(chalk.yellow(`Orphans: ${report.orphans.length} (${Commands.formatBytes(report.orphanBytes)})`));
+      console.log(chalk.gray(`Orphans newer than ${graceHours}h (kept): ${report.recentOrphans.length}`));
+      console.log(chalk.red(`Missing objects: ${report.missing.length}`));
+
+      report.orphans.slice(0, limit).forEach(object => {
+        console.log(chalk.gray(`   - ${object.key}${object.lastModified ? `  ${object.lastModified.toISOString()}` : ''}`));
+      });
+      if (report.orphans.length > limit) {
+        console.log(chalk.gray(`   ... and ${report.orphans.length - limit} more`));
+      }
+
+      if (report.missing.length > 0) {
+        console.log('\nImages pointing to missing objects:');
+        report.missing.slice(0, limit).forEach(reference => {
+          console.log(chalk.red(`   - ${reference.handle} #${reference.position}${reference.rendition ? ` (${reference.rendition})` : ''}: ${reference.key}`));
+        });
+        if (report.missing.length > limit) {
+          console.log(chalk.gray(`   ... and ${report.missing.length - limit} more`));
+        }
+        if (options.markMissing) {
+          const marked = await prismaService.markMissingImages(storage.name, report.missing.map(reference => reference.key));
+          Logger.success(`Imágenes marcadas como no procesadas: ${marked}. Para volver a subirlas: npm run retry-images`);
+        } else {
+          Logger.info('Para volver a subirlas: npm run storage -- gc --mark-missing y luego npm run retry-images');
+        }
+      }
+
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        const rows = [
+          ...report.orphans.map(object => ({
+            Issue: 'orphan', Key: object.key, Size: object.size ?? '', 'Last Modified': object.lastModified?.toISOString() || '', Handle: '', Position: ''
+          })),
+          ...report.recentOrphans.map(object => ({
+            Issue: 'recent orphan', Key: object.key, Size: object.size ?? '', 'Last Modified': object.lastModified?.toISOString() || '', Handle: '', Position: ''
+          })),
+          ...report.missing.map(reference => ({
+            Issue: 'missing', Key: reference.key, Size: '', 'Last Modified': '', Handle: reference.handle, Position: reference.position
+          }))
+        ];
+        await CsvHandler.writeCsv(outputPath, rows, ['Issue', 'Key', 'Size', 'Last Modified', 'Handle', 'Position']);
+        Logger.success(`Reporte guardado en: ${outputPath}`);
+      }
+
+      if (!options.delete || report.orphans.length === 0) {
+        if (report.orphans.length > 0) {
+          Logger.info('Para borrar los huérfanos: npm run storage -- gc --delete');
+        }
+        return;
+      }
+
+      const { yes } = await Prompts.ask<{ yes: boolean }>([
+        {
+          type: 'confirm',
+          name: 'yes',
+          message: `Delete ${report.orphans.length} orphaned objects (${Commands.formatBytes(report.orphanBytes)}) from ${report.backend}?`,
+          default: false
+        }
+      ], { yes: options.yes }, options);
+
+      if (!yes) {
+        Logger.info('Borrado cancelado');
+        return;
+      }
+
+      const { deleted, errors } = await storage.delete(report.orphans.map(object => object.key));
+      Logger.success(`Objetos borrados: ${deleted}`);
+      errors.forEach(error => Logger.error(`  ${error}`));
+      if (errors.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      Logger.error(`Storage gc failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await prismaService.disconnect();
+    }
+  }
+
+  /**
+   * Duplicados guardados por migrate, con la resolución de cada uno
+   */
+  static async duplicatesList(options: DuplicatesListOptions = {}): Promise<void> {
+    Logger.header('Duplicate Matches');
+
+    const reviewService = new DuplicateReviewService();
+
+    try {
+      const matches = await reviewService.list(Commands.toDuplicateFilters(options));
+      if (matches.length === 0) {
+        Logger.info('No hay duplicados con esos filtros');
+        return;
+      }
+
+      const limit = options.limit ?? 50;
+      matches.slice(0, limit).forEach(match => {
+        const confidence = match.confidence !== null ? `${Math.round(match.confidence * 100)}%` : '-';
+        console.log(`${chalk.bold(match.id)}  ${Commands.resolutionColor(match.resolution)(match.resolution.padEnd(12))} ${confidence.padStart(4)}  ${match.matchType}  "${match.title}"`);
+        console.log(chalk.gray(`   Artwork Archive: ${Commands.describeMatchProduct(match.artworkProduct, match.artworkSKU)}`));
+        console.log(chalk.gray(`   WooCommerce:     ${Commands.describeMatchProduct(match.wooProduct, match.wooSKU)}`));
+      });
+      if (matches.length > limit) {
+        console.log(chalk.gray(`... and ${matches.length - limit} more`));
+      }
+
+      const counts = new Map<string, number>();
+      matches.forEach(match => counts.set(match.resolution, (counts.get(match.resolution) || 0) + 1));
+      console.log('\n' + chalk.bold(`Total: ${matches.length}`) + '  ' +
+        [...counts.entries()].map(([resolution, count]) => `${resolution}: ${count}`).join(', '));
+
+      if (counts.has(DuplicateResolution.PENDING)) {
+        Logger.info('Para comparar un par: npm run duplicates -- show <id>');
+      }
+    } catch (error: any) {
+      Logger.error(`Listing duplicates failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await reviewService.disconnect();
+    }
+  }
+
+  /**
+   * Comparación campo a campo de los dos productos de un duplicado
+   */
+  static async duplicatesShow(id: string): Promise<void> {
+    const reviewService = new DuplicateReviewService();
+
+    try {
+      const match = await reviewService.find(id);
+      Logger.header(`Duplicate ${match.id}`);
+
+      const confidence = match.confidence !== null ? ` (${Math.round(match.confidence * 100)}%)` : '';
+      console.log(`Title:      ${match.title}`);
+      console.log(`Match type: ${match.matchType}${confidence}`);
+      console.log(`Resolution: ${Commands.resolutionColor(match.resolution)(match.resolution)}` +
+        (match.resolvedAt ? ` on ${match.resolvedAt.toISOString()}` : ''));
+      if (match.resolutionNotes) {
+        console.log(`Notes:      ${match.resolutionNotes}`);
+      }
+
+      const width = 40;
+      const cell = (value: string) => (value.length > width ? `${value.slice(0, width - 1)}…` : value).padEnd(width);
+
+      console.log('\n' + chalk.bold(`${'Field'.padEnd(18)}${cell('Artwork Archive')}  ${cell('WooCommerce')}`));
+      if (!match.artworkProduct || !match.wooProduct) {
+        console.log(chalk.gray(`(${!match.artworkProduct ? 'Artwork Archive' : 'WooCommerce'} version was dropped during migration and is not stored)`));
+      }
+      DuplicateReviewService.diff(match).forEach(row => {
+        const line = `${row.field.padEnd(18)}${cell(row.artwork)}  ${cell(row.woo)}`;
+        console.log(row.differs ? chalk.yellow(line) : line);
+      });
+
+      const signals = match.signals as DuplicateSignalScore[] | null;
+      if (signals?.length) {
+        console.log('\n' + chalk.bold('Score breakdown:'));
+        DuplicateScoringService.explain(signals).forEach(line => console.log(chalk.gray(`   ${line}`)));
+      }
+
+      const sides: Array<[string, ProductWithImages | null]> = [
+        ['Artwork Archive', match.artworkProduct],
+        ['WooCommerce', match.wooProduct]
+      ];
+      sides.forEach(([source, product]) => {
+        if (!product || product.images.length === 0) return;
+        console.log('\n' + chalk.bold(`${source} images:`));
+        product.images.forEach(image => {
+          const size = image.width && image.height ? `${image.width}x${image.height}` : '?';
+          console.log(chalk.gray(`   #${image.position} ${size} ${image.format || ''} ${image.originalUrl}`));
+        });
+      });
+
+      if (match.resolution === DuplicateResolution.PENDING) {
+        console.log('');
+        Logger.info(`Para resolverlo: npm run duplicates -- resolve ${match.id} --as keep-artwork|keep-woo|keep-both|merged`);
+      }
+    } catch (error: any) {
+      Logger.error(`Showing duplicate failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await reviewService.disconnect();
+    }
+  }
+
+  /**
+   * Resolver uno o varios duplicados guardados y aplicar el resultado sobre los productos
+   */
+  static async duplicatesResolve(ids: string[] = [], options: DuplicatesResolveOptions = {}): Promise<void> {
+    Logger.header('Resolve Duplicates');
+
+    const reviewService = new DuplicateReviewService();
+
+    try {
+      // Sin ids se resuelven los que cumplen los filtros (por defecto, los pendientes)
+      const matches = ids.length > 0
+        ? await Promise.all(ids.map(id => reviewService.find(id)))
+        : await Promise.all((await reviewService.list(Commands.toDuplicateFilters({
+          ...options,
+          resolution: options.resolution ?? ['pending']
+        }))).map(match => reviewService.find(match.id)));
+
+      if (matches.length === 0) {
+        Logger.info('No hay duplicados con esos filtros');
+        return;
+      }
+
+      const { as } = await Prompts.ask<{ as: NonNullable<DuplicatesResolveOptions['as']> }>([
+        {
+          type: 'list',
+          name: 'as',
+          message: `How should ${matches.length === 1 ? `"${matches[0].title}"` : `these ${matches.length} duplicates`} be resolved?`,
+          choices: [
+            { name: 'Keep Artwork Archive (archive the WooCommerce product)', value: 'keep-artwork' },
+            { name: 'Keep WooCommerce (archive the Artwork Archive product)', value: 'keep-woo' },
+            { name: 'Keep both (add suffix to the WooCommerce product)', value: 'keep-both' },
+            { name: 'Merge into the Artwork Archive product (archive the WooCommerce product)', value: 'merged' }
+          ]
+        }
+      ], { as: options.as }, options);
+      const resolution = Commands.toDuplicateResolution(as);
+
+      matches.forEach(match => {
+        const current = match.resolution === DuplicateResolution.PENDING ? '' : chalk.gray(` (was ${match.resolution})`);
+        console.log(`  ${match.id}  "${match.title}" -> ${resolution}${current}`);
+      });
+
+      if (options.dryRun) {
+        return;
+      }
+
+      const { yes } = await Prompts.ask<{ yes: boolean }>([
+        {
+          type: 'confirm',
+          name: 'yes',
+          message: `Resolve ${matches.length} duplicates as ${resolution}?`,
+          default: matches.length === 1
+        }
+      ], { yes: options.yes }, options);
+
+      if (!yes) {
+        Logger.info('Resolución cancelada');
+        return;
+      }
+
+      let failed = 0;
+      for (const match of matches) {
+        try {
+          const outcome = await reviewService.resolve(match, resolution, options.notes);
+          Logger.success(`${match.id} resuelto como ${resolution}: "${match.title}"`);
+          outcome.archived.forEach(handle => console.log(chalk.gray(`   archived: ${handle}`)));
+          outcome.restored.forEach(handle => console.log(chalk.gray(`   restored as draft: ${handle}`)));
+          if (outcome.renamed) {
+            console.log(chalk.gray(`   renamed: ${outcome.renamed.from} -> ${outcome.renamed.to}`));
+          }
+          if (outcome.merged) {
+            console.log(chalk.gray(`   merged: ${outcome.merged.fields.join(', ') || 'no fields'}, ${outcome.merged.images} images`));
+          }
+        } catch (error: any) {
+          failed++;
+          Logger.error(`${match.id} (${match.title}): ${error.message}`);
+        }
+      }
+
+      if (failed > 0) {
+        Logger.warning(`${failed} duplicados no se pudieron resolver`);
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      Logger.error(`Resolving duplicates failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await reviewService.disconnect();
+    }
+  }
+
+  static async listRuns(options: RunsOptions = {}): Promise<void> {
+    Logger.header('Migration Runs');
+
+    const runService = new MigrationRunService();
+
+    try {
+      await runService.initialize();
+      const runs = await runService.listRuns(options.limit);
+
+      if (runs.length === 0) {
+        Logger.info('No hay corridas de migración registradas');
+        return;
+      }
+
+      runs.forEach(run => {
+        const color = run.status === 'COMPLETED' ? chalk.green : run.status === 'RUNNING' ? chalk.cyan : chalk.yellow;
+        console.log('\n' + color(`${run.id}  ${run.status}`));
+        console.log(`  Inicio: ${run.startedAt.toISOString()}${run.finishedAt ? `  Fin: ${run.finishedAt.toISOString()}` : ''}`);
+        console.log(`  Duración: ${Commands.formatDuration(run.durationMs)}${run.resumeCount > 0 ? ` (reanudada ${run.resumeCount} veces)` : ''}`);
+
+        const timings = Object.entries((run.phaseTimings as Record<string, number>) || {});
+        if (timings.length > 0) {
+          console.log(`  Fases: ${timings.map(([phase, ms]) => `${phase} ${Commands.formatDuration(ms)}`).join(', ')}`);
+        }
+
+        const stages = Object.entries(run.stageCounts);
+        if (stages.length > 0) {
+          console.log(`  Registros: ${stages.map(([stage, count]) => `${stage} ${count}`).join(', ')}`);
+        }
+
+        if (run.error) {
+          console.log(chalk.red(`  Error: ${run.error}`));
+        }
+
+        if (run.status === 'FAILED' || run.status === 'INTERRUPTED') {
+          console.log(chalk.blue(`  Reanudar: npm run migrate -- --resume ${run.id}`));
+        }
+      });
+    } catch (error: any) {
+      Logger.error(`Listing runs failed: ${error.message}`);
+      process.exitCode = 1;
+    } finally {
+      await runService.disconnect();
+    }
+  }
+
+  static async testConnection(options: TestConnectionOptions = {}): Promise<void> {
+    Logger.header('Test WooCommerce Connection');
+
+    try {
+      Commands.useProfile(options.profile);
+      const dbConfig = resolveDbConfig(options);
+
+      if (!(await Commands.verifyWooConnection(dbConfig))) {
+        process.exitCode = 1;
+      }
+    } catch (error: any) {
+      Logger.error(`Connection test failed: ${error.message}`);
+      process.exitCode = 1;
+    }
+  }
+
+  static async exportCsv(options: ExportCsvOptions = {}): Promise<void> {
     Logger.header('Export Products to Shopify CSV');
 
     try {
       // Inicializar servicios
       await Commands.initializeServices();
 
-      const answers = await inquirer.prompt([
+      const answers = await Prompts.ask<{ outputFile: string }>([
         {
           type: 'input',
           name: 'outputFile',
           message: 'Enter the output filename for Shopify CSV:',
           default: 'data/output/shopify_products_from_db.csv'
         }
-      ]);
+      ], { outputFile: options.outputFile }, options);
 
       Logger.info('Obteniendo productos de la base de datos...');
       const shopifyExportData = await Commands.prismaService.getProductsForShopifyExport();
@@ -228,26 +1169,27 @@ export class Commands {
       }
 
       const outputPath = path.resolve(answers.outputFile);
-      await CsvHandler.writeCsv(outputPath, shopifyExportData, ShopifyProduct.getHeaders());
+      await CsvHandler.writeCsv(outputPath, shopifyExportData, [...ShopifyProduct.getHeaders(), ...MerchandisingService.metafieldColumns()]);
 
       Logger.success(`CSV exportado exitosamente: ${outputPath}`);
       Logger.info(`Total productos exportados: ${shopifyExportData.length}`);
 
     } catch (error: any) {
       Logger.error(`Export failed: ${error.message}`);
+      process.exitCode = 1;
     } finally {
       await Commands.cleanup();
     }
   }
 
-  static async exportShopifyCsv(): Promise<void> {
-  Logger.header('Export Products to Shopify CSV (with Supabase Images)');
+  static async exportShopifyCsv(options: ExportShopifyOptions = {}): Promise<void> {
+  Logger.header('Export Products to Shopify CSV (with stored images)');
 
   try {
     // Inicializar servicios
     await Commands.initializeServices();
 
-    const answers = await inquirer.prompt([
+    const answers = await Prompts.ask<Required<Omit<ExportShopifyOptions, 'yes'>>>([
       {
         type: 'input',
         name: 'outputFile',
@@ -259,12 +1201,25 @@ export class Commands {
         name: 'imageSource',
         message: 'Which image URLs do you want to use?',
         choices: [
-          { name: 'Supabase URLs (recommended)', value: 'supabase' },
+          { name: 'Stored image URLs (recommended)', value: 'supabase' },
           { name: 'Original URLs (fallback)', value: 'original' },
-          { name: 'Mixed (Supabase if available, original as fallback)', value: 'mixed' }
+          { name: 'Mixed (stored if available, original as fallback)', value: 'mixed' }
         ],
         default: 'supabase'
       },
+      {
+        type: 'list',
+        name: 'imageRendition',
+        message: 'Which image size should go into Image Src?',
+        choices: [
+          { name: 'Original (long edge capped)', value: 'original' },
+          { name: 'Large', value: 'large' },
+          { name: 'Medium', value: 'medium' },
+          { name: 'Thumbnail', value: 'thumbnail' }
+        ],
+        default: appConfig.images.exportRendition,
+        when: (current) => current.imageSource !== 'original'
+      },
       {
         type: 'list',
         name: 'statusFilter',
@@ -276,12 +1231,19 @@ export class Commands {
         ],
         default: 'all'
       }
-    ]);
+    ], {
+      outputFile: options.outputFile,
+      imageSource: options.imageSource,
+      imageRendition: options.imageRendition,
+      statusFilter: options.statusFilter
+    }, options);
 
     Logger.info('Obteniendo productos de la base de datos...');
     const shopifyExportData = await Commands.prismaService.getProductsForShopifyExportWithSupabase(
       answers.imageSource,
-      answers.statusFilter
+      answers.statusFilter,
+      answers.imageRendition || appConfig.images.exportRendition,
+      options.imageFormat ? [options.imageFormat, ...appConfig.images.exportFormats] : appConfig.images.exportFormats
     );
 
     if (shopifyExportData.length === 0) {
@@ -296,7 +1258,7 @@ export class Commands {
     }
 
     const outputPath = path.resolve(answers.outputFile);
-    await CsvHandler.writeCsv(outputPath, shopifyExportData, ShopifyProduct.getHeaders());
+    await CsvHandler.writeCsv(outputPath, shopifyExportData, [...ShopifyProduct.getHeaders(), ...MerchandisingService.metafieldColumns()]);
 
     // Generar estadísticas del export
     const stats = Commands.generateExportStats(shopifyExportData);
@@ -307,28 +1269,29 @@ export class Commands {
     console.log(`Total productos exportados: ${stats.totalProducts}`);
     console.log(`Productos con imágenes: ${stats.productsWithImages}`);
     console.log(`Total de imágenes: ${stats.totalImages}`);
-    console.log(`Imágenes de Supabase: ${stats.supabaseImages}`);
+    console.log(`Imágenes del storage (${appConfig.storage.backend}): ${stats.supabaseImages}`);
     console.log(`Imágenes originales: ${stats.originalImages}`);
     
     if (answers.imageSource === 'supabase' && stats.originalImages > 0) {
-      Logger.warning(`${stats.originalImages} imágenes usan URLs originales porque no se encontró versión de Supabase`);
+      Logger.warning(`${stats.originalImages} imágenes usan URLs originales porque no se encontró versión en el storage`);
     }
 
   } catch (error: any) {
     Logger.error(`Export failed: ${error.message}`);
+    process.exitCode = 1;
   } finally {
     await Commands.cleanup();
   }
 }
 
-static async exportShopifyTest(): Promise<void> {
+static async exportShopifyTest(options: ExportShopifyTestOptions = {}): Promise<void> {
   Logger.header('Export Test Products to Shopify CSV (Limited by Category)');
 
   try {
     // Inicializar servicios
     await Commands.initializeServices();
 
-    const answers = await inquirer.prompt([
+    const answers = await Prompts.ask<Required<Omit<ExportShopifyTestOptions, 'yes'>>>([
       {
         type: 'input',
         name: 'outputFile',
@@ -353,9 +1316,9 @@ static async exportShopifyTest(): Promise<void> {
         name: 'imageSource',
         message: 'Which image URLs do you want to use?',
         choices: [
-          { name: 'Supabase URLs (recommended)', value: 'supabase' },
+          { name: 'Stored image URLs (recommended)', value: 'supabase' },
           { name: 'Original URLs (fallback)', value: 'original' },
-          { name: 'Mixed (Supabase if available, original as fallback)', value: 'mixed' }
+          { name: 'Mixed (stored if available, original as fallback)', value: 'mixed' }
         ],
         default: 'supabase'
       },
@@ -376,7 +1339,13 @@ static async exportShopifyTest(): Promise<void> {
         message: 'Include products without category?',
         default: true
       }
-    ]);
+    ], {
+      outputFile: options.outputFile,
+      limitPerCategory: options.limitPerCategory,
+      imageSource: options.imageSource,
+      selectionMethod: options.selectionMethod,
+      includeWithoutCategory: options.includeWithoutCategory
+    }, options);
 
     Logger.info('Analizando categorías disponibles...');
     const categories = await Commands.prismaService.getActiveProductCategories();
@@ -418,7 +1387,7 @@ static async exportShopifyTest(): Promise<void> {
     }
 
     const outputPath = path.resolve(answers.outputFile);
-    await CsvHandler.writeCsv(outputPath, shopifyExportData, ShopifyProduct.getHeaders());
+    await CsvHandler.writeCsv(outputPath, shopifyExportData, [...ShopifyProduct.getHeaders(), ...MerchandisingService.metafieldColumns()]);
 
     // Generar estadísticas del export de testing
     const stats = Commands.generateTestExportStats(selectedProducts, shopifyExportData);
@@ -429,7 +1398,7 @@ static async exportShopifyTest(): Promise<void> {
     console.log(`Total productos seleccionados: ${stats.totalProducts}`);
     console.log(`Productos con imágenes: ${stats.productsWithImages}`);
     console.log(`Total de imágenes: ${stats.totalImages}`);
-    console.log(`Imágenes de Supabase: ${stats.supabaseImages}`);
+    console.log(`Imágenes del storage (${appConfig.storage.backend}): ${stats.supabaseImages}`);
     console.log(`Imágenes originales: ${stats.originalImages}`);
     
     console.log('\n' + chalk.bold('Breakdown por categoría:'));
@@ -439,7 +1408,7 @@ static async exportShopifyTest(): Promise<void> {
     });
     
     if (answers.imageSource === 'supabase' && stats.originalImages > 0) {
-      Logger.warning(`${stats.originalImages} imágenes usan URLs originales porque no se encontró versión de Supabase`);
+      Logger.warning(`${stats.originalImages} imágenes usan URLs originales porque no se encontró versión en el storage`);
     }
 
     console.log('\n' + chalk.cyan('🎯 Test CSV listo para importar en Shopify!'));
@@ -447,6 +1416,7 @@ static async exportShopifyTest(): Promise<void> {
 
   } catch (error: any) {
     Logger.error(`Test export failed: ${error.message}`);
+    process.exitCode = 1;
   } finally {
     await Commands.cleanup();
   }
@@ -475,7 +1445,7 @@ private static generateTestExportStats(products: any[], exportData: any[]): {
     
     if (row['Image Src']) {
       totalImages++;
-      if (row['Image Src'].includes('supabase')) {
+      if (Commands.isStoredImageUrl(row['Image Src'])) {
         supabaseImages++;
       } else {
         originalImages++;
@@ -510,9 +1480,9 @@ private static generateTestExportStats(products: any[], exportData: any[]): {
 }
 
 /**
- * Comando específico para verificar el estado de las imágenes en Supabase
+ * Comando específico para verificar el estado de las imágenes en el storage
  */
-static async checkImageStatus(): Promise<void> {
+static async checkImageStatus(options: CheckImagesOptions = {}): Promise<void> {
   Logger.header('Check Image Processing Status');
 
   try {
@@ -528,32 +1498,41 @@ static async checkImageStatus(): Promise<void> {
     console.log(`Total imágenes: ${imageStats.totalImages}`);
     console.log(chalk.green(`Imágenes procesadas exitosamente: ${imageStats.processedImages}`));
     console.log(chalk.yellow(`Imágenes pendientes/fallidas: ${imageStats.failedImages}`));
+    await Commands.printStorageSavings();
+    await Commands.printFlaggedImages();
     
     if (imageStats.failedImages > 0) {
+      await Commands.printImageFailures();
+
       console.log('\n' + chalk.yellow('Products with failed image processing:'));
       imageStats.failedImageDetails.forEach((product: any, index: number) => {
         console.log(`${index + 1}. ${product.title} (ID: ${product.id})`);
         product.failedImages.forEach((img: any) => {
-          console.log(`   - ${img.originalUrl} (Error: ${img.processed ? 'Unknown' : 'Not processed'})`);
+          const failure: ImageFailure | undefined = img.failure;
+          const reason = failure
+            ? `${FAILURE_LABELS[failure.reason]}${failure.httpStatus ? ` ${failure.httpStatus}` : ''}: ${failure.message}`
+            : 'Not processed';
+          console.log(`   - ${img.originalUrl} (${reason}, ${img.attempts} attempts)`);
         });
       });
       
-      const retry = await inquirer.prompt([
+      const retry = await Prompts.ask<{ retryFailed: boolean }>([
         {
           type: 'confirm',
           name: 'retryFailed',
           message: 'Do you want to retry processing failed images?',
           default: false
         }
-      ]);
+      ], { retryFailed: options.retryFailed }, options);
       
       if (retry.retryFailed) {
-        await Commands.retryFailedImages();
+        await Commands.reprocessFailedImages();
       }
     }
 
   } catch (error: any) {
     Logger.error(`Image status check failed: ${error.message}`);
+    process.exitCode = 1;
   } finally {
     await Commands.cleanup();
   }
@@ -562,11 +1541,44 @@ static async checkImageStatus(): Promise<void> {
 /**
  * Comando para reprocessar imágenes fallidas
  */
-static async retryFailedImages(): Promise<void> {
+static async retryFailedImages(options: RetryImagesOptions = {}): Promise<void> {
+  Logger.header('Retry Failed Images');
+
+  try {
+    Commands.useProfile(options.profile);
+    Commands.useImageConcurrency(options.imageConcurrency);
+    await Commands.initializeServices();
+    await Commands.reprocessFailedImages({
+      reasons: options.reason,
+      sourceType: options.source === 'artwork'
+        ? SourceType.ARTWORK_ARCHIVE
+        : options.source === 'woocommerce' ? SourceType.WOOCOMMERCE : undefined,
+      product: options.product,
+      maxAttempts: options.maxAttempts
+    }, options.force);
+  } catch (error: any) {
+    Logger.error(`Failed to retry images: ${error.message}`);
+    process.exitCode = 1;
+  } finally {
+    await Commands.cleanup();
+  }
+}
+
+/**
+ * Reprocesar imágenes fallidas (requiere servicios inicializados).
+ * Las fallas permanentes (404, contenido que no es imagen) se saltean salvo con force.
+ */
+private static async reprocessFailedImages(filters: FailedImageFilters = {}, force = false): Promise<void> {
   Logger.info('Reprocessing failed images...');
   
   try {
-    const failedImages = await Commands.prismaService.getFailedImages();
+    const matching = await Commands.prismaService.getFailedImages(filters);
+    const failedImages = force ? matching : matching.filter(image => !isPermanentFailure(image.failure?.reason));
+    const permanent = matching.length - failedImages.length;
+
+    if (permanent > 0) {
+      Logger.warning(`Se saltean ${permanent} imágenes con fallas permanentes (404, no es una imagen...); usar --force para reintentarlas`);
+    }
     
     if (failedImages.length === 0) {
       Logger.success('No failed images found to retry');
@@ -576,25 +1588,37 @@ static async retryFailedImages(): Promise<void> {
     Logger.info(`Found ${failedImages.length} failed images to retry`);
     
     const imageProcessor = ImageProcessorService.createDefault();
+    imageProcessor.setStoredImageLookup((contentHash, backend) => Commands.prismaService.findStoredImage(contentHash, backend));
     await imageProcessor.initialize();
     
     let successCount = 0;
     let failCount = 0;
+    const stillFailed = new Map<ImageFailureReason, number>();
     
+    // Las imágenes se reprocesan con el pool configurado; cada resultado vuelve a su fila por URL
+    const results = await imageProcessor.processImages(
+      failedImages.map(image => image.originalUrl),
+      [],
+      failedImages.filter(image => image.position === 1).map(image => image.originalUrl)
+    );
+
     for (const image of failedImages) {
       try {
-        Logger.info(`Retrying image: ${image.originalUrl}`);
+        const processedImage = results.get(image.originalUrl);
         
-        const processedImage = await imageProcessor.processImage(image.originalUrl);
-        
-        if (processedImage.success) {
-          // Actualizar en base de datos
+        if (processedImage) {
+          // Actualizar en base de datos (también el intento fallido y su motivo)
           await Commands.prismaService.updateImageProcessingResult(image.id, processedImage);
+        }
+
+        if (processedImage?.success) {
           successCount++;
           Logger.success(`Successfully reprocessed: ${image.originalUrl}`);
         } else {
           failCount++;
-          Logger.error(`Failed to reprocess: ${image.originalUrl} - ${processedImage.error}`);
+          const reason = processedImage?.failure?.reason || 'unknown';
+          stillFailed.set(reason, (stillFailed.get(reason) || 0) + 1);
+          Logger.error(`Failed to reprocess: ${image.originalUrl} - ${processedImage?.error}`);
         }
         
       } catch (error: any) {
@@ -604,14 +1628,122 @@ static async retryFailedImages(): Promise<void> {
     }
     
     await imageProcessor.cleanup();
+
+    await Commands.flagFileSizeOutliers();
+
+    // Las imágenes recién procesadas pueden dejar a su producto sin ninguna imagen aceptable
+    const drafted = await Commands.prismaService.draftProductsWithoutAcceptableImage(
+      [...new Set(failedImages.map(image => image.productId))]
+    );
     
     console.log('\n' + chalk.bold('Retry Results:'));
     console.log(chalk.bold('=============='));
     console.log(chalk.green(`Successfully reprocessed: ${successCount}`));
     console.log(chalk.red(`Still failed: ${failCount}`));
+    stillFailed.forEach((count, reason) => console.log(chalk.red(`   ${FAILURE_LABELS[reason]}: ${count}`)));
+    if (permanent > 0) {
+      console.log(chalk.gray(`Skipped (permanent failures): ${permanent}`));
+    }
+    if (drafted > 0) {
+      console.log(chalk.yellow(`Moved to draft (no acceptable image): ${drafted}`));
+    }
+    if (failCount > 0) {
+      process.exitCode = 1;
+    }
     
   } catch (error: any) {
     Logger.error(`Failed to retry images: ${error.message}`);
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Imágenes sin procesar agrupadas por motivo de la última falla y por host de origen
+ */
+private static async printImageFailures(): Promise<void> {
+  const failed = await Commands.prismaService.getFailedImages();
+  if (failed.length === 0) {
+    return;
+  }
+
+  const countBy = (key: (image: FailedImage) => string) => [...failed.reduce((counts, image) =>
+    counts.set(key(image), (counts.get(key(image)) || 0) + 1), new Map<string, number>())]
+    .sort((a, b) => b[1] - a[1]);
+
+  console.log('\n' + chalk.bold('Image Failures:'));
+  console.log(chalk.bold('==============='));
+  console.log('By reason:');
+  countBy(image => image.failure?.reason || '').forEach(([reason, count]) => {
+    const label = reason ? FAILURE_LABELS[reason as ImageFailureReason] : 'Not recorded';
+    const permanent = isPermanentFailure(reason as ImageFailureReason) ? chalk.gray(' (permanent, skipped by retry-images)') : '';
+    console.log(chalk.yellow(`   ${label}: ${count}`) + permanent);
+  });
+
+  const hosts = countBy(image => imageHost(image.originalUrl));
+  console.log('By host:');
+  hosts.slice(0, 10).forEach(([host, count]) => console.log(chalk.yellow(`   ${host}: ${count}`)));
+  if (hosts.length > 10) {
+    console.log(chalk.gray(`   ... and ${hosts.length - 10} more hosts`));
+  }
+}
+
+/**
+ * Imágenes marcadas por los controles de calidad, agrupadas por producto
+ */
+private static async printFlaggedImages(): Promise<void> {
+  const flagged = await Commands.prismaService.getFlaggedImages();
+  if (flagged.length === 0) {
+    return;
+  }
+
+  const images = flagged.flatMap(product => product.images);
+  const rejected = images.filter(image => image.qualityStatus === 'REJECTED').length;
+
+  console.log('\n' + chalk.bold('Image Quality:'));
+  console.log(chalk.bold('=============='));
+  console.log(chalk.red(`Rejected images: ${rejected}`));
+  console.log(chalk.yellow(`Images with warnings: ${images.length - rejected}`));
+
+  flagged.forEach((product, index) => {
+    console.log(`\n${index + 1}. ${product.title} (${product.handle}, ${product.status.toLowerCase()})`);
+    product.images.forEach(image => {
+      const color = image.qualityStatus === 'REJECTED' ? chalk.red : chalk.yellow;
+      const size = image.width && image.height ? ` ${image.width}x${image.height}` : '';
+      console.log(color(`   - [${image.qualityStatus!.toLowerCase()}] #${image.position}${size} ${image.originalUrl}`));
+      ((image.qualityIssues as ImageQualityIssue[] | null) || []).forEach(issue => {
+        console.log(color(`       ${ImageQualityService.ISSUE_LABELS[issue.code]}: ${issue.message}`));
+      });
+    });
+  });
+}
+
+/**
+ * Recalcular los tamaños atípicos con todas las imágenes guardadas (config.images.quality)
+ */
+private static async flagFileSizeOutliers(): Promise<void> {
+  const { enabled, fileSizeOutlierIqr } = appConfig.images.quality;
+  if (!enabled || fileSizeOutlierIqr <= 0) {
+    return;
+  }
+
+  const flagged = await Commands.prismaService.flagFileSizeOutliers(fileSizeOutlierIqr);
+  if (flagged > 0) {
+    Logger.info(`Imágenes con tamaño atípico: ${flagged} (ver check-images)`);
+  }
+}
+
+/**
+ * ¿La URL apunta al storage configurado (y no a la imagen original)?
+ */
+private static isStoredImageUrl(url: string): boolean {
+  const { backend, local, s3 } = appConfig.storage;
+  switch (backend) {
+    case 'local':
+      return local.publicUrl ? url.startsWith(local.publicUrl) : url.startsWith('file:');
+    case 's3':
+      return s3.publicUrl ? url.startsWith(s3.publicUrl) : url.includes(s3.bucket);
+    default:
+      return url.includes('supabase');
   }
 }
 
@@ -637,7 +1769,7 @@ private static generateExportStats(exportData: any[]): {
     
     if (row['Image Src']) {
       totalImages++;
-      if (row['Image Src'].includes('supabase')) {
+      if (Commands.isStoredImageUrl(row['Image Src'])) {
         supabaseImages++;
       } else {
         originalImages++;
@@ -660,19 +1792,24 @@ private static generateExportStats(exportData: any[]): {
 
   
 
-  private static async initializeServices(): Promise<void> {
+  private static async initializeServices(options: { dryRun?: boolean } = {}): Promise<void> {
     try {
-      // Inicializar servicio de base de datos
+      // Inicializar servicio de base de datos (en dry-run solo se leen los handles existentes)
       Commands.prismaService = new PrismaProductService();
       await Commands.prismaService.initialize();
 
+      // Las imágenes con contenido ya subido reutilizan su objeto en storage
+      const storedImageLookup: StoredImageLookup = (contentHash, backend) =>
+        Commands.prismaService.findStoredImage(contentHash, backend);
+
       // Inicializar procesador de imágenes
-      Commands.imageProcessor = ImageProcessorService.createDefault();
+      Commands.imageProcessor = ImageProcessorService.createDefault({ dryRun: options.dryRun });
+      Commands.imageProcessor.setStoredImageLookup(storedImageLookup);
       await Commands.imageProcessor.initialize();
 
       // Inicializar converters
-      await ArtworkToShopifyConverter.initialize();
-      await WooCommerceToShopifyConverter.initialize();
+      await ArtworkToShopifyConverter.initialize({ ...options, storedImageLookup });
+      await WooCommerceToShopifyConverter.initialize({ ...options, storedImageLookup });
 
       Logger.success('Todos los servicios inicializados correctamente');
     } catch (error: any) {
@@ -681,16 +1818,233 @@ private static generateExportStats(exportData: any[]): {
     }
   }
 
-  private static async getMigrationConfig() {
-    const dbConfig: DbConfig = {
-      host: 'localhost',
-      port: 3306,
-      user: 'root',
-      password: 'root123',
-      database: 'impulsog_store'
+  /**
+   * Cargar y aplicar un perfil de migración si se indicó --profile
+   */
+  private static useProfile(profilePath?: string): MigrationProfile | undefined {
+    if (!profilePath) {
+      return undefined;
+    }
+
+    const profile = loadProfile(profilePath);
+    applyProfile(profile);
+    Logger.success(`Perfil cargado: ${profile.name || profilePath} (versión ${profile.version})`);
+    return profile;
+  }
+
+  /**
+   * El flag --image-concurrency gana sobre perfil y env
+   */
+  private static useImageConcurrency(concurrency?: number): void {
+    if (concurrency !== undefined) {
+      appConfig.images.concurrency = concurrency;
+    }
+    if (appConfig.images.concurrency > 1) {
+      Logger.info(`Procesando hasta ${appConfig.images.concurrency} imágenes en paralelo`);
+    }
+  }
+
+  private static printSyncPlan(plan: ArtworkSyncPlan): void {
+    console.log('\n' + chalk.bold('Sync Plan:'));
+    console.log(chalk.bold('=========='));
+    console.log(chalk.green(`New: ${plan.new.length}`));
+    console.log(chalk.cyan(`Changed: ${plan.changed.length}`));
+    console.log(`Unchanged: ${plan.unchanged.length}`);
+    console.log(chalk.yellow(`Removed (will be ARCHIVED): ${plan.removed.length}`));
+
+    if (plan.new.length > 0) {
+      console.log('\n' + chalk.bold('New pieces:'));
+      plan.new.forEach(entry => console.log(chalk.green(`  + ${entry.title} (${entry.sourceId})`)));
+    }
+
+    if (plan.changed.length > 0) {
+      console.log('\n' + chalk.bold('Changed pieces:'));
+      plan.changed.forEach(entry => {
+        console.log(chalk.cyan(`  ~ ${entry.title} (${entry.sourceId})`));
+        entry.changes.forEach(change => {
+          console.log(`      ${change.field}: ${change.before || '(empty)'} → ${change.after || '(empty)'}`);
+        });
+      });
+    }
+
+    if (plan.removed.length > 0) {
+      console.log('\n' + chalk.bold('Removed pieces:'));
+      plan.removed.forEach(entry => console.log(chalk.yellow(`  - ${entry.title} (${entry.sourceId})`)));
+    }
+  }
+
+  /**
+   * Configuración reutilizable de una corrida (sin contraseña de MySQL)
+   */
+  private static toRunSettings(
+    options: MigrateOptions,
+    config: Awaited<ReturnType<typeof Commands.getMigrationConfig>>
+  ): MigrationRunSettings {
+    return {
+      profile: options.profile,
+      migration: {
+        artworkFile: config.artworkFile,
+        includeWooCommerce: config.includeWooCommerce,
+        checkDuplicates: config.checkDuplicates,
+        duplicateStrategy: config.duplicateStrategy,
+        matchingStrategy: config.matchingStrategy,
+        similarityThreshold: config.similarityThreshold,
+        maxImageDistance: config.maxImageDistance
+      },
+      connection: {
+        connection: options.connection,
+        mysqlHost: options.mysqlHost,
+        mysqlPort: options.mysqlPort,
+        mysqlUser: options.mysqlUser,
+        mysqlDatabase: options.mysqlDatabase,
+        tablePrefix: options.tablePrefix,
+        mysqlSsl: options.mysqlSsl,
+        mysqlSslCa: options.mysqlSslCa
+      }
+    };
+  }
+
+  /**
+   * Al reanudar manda la configuración de la corrida; los flags de conexión
+   * (p. ej. --mysql-password) se pueden volver a pasar
+   */
+  private static withRunSettings(options: MigrateOptions, settings: MigrationRunSettings): MigrateOptions {
+    return {
+      ...settings.connection,
+      ...options,
+      ...settings.migration,
+      profile: options.profile ?? settings.profile
+    };
+  }
+
+  /**
+   * Cerrar la corrida (si la hay) y mostrar estado y tiempos
+   */
+  private static async finishRun(
+    runService: MigrationRunService | undefined,
+    status: 'COMPLETED' | 'FAILED' | 'INTERRUPTED',
+    error?: string
+  ): Promise<void> {
+    if (!runService) {
+      return;
+    }
+
+    try {
+      const run = await runService.finish(status, error);
+      if (!run) {
+        return;
+      }
+
+      const timings = Object.entries((run.phaseTimings as Record<string, number>) || {})
+        .map(([phase, ms]) => `${phase} ${Commands.formatDuration(ms)}`)
+        .join(', ');
+
+      console.log('\n' + chalk.bold(`Run ${run.id}: ${run.status} in ${Commands.formatDuration(run.durationMs)}`));
+      if (timings) {
+        console.log(`  Phases: ${timings}`);
+      }
+      if (status !== 'COMPLETED') {
+        Logger.info(`Resume with: npm run migrate -- --resume ${run.id}`);
+      }
+    } catch (finishError: any) {
+      Logger.warning(`No se pudo actualizar la corrida: ${finishError.message}`);
+    }
+  }
+
+  /**
+   * Storage ahorrado por imágenes que comparten objeto (mismo hash de contenido)
+   */
+  private static async printStorageSavings(): Promise<void> {
+    const savings = await Commands.prismaService.getStorageSavings();
+    if (savings.hashedImages === 0) {
+      return;
+    }
+
+    console.log('\n' + chalk.bold('Storage:'));
+    console.log(`  - Image files with content hash: ${savings.hashedImages}`);
+    console.log(`  - Stored objects: ${savings.storedObjects} (${Commands.formatBytes(savings.storedBytes)})`);
+    console.log(chalk.green(`  - Storage saved by reusing identical images: ${Commands.formatBytes(savings.savedBytes)} (${savings.hashedImages - savings.storedObjects} uploads avoided)`));
+  }
+
+  private static toDuplicateFilters(options: DuplicatesFilterOptions): DuplicateMatchFilters {
+    return {
+      resolutions: options.resolution?.map(resolution => Commands.toDuplicateResolution(resolution)),
+      matchType: options.matchType,
+      minConfidence: options.minConfidence,
+      maxConfidence: options.maxConfidence
     };
+  }
 
-    const answers = await inquirer.prompt([
+  // keep-artwork -> KEEP_ARTWORK
+  private static toDuplicateResolution(option: DuplicateResolutionOption): DuplicateResolution {
+    return option.toUpperCase().replace(/-/g, '_') as DuplicateResolution;
+  }
+
+  private static resolutionColor(resolution: DuplicateResolution): (text: string) => string {
+    return resolution === DuplicateResolution.PENDING ? chalk.yellow : chalk.green;
+  }
+
+  private static describeMatchProduct(product: Pick<Product, 'handle' | 'status'> | null, sku: string): string {
+    return product ? `${product.handle} [${product.status}] SKU ${sku}` : `SKU ${sku} (not stored)`;
+  }
+
+  private static formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private static formatDuration(ms?: number | null): string {
+    if (ms === null || ms === undefined) {
+      return '-';
+    }
+
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  }
+
+  /**
+   * Verificar tablas de WordPress y mostrar conteo de productos
+   */
+  private static async verifyWooConnection(dbConfig: DbConfig): Promise<boolean> {
+    Logger.info(`Verificando conexión MySQL: ${describeDbConfig(dbConfig)}`);
+
+    try {
+      const inspection = await WooCommerceToShopifyConverter.inspectDatabase(dbConfig);
+
+      console.log('\n' + chalk.bold('Tablas de WordPress:'));
+      inspection.tables.forEach(table => {
+        console.log(table.exists ? chalk.green(`  ✓ ${table.name}`) : chalk.red(`  ✗ ${table.name} (no existe)`));
+      });
+
+      const missing = inspection.tables.filter(table => !table.exists);
+      if (missing.length > 0) {
+        Logger.error(`Faltan tablas: ${missing.map(t => t.name).join(', ')}. ¿El prefijo "${dbConfig.tablePrefix}" es correcto?`);
+        return false;
+      }
+
+      console.log('\n' + chalk.bold('Productos en WooCommerce:'));
+      Object.entries(inspection.productCounts).forEach(([status, count]) => {
+        console.log(`  ${status}: ${count}`);
+      });
+      console.log(`  Total: ${inspection.totalProducts}\n`);
+
+      Logger.success('Conexión a WooCommerce verificada');
+      return true;
+    } catch (error: any) {
+      Logger.error(`No se pudo conectar a MySQL: ${error.message}`);
+      return false;
+    }
+  }
+
+  private static async getMigrationConfig(options: MigrateOptions, profile?: MigrationProfile) {
+    const fromProfile = profile?.migration || {};
+
+    const answers = await Prompts.ask<Required<Omit<MigrateOptions, 'yes'>>>([
       {
         type: 'input',
         name: 'artworkFile',
@@ -724,7 +2078,9 @@ private static generateExportStats(exportData: any[]): {
           { name: 'Keep both versions (add suffix to WooCommerce products)', value: 'keepBoth' },
           { name: 'Prefer Artwork Archive version', value: 'preferArtwork' },
           { name: 'Prefer WooCommerce version', value: 'preferWoo' },
-          { name: 'Ask for each duplicate', value: 'ask' }
+          { name: 'Ask for each duplicate', value: 'ask' },
+          { name: 'Keep both unchanged and review later (duplicates resolve)', value: 'review' },
+          { name: 'Merge into one product, field by field (duplicates.mergePolicy)', value: 'merge' }
         ],
         default: 'keepBoth',
         when: (answers) => answers.includeWooCommerce && answers.checkDuplicates
@@ -737,7 +2093,9 @@ private static generateExportStats(exportData: any[]): {
           { name: 'Exact title match (basic)', value: 'exactTitle' },
           { name: 'Normalized title match (handles special chars & case)', value: 'normalizedTitle' },
           { name: 'Advanced match (title + artist similarity)', value: 'advanced' },
-          { name: 'Fuzzy match (detects similar titles)', value: 'fuzzy' }
+          { name: 'Fuzzy match (detects similar titles)', value: 'fuzzy' },
+          { name: 'Image similarity (same photo, any title)', value: 'imageSimilarity' },
+          { name: 'Weighted score (title, artist, dimensions, price, year and image)', value: 'weighted' }
         ],
         default: 'normalizedTitle',
         when: (answers) => answers.includeWooCommerce && answers.checkDuplicates
@@ -748,13 +2106,36 @@ private static generateExportStats(exportData: any[]): {
         message: 'For fuzzy matching, set similarity threshold (0.8 = 80% similar):',
         default: 0.8,
         when: (answers) => answers.matchingStrategy === 'fuzzy'
+      },
+      {
+        type: 'number',
+        name: 'maxImageDistance',
+        message: 'For image similarity, max differing bits between image hashes (0-64, 10 = very similar):',
+        default: 10,
+        when: (answers) => answers.matchingStrategy === 'imageSimilarity'
       }
-    ]);
+    ], {
+      artworkFile: options.artworkFile ?? fromProfile.artworkFile,
+      includeWooCommerce: options.includeWooCommerce ?? fromProfile.includeWooCommerce,
+      checkDuplicates: options.checkDuplicates ?? fromProfile.checkDuplicates,
+      duplicateStrategy: options.duplicateStrategy ?? fromProfile.duplicateStrategy,
+      matchingStrategy: options.matchingStrategy ?? fromProfile.matchingStrategy,
+      similarityThreshold: options.similarityThreshold ?? fromProfile.similarityThreshold,
+      maxImageDistance: options.maxImageDistance ?? fromProfile.maxImageDistance
+    }, options);
+
+    // La estrategia "ask" necesita un prompt por cada duplicado
+    if (answers.duplicateStrategy === 'ask' && !Prompts.isInteractive(options)) {
+      throw new Error('--duplicate-strategy ask requiere una terminal interactiva; usa keepBoth, preferArtwork, preferWoo, review o merge');
+    }
+
+    // Conexión: flags > perfil > MYSQL_* (solo si se va a usar WooCommerce)
+    const dbConfig: DbConfig | undefined = answers.includeWooCommerce ? resolveDbConfig(options) : undefined;
 
     return { ...answers, dbConfig };
   }
 
-  private static async processArtworkArchive(artworkFile: string): Promise<{
+  private static async processArtworkArchive(artworkFile: string, checkpoint?: MigrationCheckpoint): Promise<{
     artworkProducts: ShopifyProduct[];
     artworkRecords: ArtworkArchiveRecord[];
     artworkImages: Map<string, ProcessedImage>;
@@ -763,16 +2144,17 @@ private static generateExportStats(exportData: any[]): {
     const artworks = await CsvHandler.readCsv<ArtworkArchiveRecord>(artworkFile);
    
     Logger.info('Converting Artwork Archive data to Shopify format with image processing...');
-    const artworkProducts = await ArtworkToShopifyConverter.convertArtworkToShopify(artworks);
-   
-    // Crear mapa de imágenes procesadas (esto se maneja dentro del converter ahora)
     const artworkImages = new Map<string, ProcessedImage>();
+    const artworkProducts = await ArtworkToShopifyConverter.convertArtworkToShopify(artworks, {
+      checkpoint,
+      processedImages: artworkImages
+    });
    
     Logger.success(`Successfully converted ${artworkProducts.length} Artwork Archive products`);
     return { artworkProducts, artworkRecords: artworks, artworkImages };
   }
 
-  private static async processWooCommerce(config: any): Promise<{
+  private static async processWooCommerce(config: any, checkpoint?: MigrationCheckpoint): Promise<{
     wooProducts: ShopifyProduct[];
     wooRecords: any[];
     wooImages: Map<string, ProcessedImage>;
@@ -792,11 +2174,12 @@ private static generateExportStats(exportData: any[]): {
       }
 
       Logger.info('Converting WooCommerce data to Shopify format with image processing...');
-      const wooProducts = await WooCommerceToShopifyConverter.convertToShopify(wooCommerceData);
-      Logger.success(`Successfully converted ${wooProducts.length} WooCommerce products`);
-     
-      // Crear mapa de imágenes procesadas (esto se maneja dentro del converter ahora)
       const wooImages = new Map<string, ProcessedImage>();
+      const wooProducts = await WooCommerceToShopifyConverter.convertToShopify(wooCommerceData, {
+        checkpoint,
+        processedImages: wooImages
+      });
+      Logger.success(`Successfully converted ${wooProducts.length} WooCommerce products`);
       
       return { wooProducts, wooRecords: wooCommerceData, wooImages };
     } catch (wooError: any) {
@@ -809,11 +2192,16 @@ private static generateExportStats(exportData: any[]): {
   private static async handleDuplicates(
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[],
-    config: any
-  ): Promise<{ finalArtworkProducts: ShopifyProduct[], finalWooProducts: ShopifyProduct[] }> {
+    config: any,
+    processedImages: Array<Map<string, ProcessedImage>> = []
+  ): Promise<{
+    finalArtworkProducts: ShopifyProduct[],
+    finalWooProducts: ShopifyProduct[],
+    resolutions: AppliedDuplicateResolution[]
+  }> {
    
     if (!config.includeWooCommerce || !config.checkDuplicates || wooProducts.length === 0) {
-      return { finalArtworkProducts: artworkProducts, finalWooProducts: wooProducts };
+      return { finalArtworkProducts: artworkProducts, finalWooProducts: wooProducts, resolutions: [] };
     }
 
     Logger.info('Checking for duplicate products between Artwork Archive and WooCommerce...');
@@ -821,14 +2209,28 @@ private static generateExportStats(exportData: any[]): {
     // Configurar el servicio de detección de duplicados
     const detectionConfig: DuplicateDetectionConfig = {
       matchingStrategy: config.matchingStrategy,
-      similarityThreshold: config.similarityThreshold
+      similarityThreshold: config.similarityThreshold,
+      maxImageDistance: config.maxImageDistance
     };
 
+    // Hash perceptual por URL de imagen (la del storage y la original), para imageSimilarity
+    const imageHashes = new Map<string, string>();
+    processedImages.forEach(images => images.forEach(image => {
+      if (image.success && image.perceptualHash) {
+        imageHashes.set(image.storageUrl, image.perceptualHash);
+        imageHashes.set(image.originalUrl, image.perceptualHash);
+      }
+    }));
+    if (config.matchingStrategy === 'imageSimilarity' && imageHashes.size === 0) {
+      Logger.warning('imageSimilarity necesita imágenes procesadas (no hay hashes; p. ej. en dry-run no se descargan)');
+    }
+
     const detectionService = new DuplicateDetectionService(
       detectionConfig,
       extractDimensions,
       generateComparisonKeys,
-      NormalizeUtils
+      NormalizeUtils,
+      imageHashes
     );
 
     // Detectar duplicados
@@ -836,7 +2238,7 @@ private static generateExportStats(exportData: any[]): {
 
     if (duplicates.length === 0) {
       Logger.success('No duplicate products found between Artwork Archive and WooCommerce.');
-      return { finalArtworkProducts: artworkProducts, finalWooProducts: wooProducts };
+      return { finalArtworkProducts: artworkProducts, finalWooProducts: wooProducts, resolutions: [] };
     }
 
     // Configurar el servicio de resolución de duplicados
@@ -855,17 +2257,21 @@ private static generateExportStats(exportData: any[]): {
       resolutionConfig
     );
 
-    // Los duplicados se guardarán en la base de datos más adelante
+    // Se guardan en la base de datos junto con los productos, con su reporte (ver migrate)
     Logger.info(`Duplicates resolved using strategy: ${config.duplicateStrategy}`);
 
     return {
       finalArtworkProducts: result.artworkProducts,
-      finalWooProducts: result.wooProducts
+      finalWooProducts: result.wooProducts,
+      resolutions: result.resolutions
     };
   }
 
   private static createManualChoiceHandler() {
-    return async (duplicate: DuplicateMatch): Promise<'artwork' | 'woo' | 'both'> => {
+    return async (duplicate: DuplicateMatch): Promise<DuplicateChoice> => {
+      console.log(chalk.bold(`\nWhy "${duplicate.title}" matched (score ${Math.round(duplicate.score * 100)}%):`));
+      DuplicateScoringService.explain(duplicate.signals).forEach(line => console.log(chalk.gray(`   ${line}`)));
+
       const dupeChoice = await inquirer.prompt([
         {
           type: 'list',
@@ -883,6 +2289,10 @@ private static generateExportStats(exportData: any[]): {
             {
               name: 'Keep both versions',
               value: 'both'
+            },
+            {
+              name: 'Merge into one product (duplicates.mergePolicy)',
+              value: 'merged'
             }
           ]
         }
@@ -892,31 +2302,80 @@ private static generateExportStats(exportData: any[]): {
     };
   }
 
+  /**
+   * Aplicar la estrategia merge sobre los duplicados ya guardados; uno que falla queda pendiente
+   */
+  private static async mergeDuplicates(ids: string[]): Promise<void> {
+    const reviewService = new DuplicateReviewService();
+    let merged = 0;
+
+    try {
+      for (const id of ids) {
+        try {
+          const match = await reviewService.find(id);
+          await reviewService.resolve(match, DuplicateResolution.MERGED);
+          merged++;
+        } catch (error: any) {
+          Logger.warning(`No se pudo fusionar el duplicado ${id}: ${error.message}`);
+        }
+      }
+    } finally {
+      await reviewService.disconnect();
+    }
+
+    Logger.success(`Duplicados fusionados: ${merged}/${ids.length}`);
+  }
+
   private static async saveToDatabase(
     artworkRecords: ArtworkArchiveRecord[],
     artworkProducts: ShopifyProduct[],
     wooRecords: any[],
     wooProducts: ShopifyProduct[],
     artworkImages: Map<string, ProcessedImage>,
-    wooImages: Map<string, ProcessedImage>
+    wooImages: Map<string, ProcessedImage>,
+    checkpoint?: MigrationCheckpoint,
+    artworkExportedAt?: Date
   ): Promise<void> {
     Logger.info('Saving products to database...');
 
     try {
+      const summaries: Array<{ source: string; summary: SaveSummary }> = [];
+
       // Guardar productos de Artwork Archive
       if (artworkRecords.length > 0) {
         Logger.info(`Saving ${artworkRecords.length} Artwork Archive products...`);
-        await Commands.prismaService.saveArtworkProducts(artworkRecords, artworkProducts, artworkImages);
+        const { summary } = await Commands.prismaService.saveArtworkProducts(
+          artworkRecords,
+          artworkProducts,
+          artworkImages,
+          checkpoint,
+          { exportedAt: artworkExportedAt }
+        );
+        summaries.push({ source: 'Artwork Archive', summary });
         Logger.success('Artwork Archive products saved to database');
       }
 
       // Guardar productos de WooCommerce
       if (wooRecords.length > 0) {
         Logger.info(`Saving ${wooRecords.length} WooCommerce products...`);
-        await Commands.prismaService.saveWooCommerceProducts(wooRecords, wooProducts, wooImages);
+        const { summary } = await Commands.prismaService.saveWooCommerceProducts(wooRecords, wooProducts, wooImages, checkpoint);
+        summaries.push({ source: 'WooCommerce', summary });
         Logger.success('WooCommerce products saved to database');
       }
 
+      // Re-migrar actualiza los productos existentes en lugar de duplicarlos
+      console.log('\n' + chalk.bold('Save Summary:'));
+      console.log(chalk.bold('============='));
+      summaries.forEach(({ source, summary }) => {
+        console.log(chalk.cyan(`${source}:`));
+        console.log(chalk.green(`  - Created: ${summary.created}`));
+        console.log(chalk.blue(`  - Updated: ${summary.updated}`));
+        console.log(`  - Unchanged: ${summary.unchanged}`);
+        if (summary.failed > 0) {
+          console.log(chalk.red(`  - Failed: ${summary.failed}`));
+        }
+      });
+
       Logger.success('All products successfully saved to database');
     } catch (error: any) {
       Logger.error(`Error saving to database: ${error.message}`);
@@ -964,6 +2423,8 @@ private static generateExportStats(exportData: any[]): {
       console.log(chalk.green(`  - Total active products: ${activeArtworkProducts.length + activeWooProducts.length}`));
       console.log(chalk.yellow(`  - Total draft products: ${draftArtworkProducts.length + draftWooProducts.length}`));
       console.log(chalk.blue(`  - Total processed images: ${totalImages}`));
+
+      await Commands.printStorageSavings();
      
       console.log('\n' + chalk.cyan('Next steps:'));
       console.log('1. Run "npm run export-csv" to generate Shopify CSV from database');
@@ -0,0 +1,147 @@
+// Opciones que recibe cada comando desde commander.
+// Los nombres coinciden con los de las preguntas de inquirer para que
+// cualquier valor pasado por flag se salte su prompt.
+import { DbConfigOverrides } from '../config/connections';
+import { DuplicateStrategy, ImageFailureReason, ImageFormat, ImageRendition, MatchingStrategy } from '../types';
+
+export type NonInteractiveOptions = {
+  yes?: boolean;
+};
+
+export type PreviewOptions = NonInteractiveOptions & {
+  inputFile?: string;
+  limit?: number;
+};
+
+export type AnalyzeOptions = NonInteractiveOptions & {
+  inputFile?: string;
+};
+
+export type ProfileOptions = {
+  profile?: string;
+};
+
+export type ImageConcurrencyOptions = {
+  imageConcurrency?: number;
+};
+
+export type MigrateOptions = NonInteractiveOptions & ProfileOptions & ImageConcurrencyOptions & DbConfigOverrides & {
+  artworkFile?: string;
+  includeWooCommerce?: boolean;
+  checkDuplicates?: boolean;
+  duplicateStrategy?: DuplicateStrategy;
+  matchingStrategy?: MatchingStrategy;
+  similarityThreshold?: number;
+  maxImageDistance?: number;
+  dryRun?: boolean;
+  planFile?: string;
+  resume?: string;
+};
+
+export type ExportCsvOptions = NonInteractiveOptions & {
+  outputFile?: string;
+};
+
+export type ExportShopifyOptions = NonInteractiveOptions & {
+  outputFile?: string;
+  imageSource?: 'supabase' | 'original' | 'mixed';
+  imageRendition?: ImageRendition;
+  // Formato preferido en Image Src (si la imagen no lo tiene, sigue images.exportFormats)
+  imageFormat?: ImageFormat;
+  statusFilter?: 'all' | 'active' | 'draft';
+};
+
+export type ExportShopifyTestOptions = NonInteractiveOptions & {
+  outputFile?: string;
+  limitPerCategory?: number;
+  imageSource?: 'supabase' | 'original' | 'mixed';
+  selectionMethod?: 'random' | 'first' | 'recent';
+  includeWithoutCategory?: boolean;
+};
+
+export type CheckImagesOptions = NonInteractiveOptions & {
+  retryFailed?: boolean;
+};
+
+export type RetryImagesOptions = NonInteractiveOptions & ProfileOptions & ImageConcurrencyOptions & {
+  reason?: ImageFailureReason[];
+  source?: 'artwork' | 'woocommerce';
+  // id, handle o SKU
+  product?: string;
+  // Saltear imágenes que ya se intentaron esta cantidad de veces
+  maxAttempts?: number;
+  // Reintentar también las fallas permanentes (404, no es una imagen...)
+  force?: boolean;
+};
+
+export type TestConnectionOptions = ProfileOptions & DbConfigOverrides;
+
+export type RunsOptions = {
+  limit?: number;
+};
+
+export type SyncArtworkOptions = NonInteractiveOptions & ProfileOptions & {
+  artworkFile?: string;
+  dryRun?: boolean;
+};
+
+export type RollbackOptions = NonInteractiveOptions & {
+  mode?: 'delete' | 'archive';
+  dryRun?: boolean;
+};
+
+export type CacheStatsOptions = ProfileOptions;
+
+export type CachePruneOptions = ProfileOptions & {
+  maxSizeMb?: number;
+  olderThanDays?: number;
+  all?: boolean;
+};
+
+export type StorageGcOptions = NonInteractiveOptions & ProfileOptions & {
+  // Los huérfanos más nuevos que esto no se tocan (default 24)
+  graceHours?: number;
+  delete?: boolean;
+  // Marcar las imágenes con objetos faltantes como no procesadas, para retry-images
+  markMissing?: boolean;
+  output?: string;
+  limit?: number;
+};
+
+export type AltTextBackfillOptions = NonInteractiveOptions & ProfileOptions & {
+  source?: 'artwork' | 'woocommerce';
+  // Reescribir también los alt texts editados a mano (por defecto solo vacíos o iguales al título)
+  all?: boolean;
+  dryRun?: boolean;
+};
+
+export type AltTextReportOptions = ProfileOptions & {
+  output?: string;
+  limit?: number;
+};
+
+export type MerchandisingBackfillOptions = NonInteractiveOptions & ProfileOptions & {
+  source?: 'artwork' | 'woocommerce';
+  dryRun?: boolean;
+};
+
+// Resoluciones de DuplicateMatch en la CLI (keep-artwork -> KEEP_ARTWORK)
+export type DuplicateResolutionOption = 'pending' | 'keep-artwork' | 'keep-woo' | 'keep-both' | 'merged';
+
+export type DuplicatesFilterOptions = {
+  resolution?: DuplicateResolutionOption[];
+  // Texto contenido en el tipo de match
+  matchType?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+};
+
+export type DuplicatesListOptions = DuplicatesFilterOptions & {
+  limit?: number;
+};
+
+export type DuplicatesResolveOptions = NonInteractiveOptions & DuplicatesFilterOptions & {
+  as?: Exclude<DuplicateResolutionOption, 'pending'>;
+  notes?: string;
+  dryRun?: boolean;
+};
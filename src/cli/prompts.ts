@@ -0,0 +1,118 @@
+import inquirer, { Answers, DistinctQuestion } from 'inquirer';
+import { NonInteractiveOptions } from './options';
+
+// Lo que se lee de una pregunta fuera de inquirer (defaults, when, choices y validate)
+type QuestionFields<T extends Answers = Answers> = {
+  name?: string;
+  type?: string;
+  default?: unknown;
+  when?: unknown;
+  choices?: unknown;
+  validate?: (input: any, answers?: T) => boolean | string | Promise<boolean | string>;
+};
+
+type Choice = string | { value?: unknown };
+
+export class Prompts {
+  /**
+   * Pregunta solo por los valores que no se pasaron como flags.
+   * Con --yes se usan los defaults de cada pregunta sin mostrar prompts;
+   * sin TTY y sin --yes, cualquier valor faltante es un error.
+   */
+  static async ask<T extends Answers>(
+    questions: DistinctQuestion<T>[],
+    provided: Partial<T>,
+    options: NonInteractiveOptions = {}
+  ): Promise<T> {
+    const answers: Record<string, any> = {};
+
+    Object.entries(provided).forEach(([key, value]) => {
+      if (value !== undefined) {
+        answers[key] = value;
+      }
+    });
+
+    // Validar los valores recibidos por flag con las mismas reglas del prompt
+    for (const question of questions) {
+      const name = question.name as string;
+      if (name in answers) {
+        await this.checkProvided(question, answers[name], answers);
+      }
+    }
+
+    if (this.isInteractive(options)) {
+      return inquirer.prompt<T>(questions, answers as Partial<T>);
+    }
+
+    const missing: string[] = [];
+
+    for (const question of questions) {
+      const name = question.name as string;
+      if (name in answers || !(await this.isAsked(question, answers))) {
+        continue;
+      }
+
+      const { default: fallback }: QuestionFields<T> = question;
+      const value = typeof fallback === 'function' ? await fallback(answers) : fallback;
+
+      if (!options.yes || value === undefined) {
+        missing.push(this.toFlag(name));
+        continue;
+      }
+
+      answers[name] = value;
+    }
+
+    if (missing.length > 0) {
+      throw new Error(
+        `Faltan opciones en modo no interactivo: ${missing.join(', ')}. ` +
+        'Pásalas como flags o usa --yes para aceptar los valores por defecto.'
+      );
+    }
+
+    return answers as T;
+  }
+
+  /**
+   * Indica si se puede preguntar al usuario
+   */
+  static isInteractive(options: NonInteractiveOptions = {}): boolean {
+    return !options.yes && Boolean(process.stdin.isTTY);
+  }
+
+  /**
+   * Convierte el nombre de una respuesta en su flag de CLI (artworkFile -> --artwork-file)
+   */
+  static toFlag(name: string): string {
+    return `--${name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+  }
+
+  private static async isAsked(question: DistinctQuestion<any>, answers: Answers): Promise<boolean> {
+    const { when }: QuestionFields = question;
+    if (when === undefined) return true;
+    return typeof when === 'function' ? Boolean(await when(answers)) : Boolean(when);
+  }
+
+  private static async checkProvided(question: DistinctQuestion<any>, value: any, answers: Answers): Promise<void> {
+    const q: QuestionFields = question;
+    const flag = this.toFlag(q.name as string);
+
+    if (q.type === 'list' && Array.isArray(q.choices)) {
+      const values = (q.choices as Choice[]).map(choice => typeof choice === 'object' ? choice.value : choice);
+      if (!values.includes(value)) {
+        throw new Error(`${flag}: valor inválido "${value}". Opciones: ${values.join(', ')}`);
+      }
+    }
+
+    if (q.type === 'number' && (typeof value !== 'number' || isNaN(value))) {
+      throw new Error(`${flag}: se esperaba un número, se recibió "${value}"`);
+    }
+
+    if (typeof q.validate === 'function') {
+      const result = await q.validate(value, answers);
+      if (result !== true) {
+        throw new Error(`${flag}: ${typeof result === 'string' ? result : 'valor inválido'}`);
+      }
+    }
+  }
+}
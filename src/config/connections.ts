@@ -0,0 +1,160 @@
+// src/config/connections.ts
+import * as fs from 'fs';
+import { ConnectionOptions as MysqlConnectionOptions } from 'mysql2/promise';
+import { DbConfig, DbSslConfig } from '../types';
+import { config } from './index';
+
+/**
+ * Valores que se pueden pasar por flags para sobrescribir la conexión
+ */
+export type DbConfigOverrides = {
+  connection?: string;
+  mysqlHost?: string;
+  mysqlPort?: number;
+  mysqlUser?: string;
+  mysqlPassword?: string;
+  mysqlDatabase?: string;
+  tablePrefix?: string;
+  mysqlSsl?: boolean;
+  mysqlSslCa?: string;
+};
+
+const DEFAULT_CONNECTION: DbConfig = {
+  host: 'localhost',
+  port: 3306,
+  user: 'root',
+  password: '',
+  database: '',
+  tablePrefix: 'wp_',
+  ssl: { enabled: false, rejectUnauthorized: true }
+};
+
+/**
+ * Resuelve la conexión MySQL de WooCommerce.
+ *
+ * Sin nombre se usa la conexión por defecto (MYSQL_* + bloque mysql del perfil).
+ * Con nombre (--connection, perfil "connection" o MYSQL_CONNECTION) se combinan
+ * MYSQL_<NOMBRE>_* y el bloque connections.<nombre> del perfil sobre los defaults.
+ * Los flags siempre tienen la última palabra.
+ */
+export function resolveDbConfig(overrides: DbConfigOverrides = {}): DbConfig {
+  const name = overrides.connection || config.mysqlConnectionName;
+  const base = name ? resolveNamedConnection(name) : { ...config.mysql, ssl: { ...config.mysql.ssl } };
+
+  // --mysql-ssl-ca implica SSL salvo que se pase --no-mysql-ssl
+  const sslEnabled = overrides.mysqlSsl ?? (overrides.mysqlSslCa !== undefined || (base.ssl?.enabled ?? false));
+
+  const resolved: DbConfig = {
+    host: overrides.mysqlHost ?? base.host,
+    port: overrides.mysqlPort ?? base.port,
+    user: overrides.mysqlUser ?? base.user,
+    password: overrides.mysqlPassword ?? base.password,
+    database: overrides.mysqlDatabase ?? base.database,
+    tablePrefix: overrides.tablePrefix ?? base.tablePrefix,
+    ssl: {
+      enabled: sslEnabled,
+      ca: overrides.mysqlSslCa ?? base.ssl?.ca,
+      rejectUnauthorized: base.ssl?.rejectUnauthorized ?? true
+    }
+  };
+
+  if (!/^[A-Za-z0-9_]*$/.test(resolved.tablePrefix)) {
+    throw new Error(`Prefijo de tablas inválido: "${resolved.tablePrefix}" (solo letras, números y _)`);
+  }
+
+  if (!resolved.database) {
+    throw new Error(`La conexión ${name ? `"${name}" ` : ''}no tiene base de datos (MYSQL_DATABASE, perfil o --mysql-database)`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Nombres de las conexiones disponibles (perfil + variables de entorno)
+ */
+export function listConnectionNames(): string[] {
+  const names = new Set(Object.keys(config.mysqlConnections));
+
+  Object.keys(process.env).forEach(key => {
+    const match = key.match(/^MYSQL_([A-Z0-9]+)_HOST$/);
+    if (match) {
+      names.add(match[1].toLowerCase());
+    }
+  });
+
+  return [...names].sort();
+}
+
+/**
+ * Convierte un DbConfig a las opciones que espera mysql2
+ */
+export function toMysqlOptions(db: DbConfig): MysqlConnectionOptions {
+  return {
+    host: db.host,
+    port: db.port,
+    user: db.user,
+    password: db.password,
+    database: db.database,
+    ssl: db.ssl?.enabled ? toSslOptions(db.ssl) : undefined
+  };
+}
+
+/**
+ * Descripción segura de la conexión para logs (sin contraseña)
+ */
+export function describeDbConfig(db: DbConfig): string {
+  return `${db.user}@${db.host}:${db.port}/${db.database} (prefijo ${db.tablePrefix}${db.ssl?.enabled ? ', SSL' : ''})`;
+}
+
+function resolveNamedConnection(name: string): DbConfig {
+  const fromEnv = readEnvConnection(name);
+  const fromProfile = config.mysqlConnections[name];
+
+  if (!fromEnv && !fromProfile) {
+    const available = listConnectionNames();
+    throw new Error(
+      `Conexión MySQL desconocida: "${name}". ` +
+      (available.length > 0 ? `Disponibles: ${available.join(', ')}` : 'No hay conexiones con nombre configuradas')
+    );
+  }
+
+  return {
+    ...DEFAULT_CONNECTION,
+    ...fromEnv,
+    ...fromProfile,
+    ssl: { ...DEFAULT_CONNECTION.ssl!, ...fromEnv?.ssl, ...fromProfile?.ssl }
+  };
+}
+
+function readEnvConnection(name: string): Partial<DbConfig> | undefined {
+  const prefix = `MYSQL_${name.toUpperCase()}_`;
+  const env = (key: string) => process.env[`${prefix}${key}`];
+
+  if (!env('HOST') && !env('DATABASE')) {
+    return undefined;
+  }
+
+  const connection: Partial<DbConfig> = {};
+  if (env('HOST')) connection.host = env('HOST');
+  if (env('PORT')) connection.port = parseInt(env('PORT')!);
+  if (env('USER')) connection.user = env('USER');
+  if (env('PASSWORD') !== undefined) connection.password = env('PASSWORD');
+  if (env('DATABASE')) connection.database = env('DATABASE');
+  if (env('TABLE_PREFIX')) connection.tablePrefix = env('TABLE_PREFIX');
+  if (env('SSL') !== undefined) {
+    connection.ssl = {
+      enabled: env('SSL') === 'true',
+      ca: env('SSL_CA'),
+      rejectUnauthorized: env('SSL_REJECT_UNAUTHORIZED') !== 'false'
+    };
+  }
+
+  return connection;
+}
+
+function toSslOptions(ssl: DbSslConfig): MysqlConnectionOptions['ssl'] {
+  return {
+    ca: ssl.ca ? fs.readFileSync(ssl.ca, 'utf8') : undefined,
+    rejectUnauthorized: ssl.rejectUnauthorized ?? true
+  };
+}
@@ -1,4 +1,11 @@
 // src/config/index.ts
+import dotenv from 'dotenv';
+import path from 'path';
+import { ArtworkOrientation, DbConfig, DuplicateSignal, ImageFormat, ImageFormatSelection, ImageMetadataConfig, ImageRendition, MergePolicy, StorageBackendName } from '../types';
+
+// Este módulo lee process.env al importarse, así que carga .env aquí mismo
+dotenv.config({ path: path.resolve(process.cwd(), '.env') });
+
 export const config = {
   database: {
     url: process.env.DATABASE_URL!
@@ -12,26 +19,222 @@ export const config = {
     port: parseInt(process.env.MYSQL_PORT || '3306'),
     user: process.env.MYSQL_USER || 'root',
     password: process.env.MYSQL_PASSWORD || '',
-    database: process.env.MYSQL_DATABASE || ''
+    database: process.env.MYSQL_DATABASE || '',
+    tablePrefix: process.env.MYSQL_TABLE_PREFIX || 'wp_',
+    ssl: {
+      enabled: process.env.MYSQL_SSL === 'true',
+      ca: process.env.MYSQL_SSL_CA || undefined,
+      rejectUnauthorized: process.env.MYSQL_SSL_REJECT_UNAUTHORIZED !== 'false'
+    }
   },
+  // Conexiones con nombre (--connection <nombre>); las de env se leen como MYSQL_<NOMBRE>_HOST, etc.
+  mysqlConnections: {} as Record<string, Partial<DbConfig>>,
+  mysqlConnectionName: process.env.MYSQL_CONNECTION || '',
   images: {
-    bucketName: 'impulso-shop-images',
+    bucketName: process.env.IMAGES_BUCKET || 'impulso-shop-images',
     tempDir: './temp-images',
+    // Formatos generados por rendition; el primero es el principal (storageUrl)
+    formats: (process.env.IMAGE_FORMATS || 'webp').split(',').map(format => format.trim()) as ImageFormat[],
+    // all = se sube cada formato; smallest = por imagen, solo el más liviano con SSIM >= minSsim
+    formatSelection: (process.env.IMAGE_FORMAT_SELECTION || 'all') as ImageFormatSelection,
+    // Similitud mínima (0-1) con la imagen de origen para que un formato califique en smallest
+    minSsim: 0.95,
     webpOptions: {
       quality: 85,
       effort: 4
     },
+    // AVIF rinde a menor calidad nominal; effort 0-9 (más = más lento y más liviano)
+    avifOptions: {
+      quality: 55,
+      effort: 4
+    },
+    jpegOptions: {
+      quality: 85,
+      progressive: true,
+      mozjpeg: true
+    },
+    // Formato de Image Src al exportar, en orden de preferencia: Shopify toma JPEG en cualquier
+    // importación y genera WebP/AVIF en su CDN
+    exportFormats: ['jpeg', 'webp', 'avif'] as ImageFormat[],
     retryCount: 3,
-    timeout: 30000
+    timeout: 30000,
+    // Imágenes procesadas a la vez (descarga, sharp y subida); 1 = secuencial
+    concurrency: parseInt(process.env.IMAGE_CONCURRENCY || '1'),
+    // Descargas simultáneas contra un mismo host
+    perHostConcurrency: parseInt(process.env.IMAGE_PER_HOST_CONCURRENCY || '2'),
+    // Tope global de descargas por segundo (0 = sin límite)
+    requestsPerSecond: parseFloat(process.env.IMAGE_REQUESTS_PER_SECOND || '0'),
+    // Caché persistente de imágenes de origen (se revalida con ETag/Last-Modified)
+    cache: {
+      enabled: process.env.IMAGE_CACHE !== 'false',
+      dir: process.env.IMAGE_CACHE_DIR || './data/cache/images',
+      maxSizeMb: parseInt(process.env.IMAGE_CACHE_MAX_MB || '1024')
+    },
+    // Lado largo máximo (px) de cada rendition; 0 desactiva (en original, 0 = sin acotar)
+    renditions: {
+      thumbnail: 320,
+      medium: 800,
+      large: 1600,
+      original: 4096
+    },
+    // Rendition que va en Image Src al exportar a Shopify
+    exportRendition: 'original' as ImageRendition,
+    // Controles sobre la imagen descargada; un producto sin ninguna imagen aceptable queda en draft
+    quality: {
+      enabled: process.env.IMAGE_QUALITY_CHECKS !== 'false',
+      // Lado corto mínimo en px (menos = miniatura)
+      minShortEdge: 500,
+      // Proporción máxima lado largo / lado corto
+      maxAspectRatio: 4,
+      // Desviación estándar máxima (0-255) para considerar la imagen en blanco o de un solo color
+      uniformStdDev: 4,
+      // Límites absolutos de tamaño del archivo descargado
+      minFileSizeKb: 10,
+      maxFileSizeMb: 40,
+      // Tamaño ya convertido atípico respecto del resto de las imágenes guardadas (cercas de Tukey con este k)
+      fileSizeOutlierIqr: 1.5
+    },
+    // Orientación, metadata y perfil de color de los WebP generados
+    metadata: {
+      autoRotate: true,
+      // all = sin metadata (no se publica GPS ni datos de cámara), keepCopyright, none
+      strip: (process.env.IMAGE_METADATA_STRIP || 'all') as ImageMetadataConfig['strip'],
+      colorSpace: 'srgb' as ImageMetadataConfig['colorSpace'],
+      storeExif: true
+    }
+  },
+  // Dónde se guardan las imágenes convertidas: supabase (bucket images.bucketName), local o s3
+  storage: {
+    backend: (process.env.STORAGE_BACKEND || 'supabase') as StorageBackendName,
+    local: {
+      dir: process.env.STORAGE_LOCAL_DIR || './data/storage',
+      publicUrl: process.env.STORAGE_LOCAL_PUBLIC_URL || ''
+    },
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      publicUrl: process.env.S3_PUBLIC_URL || ''
+    }
+  },
+  // Alt text de las imágenes: {campo} se reemplaza; un tramo entre [ ] se omite si alguno de sus campos está vacío
+  altText: {
+    // Imagen principal
+    template: '{title}[ by {artist}][, {medium}][, {year}]',
+    // Imágenes de galería; {view} es la vista detectada (detail, back...) o "image N"
+    galleryTemplate: '{title}[ by {artist}][ – {view}]',
+    // Recomendado para lectores de pantalla (Shopify admite hasta 512)
+    maxLength: 125,
+    // Vista según palabras en el nombre del archivo (separadas por -, _, espacios...)
+    views: {
+      detail: ['detail', 'detalle', 'closeup', 'zoom'],
+      back: ['back', 'reverso', 'dorso', 'verso'],
+      front: ['front', 'frente'],
+      side: ['side', 'lateral', 'perfil'],
+      framed: ['framed', 'enmarcado', 'marco'],
+      installation: ['installation', 'room', 'ambiente', 'instalacion']
+    } as Record<string, string[]>
+  },
+  branding: {
+    // Vendor para productos de WooCommerce (la galería)
+    vendor: 'Impulso Galeria',
+    // Vendor para obras de Artwork Archive sin artista
+    unknownArtist: 'Unknown Artist',
+    // Tags fijos que se agregan a cada obra de Artwork Archive
+    tags: ['Original Art', 'Gallery', 'Impulso Galeria']
+  },
+  // Color y formato de la obra (de la imagen principal) como tags o metafields al exportar
+  merchandising: {
+    tags: process.env.MERCHANDISING_TAGS === 'true',
+    metafields: process.env.MERCHANDISING_METAFIELDS === 'true',
+    colorTagPrefix: 'color:',
+    orientationTagPrefix: 'formato:',
+    // Columnas "Colors (product.metafields.<namespace>.<key>)" del CSV de Shopify
+    metafieldNamespace: 'custom',
+    colorMetafieldKey: 'colors',
+    orientationMetafieldKey: 'orientation',
+    // Colores de la paleta que cuentan (proporción mínima) y cuántos nombres se asignan
+    minShare: 0.15,
+    maxColors: 3,
+    // Croma medio (0-1) por debajo del cual la obra es monocromo
+    monochromeChroma: 0.08,
+    monochromeName: 'monocromo',
+    // Cada color de la paleta toma el nombre de la referencia más cercana
+    colors: {
+      negro: ['#000000', '#2b2b2b'],
+      blanco: ['#ffffff', '#f2efe8'],
+      gris: ['#808080', '#b5b5b5'],
+      rojo: ['#b22222', '#e03c31'],
+      naranja: ['#e67e22'],
+      amarillo: ['#f1c40f', '#e8d27c'],
+      verde: ['#2e8b57', '#6b8e23'],
+      azul: ['#1f4e9c', '#5b9bd5', '#1b2a49'],
+      violeta: ['#7d3c98'],
+      rosa: ['#e75480', '#f4b6c2'],
+      tierra: ['#8b5a2b', '#a0522d', '#c19a6b', '#5c4033']
+    } as Record<string, string[]>,
+    orientations: {
+      portrait: 'vertical',
+      landscape: 'horizontal',
+      square: 'cuadrado',
+      panoramic: 'panorámico'
+    } as Record<ArtworkOrientation, string>,
+    // Ancho / alto desde el que es panorámico; lado largo / corto hasta 1 + squareTolerance es cuadrado
+    panoramicRatio: 2,
+    squareTolerance: 0.05
+  },
+  duplicates: {
+    // Fusión de duplicados (--duplicate-strategy merge, duplicates resolve --as merged)
+    mergePolicy: {
+      title: 'artwork',
+      description: 'woo',
+      artist: 'artwork',
+      dimensions: 'artwork',
+      year: 'artwork',
+      medium: 'artwork',
+      price: 'higher',
+      tags: 'union',
+      images: 'woo',
+      newerFallback: 'artwork'
+    } as MergePolicy,
+    // Puntaje de duplicado por señales: lo usa --matching-strategy weighted y explica los matches de las demás
+    scoring: {
+      // Se reparten entre las señales que tienen las dos versiones
+      weights: {
+        title: 0.35,
+        artist: 0.2,
+        dimensions: 0.15,
+        price: 0.1,
+        year: 0.05,
+        image: 0.15
+      } as Record<DuplicateSignal, number>,
+      // weighted: puntaje desde el que un par es duplicado
+      threshold: 0.75,
+      // Señales disponibles necesarias para repartir los pesos; con menos, cada una cuenta sobre el total
+      minSignals: 2,
+      // Diferencia de precio (relativa al mayor) con la que la señal llega a 0
+      priceTolerance: 0.5,
+      // Diferencia relativa por medida que todavía cuenta como la misma
+      dimensionTolerance: 0.05,
+      // Años de diferencia que todavía suman (a mitad de puntaje)
+      yearTolerance: 1,
+      // Bits distintos entre hashes de imagen con los que la señal llega a 0
+      imageDistance: 20
+    }
   }
 };
 
 // Función para validar configuración
 export function validateConfig(): void {
-  const requiredVars = ['DATABASE_URL', 'SUPABASE_URL', 'SUPABASE_KEY'];
+  const requiredVars = config.storage.backend === 'supabase'
+    ? ['DATABASE_URL', 'SUPABASE_URL', 'SUPABASE_KEY']
+    : ['DATABASE_URL'];
   const missingVars = requiredVars.filter(envVar => !process.env[envVar]);
-  
+
   if (missingVars.length > 0) {
     throw new Error(`Variables de entorno requeridas no encontradas: ${missingVars.join(', ')}`);
   }
-}
\ No newline at end of file
+}
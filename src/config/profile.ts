@@ -0,0 +1,285 @@
+// src/config/profile.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { config } from './index';
+
+/**
+ * Perfil de migración versionado (JSON o YAML).
+ *
+ * Orden de precedencia, de mayor a menor:
+ *   1. Flags de la línea de comandos
+ *   2. Perfil (--profile)
+ *   3. Variables de entorno (.env)
+ *   4. Valores por defecto de src/config
+ *
+ * Cualquier valor de migración que no quede resuelto se pregunta
+ * de forma interactiva (o se toma su default con --yes).
+ */
+export const PROFILE_VERSION = 1;
+
+const migrationSchema = z.object({
+  artworkFile: z.string().min(1),
+  includeWooCommerce: z.boolean(),
+  checkDuplicates: z.boolean(),
+  duplicateStrategy: z.enum(['keepBoth', 'preferArtwork', 'preferWoo', 'ask', 'review', 'merge']),
+  matchingStrategy: z.enum(['exactTitle', 'normalizedTitle', 'advanced', 'fuzzy', 'imageSimilarity', 'weighted']),
+  similarityThreshold: z.number().min(0).max(1),
+  maxImageDistance: z.number().int().min(0).max(64)
+}).partial().strict();
+
+const mysqlSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().positive(),
+  user: z.string(),
+  password: z.string(),
+  database: z.string().min(1),
+  tablePrefix: z.string().regex(/^[A-Za-z0-9_]*$/, 'solo letras, números y _'),
+  ssl: z.object({
+    enabled: z.boolean(),
+    ca: z.string().min(1).optional(),
+    rejectUnauthorized: z.boolean().optional()
+  }).strict()
+}).partial().strict();
+
+const imageFormatSchema = z.enum(['webp', 'avif', 'jpeg']);
+
+const imagesSchema = z.object({
+  bucketName: z.string().min(1),
+  tempDir: z.string().min(1),
+  formats: z.array(imageFormatSchema).min(1),
+  formatSelection: z.enum(['all', 'smallest']),
+  minSsim: z.number().min(0).max(1),
+  webpOptions: z.object({
+    quality: z.number().int().min(1).max(100),
+    effort: z.number().int().min(0).max(6)
+  }).partial().strict(),
+  avifOptions: z.object({
+    quality: z.number().int().min(1).max(100),
+    effort: z.number().int().min(0).max(9)
+  }).partial().strict(),
+  jpegOptions: z.object({
+    quality: z.number().int().min(1).max(100),
+    progressive: z.boolean(),
+    mozjpeg: z.boolean()
+  }).partial().strict(),
+  exportFormats: z.array(imageFormatSchema).min(1),
+  retryCount: z.number().int().min(0),
+  timeout: z.number().int().positive(),
+  concurrency: z.number().int().min(1),
+  perHostConcurrency: z.number().int().min(1),
+  requestsPerSecond: z.number().min(0),
+  cache: z.object({
+    enabled: z.boolean(),
+    dir: z.string().min(1),
+    maxSizeMb: z.number().int().positive()
+  }).partial().strict(),
+  renditions: z.object({
+    thumbnail: z.number().int().min(0),
+    medium: z.number().int().min(0),
+    large: z.number().int().min(0),
+    original: z.number().int().min(0)
+  }).partial().strict(),
+  exportRendition: z.enum(['thumbnail', 'medium', 'large', 'original']),
+  quality: z.object({
+    enabled: z.boolean(),
+    minShortEdge: z.number().int().min(0),
+    maxAspectRatio: z.number().min(1),
+    uniformStdDev: z.number().min(0),
+    minFileSizeKb: z.number().min(0),
+    maxFileSizeMb: z.number().positive(),
+    fileSizeOutlierIqr: z.number().min(0)
+  }).partial().strict(),
+  metadata: z.object({
+    autoRotate: z.boolean(),
+    strip: z.enum(['all', 'keepCopyright', 'none']),
+    colorSpace: z.enum(['srgb', 'keep']),
+    storeExif: z.boolean()
+  }).partial().strict()
+}).partial().strict();
+
+// Las credenciales (SUPABASE_KEY, S3_ACCESS_KEY_ID, ...) solo se leen del entorno
+const storageSchema = z.object({
+  backend: z.enum(['supabase', 'local', 's3']),
+  local: z.object({
+    dir: z.string().min(1),
+    publicUrl: z.string().url()
+  }).partial().strict(),
+  s3: z.object({
+    endpoint: z.string().url(),
+    region: z.string().min(1),
+    bucket: z.string().min(1),
+    forcePathStyle: z.boolean(),
+    publicUrl: z.string().url()
+  }).partial().strict()
+}).partial().strict();
+
+const altTextSchema = z.object({
+  template: z.string().min(1),
+  galleryTemplate: z.string().min(1),
+  maxLength: z.number().int().min(10).max(512),
+  views: z.record(z.array(z.string().min(1)))
+}).partial().strict();
+
+const brandingSchema = z.object({
+  vendor: z.string().min(1),
+  unknownArtist: z.string().min(1),
+  tags: z.array(z.string().min(1))
+}).partial().strict();
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, 'color hex (#rrggbb)');
+
+const merchandisingSchema = z.object({
+  tags: z.boolean(),
+  metafields: z.boolean(),
+  colorTagPrefix: z.string(),
+  orientationTagPrefix: z.string(),
+  metafieldNamespace: z.string().min(1),
+  colorMetafieldKey: z.string().min(1),
+  orientationMetafieldKey: z.string().min(1),
+  minShare: z.number().min(0).max(1),
+  maxColors: z.number().int().min(1),
+  monochromeChroma: z.number().min(0).max(1),
+  monochromeName: z.string().min(1),
+  colors: z.record(z.array(hexColorSchema).min(1)),
+  orientations: z.object({
+    portrait: z.string().min(1),
+    landscape: z.string().min(1),
+    square: z.string().min(1),
+    panoramic: z.string().min(1)
+  }).partial().strict(),
+  panoramicRatio: z.number().min(1),
+  squareTolerance: z.number().min(0)
+}).partial().strict();
+
+const mergeRuleSchema = z.enum(['artwork', 'woo', 'newer']);
+
+const duplicatesSchema = z.object({
+  mergePolicy: z.object({
+    title: mergeRuleSchema,
+    description: mergeRuleSchema,
+    artist: mergeRuleSchema,
+    dimensions: mergeRuleSchema,
+    year: mergeRuleSchema,
+    medium: mergeRuleSchema,
+    price: z.enum(['artwork', 'woo', 'newer', 'higher', 'lower']),
+    tags: z.enum(['artwork', 'woo', 'union']),
+    images: z.enum(['artwork', 'woo']),
+    newerFallback: z.enum(['artwork', 'woo'])
+  }).partial().strict(),
+  scoring: z.object({
+    weights: z.object({
+      title: z.number().min(0),
+      artist: z.number().min(0),
+      dimensions: z.number().min(0),
+      price: z.number().min(0),
+      year: z.number().min(0),
+      image: z.number().min(0)
+    }).partial().strict(),
+    threshold: z.number().min(0).max(1),
+    minSignals: z.number().int().min(1).max(6),
+    priceTolerance: z.number().positive(),
+    dimensionTolerance: z.number().min(0),
+    yearTolerance: z.number().int().min(0),
+    imageDistance: z.number().int().min(1).max(64)
+  }).partial().strict()
+}).partial().strict();
+
+const profileSchema = z.object({
+  version: z.literal(PROFILE_VERSION, {
+    errorMap: () => ({ message: `la versión soportada es ${PROFILE_VERSION}` })
+  }),
+  name: z.string().optional(),
+  migration: migrationSchema.optional(),
+  mysql: mysqlSchema.optional(),
+  connection: z.string().min(1).optional(),
+  connections: z.record(mysqlSchema).optional(),
+  images: imagesSchema.optional(),
+  storage: storageSchema.optional(),
+  altText: altTextSchema.optional(),
+  branding: brandingSchema.optional(),
+  merchandising: merchandisingSchema.optional(),
+  duplicates: duplicatesSchema.optional()
+}).strict();
+
+export type MigrationProfile = z.infer<typeof profileSchema>;
+
+export class ProfileValidationError extends Error {
+  constructor(filePath: string, public issues: string[]) {
+    super(`Perfil inválido (${filePath}):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ProfileValidationError';
+  }
+}
+
+/**
+ * Lee y valida un perfil de migración
+ */
+export function loadProfile(filePath: string): MigrationProfile {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Perfil no encontrado: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  let raw: unknown;
+  try {
+    raw = extension === '.yaml' || extension === '.yml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error: any) {
+    throw new ProfileValidationError(filePath, [`no se pudo leer el archivo: ${error.message}`]);
+  }
+
+  const result = profileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ProfileValidationError(
+      filePath,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(raíz)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Aplica el perfil sobre la configuración global (que ya contiene env y defaults)
+ */
+export function applyProfile(profile: MigrationProfile): void {
+  const { ssl, ...mysql } = profile.mysql || {};
+  Object.assign(config.mysql, mysql);
+  Object.assign(config.mysql.ssl, ssl);
+
+  Object.assign(config.mysqlConnections, profile.connections);
+  if (profile.connection) {
+    config.mysqlConnectionName = profile.connection;
+  }
+
+  const { webpOptions, avifOptions, jpegOptions, cache, renditions, quality, metadata, ...images } = profile.images || {};
+  Object.assign(config.images, images);
+  Object.assign(config.images.webpOptions, webpOptions);
+  Object.assign(config.images.avifOptions, avifOptions);
+  Object.assign(config.images.jpegOptions, jpegOptions);
+  Object.assign(config.images.cache, cache);
+  Object.assign(config.images.renditions, renditions);
+  Object.assign(config.images.quality, quality);
+  Object.assign(config.images.metadata, metadata);
+
+  const { local, s3, ...storage } = profile.storage || {};
+  Object.assign(config.storage, storage);
+  Object.assign(config.storage.local, local);
+  Object.assign(config.storage.s3, s3);
+
+  Object.assign(config.altText, profile.altText);
+
+  Object.assign(config.branding, profile.branding);
+
+  // colors reemplaza el vocabulario completo; orientations se combina
+  const { orientations, ...merchandising } = profile.merchandising || {};
+  Object.assign(config.merchandising, merchandising);
+  Object.assign(config.merchandising.orientations, orientations);
+
+  Object.assign(config.duplicates.mergePolicy, profile.duplicates?.mergePolicy);
+  const { weights, ...scoring } = profile.duplicates?.scoring || {};
+  Object.assign(config.duplicates.scoring, scoring);
+  Object.assign(config.duplicates.scoring.weights, weights);
+}
@@ -1,14 +1,49 @@
-import { ArtworkArchiveRecord } from '../types';
+import { ArtworkArchiveRecord, CheckpointRecord, MigrationCheckpoint, ProcessedImage } from '../types';
 import { ShopifyProduct } from '../models/ShopifyProduct';
 import { Logger } from '../utils/logger';
-import { ImageProcessorService } from '../services/ImageProcessorService';
+import { artworkSourceId } from '../utils/sourceIdentity';
+import { ImageProcessorService, StoredImageLookup } from '../services/ImageProcessorService';
+import { ImageQualityService } from '../services/ImageQualityService';
+import { AltTextService } from '../services/AltTextService';
+import { config } from '../config';
+
+export type ArtworkDraftReason = {
+  code: 'missingName' | 'singleCharacterName' | 'missingPrice' | 'notAvailable' | 'noAcceptableImage';
+  message: string;
+};
+
+export type ConverterOptions = {
+  dryRun?: boolean;
+  // Búsqueda de imágenes ya subidas por hash de contenido
+  storedImageLookup?: StoredImageLookup;
+};
+
+export type ConversionOptions = {
+  // Progreso de la corrida: se restauran los registros ya convertidos
+  checkpoint?: MigrationCheckpoint;
+  // Se llena con el resultado de cada imagen, por URL original
+  processedImages?: Map<string, ProcessedImage>;
+  // Imágenes ya subidas (p. ej. guardadas en la base de datos) que no hace falta reprocesar
+  knownImages?: ProcessedImage[];
+  // Convertir solo estos registros de origen (por sourceId)
+  only?: Set<string>;
+};
+
+/**
+ * Un registro ya convertido con sus imágenes en una corrida anterior se restaura tal cual
+ */
+export const canRestore = (record?: CheckpointRecord): boolean =>
+  Boolean(record && (record.stage === 'IMAGES_PROCESSED' || record.stage === 'SAVED') && record.products.length > 0);
 
 export class ArtworkToShopifyConverter {
   private static imageProcessor: ImageProcessorService;
 
-  static async initialize(): Promise<void> {
+  static async initialize(options: ConverterOptions = {}): Promise<void> {
     try {
-      this.imageProcessor = ImageProcessorService.createDefault();
+      this.imageProcessor = ImageProcessorService.createDefault({ dryRun: options.dryRun });
+      if (options.storedImageLookup) {
+        this.imageProcessor.setStoredImageLookup(options.storedImageLookup);
+      }
       await this.imageProcessor.initialize();
       Logger.success('ArtworkToShopifyConverter inicializado con procesamiento de imágenes');
     } catch (error: any) {
@@ -17,7 +52,10 @@ export class ArtworkToShopifyConverter {
     }
   }
 
-  static async convertArtworkToShopify(artworks: ArtworkArchiveRecord[]): Promise<ShopifyProduct[]> {
+  static async convertArtworkToShopify(
+    artworks: ArtworkArchiveRecord[],
+    options: ConversionOptions = {}
+  ): Promise<ShopifyProduct[]> {
     // Verificar que el servicio esté inicializado
     if (!this.imageProcessor) {
       await this.initialize();
@@ -25,42 +63,100 @@ export class ArtworkToShopifyConverter {
 
     Logger.info('Starting conversion from Artwork Archive to Shopify format...');
     
+    const { checkpoint, processedImages, knownImages = [], only } = options;
     const shopifyProducts: ShopifyProduct[] = [];
     let convertedCount = 0;
     let draftCount = 0;
+    let restoredCount = 0;
+
+    const records = artworks
+      .map((artwork, index) => ({ artwork, index, sourceId: artworkSourceId(artwork, index) }))
+      .filter(record => !only || only.has(record.sourceId));
+
+    // Las imágenes de todos los registros pasan por un solo pool; la conversión y el checkpoint siguen en orden
+    const pending = records.filter(record => !canRestore(checkpoint?.getRecord('ARTWORK_ARCHIVE', record.sourceId)));
+    const primaryUrls = pending.map(record => record.artwork['Primary Image Url']).filter(Boolean);
+    const scheduled = this.imageProcessor.scheduleImages(
+      primaryUrls,
+      [
+        ...pending.flatMap(record => checkpoint?.getRecord('ARTWORK_ARCHIVE', record.sourceId)?.images || []),
+        ...knownImages
+      ],
+      primaryUrls
+    );
+
+    for (const { artwork, index, sourceId } of records) {
+      const previous = checkpoint?.getRecord('ARTWORK_ARCHIVE', sourceId);
+
+      // Ya convertido con sus imágenes en una corrida anterior
+      if (previous && canRestore(previous)) {
+        const restored = previous.products.map(snapshot => ShopifyProduct.fromSnapshot(snapshot));
+        previous.images.forEach(image => processedImages?.set(image.originalUrl, image));
+        shopifyProducts.push(...restored);
+
+        if (restored[0].getStatus() === 'draft') {
+          draftCount++;
+        }
+        convertedCount++;
+        restoredCount++;
+        continue;
+      }
 
-    for (const [index, artwork] of artworks.entries()) {
       try {
         Logger.info(`Processing record ${index + 1}: ${artwork.Name || 'Unnamed'}`);
-        
-        const product = await this.convertSingleArtwork(artwork, index);
-        
+        const prefetched = await ImageProcessorService.collectImages(scheduled, [artwork['Primary Image Url']]);
+      
+        const { product, images } = await this.convertSingleArtwork(artwork, index, prefetched, [
+          ...(previous?.images || []),
+          ...knownImages
+        ]);
+        product.setSourceId(sourceId);
+        images.forEach(image => processedImages?.set(image.originalUrl, image));
+      
         if (product.getStatus() === 'draft') {
           draftCount++;
         }
-        
+      
         shopifyProducts.push(product);
         convertedCount++;
-        
+
+        await checkpoint?.markConverted(
+          'ARTWORK_ARCHIVE',
+          sourceId,
+          [product.toSnapshot()],
+          images,
+          images.every(image => image.success)
+        );
+      
         const statusMsg = product.getStatus() === 'draft' ? ' (DRAFT)' : ' (ACTIVE)';
         Logger.success(`Successfully converted: ${product.getTitle() || 'Unnamed'}${statusMsg}`);
       } catch (error: any) {
         Logger.error(`Failed to convert artwork at index ${index + 1}: ${error.message}`);
+        await checkpoint?.markFailed('ARTWORK_ARCHIVE', sourceId, error.message);
       }
     }
 
     Logger.success(`Conversion complete! Total converted: ${convertedCount}`);
+    if (restoredCount > 0) {
+      Logger.info(`Restored from previous run: ${restoredCount}`);
+    }
     Logger.info(`Active products: ${convertedCount - draftCount}`);
     Logger.info(`Draft products: ${draftCount}`);
     
     return shopifyProducts;
   }
 
-  private static async convertSingleArtwork(artwork: ArtworkArchiveRecord, index: number): Promise<ShopifyProduct> {
+  private static async convertSingleArtwork(
+    artwork: ArtworkArchiveRecord,
+    index: number,
+    prefetched: Map<string, ProcessedImage>,
+    previousImages: ProcessedImage[] = []
+  ): Promise<{ product: ShopifyProduct; images: ProcessedImage[] }> {
     const product = new ShopifyProduct();
+    const images: ProcessedImage[] = [];
     
     // Validaciones y determinación del estado
-    const validationResult = this.validateArtwork(artwork, index);
+    const draftReasons = this.getDraftReasons(artwork);
     
     // Configurar campos básicos
     const name = artwork.Name || `record-${index + 1}`;
@@ -81,11 +177,15 @@ export class ArtworkToShopifyConverter {
       Logger.info(`Procesando imagen para ${name}: ${artwork['Primary Image Url']}`);
       
       try {
-        const processedImage = await this.imageProcessor.processImage(artwork['Primary Image Url']);
+        const processedImage = prefetched.get(artwork['Primary Image Url'])
+          || await this.imageProcessor.processImageOrReuse(artwork['Primary Image Url'], previousImages);
+        images.push(processedImage);
         
         if (processedImage.success) {
-          finalImageUrl = processedImage.supabaseUrl;
+          finalImageUrl = processedImage.storageUrl;
           Logger.success(`Imagen procesada exitosamente para ${name}`);
+        } else if (processedImage.skipped) {
+          finalImageUrl = artwork['Primary Image Url'];
         } else {
           Logger.warning(`Error procesando imagen para ${name}: ${processedImage.error}`);
           // Mantener la URL original como fallback
@@ -98,46 +198,56 @@ export class ArtworkToShopifyConverter {
       }
     }
 
-    product.setImageSrc(finalImageUrl);
+    product
+      .setImageSrc(finalImageUrl)
+      .setImageAltText(AltTextService.render({
+        title: name,
+        artist: artwork['Artist(s)'],
+        medium: artwork.Medium,
+        year: artwork['Creation Date'],
+        dimensions: this.formatDimensions(artwork),
+        position: 1
+      }, artwork['Primary Image Url']));
+
+    // Todas las imágenes descargadas fallaron los controles de calidad
+    if (ImageQualityService.hasNoAcceptableImage(images)) {
+      draftReasons.push({ code: 'noAcceptableImage', message: ImageQualityService.draftReason(images) });
+    }
 
     // Configurar estado basado en validaciones
-    if (validationResult.isDraft || artwork.Status?.toLowerCase() !== 'available') {
-      product.setStatus('draft');
-      if (validationResult.isDraft) {
-        Logger.info(`Setting to draft: ${name} - Reasons: ${validationResult.reasons.join(', ')}`);
-      }
+    if (draftReasons.length > 0) {
+      product
+        .setStatus('draft')
+        .setDraftReasons(draftReasons.map(reason => reason.message));
+      Logger.info(`Setting to draft: ${name} - Reasons: ${draftReasons.map(r => r.message).join(', ')}`);
     }
 
-    return product;
+    return { product, images };
   }
 
-  private static validateArtwork(artwork: ArtworkArchiveRecord, index: number): {
-    isDraft: boolean;
-    reasons: string[];
-  } {
-    const reasons: string[] = [];
-    let isDraft = false;
-    
+  /**
+   * Reglas que convierten una obra en draft (las usa también analyze)
+   */
+  static getDraftReasons(artwork: ArtworkArchiveRecord): ArtworkDraftReason[] {
+    const reasons: ArtworkDraftReason[] = [];
     const name = artwork.Name || '';
-    
+
     if (!name || name.trim() === '') {
-      isDraft = true;
-      reasons.push('Missing name');
-      Logger.warning(`No name for record ${index + 1}, marking as draft for manual review`);
+      reasons.push({ code: 'missingName', message: 'Missing name' });
     } else if (name.length === 1) {
-      isDraft = true;
-      reasons.push('Name is only one character');
-      Logger.warning(`Single character name for record ${index + 1}: "${name}", marking as draft`);
+      reasons.push({ code: 'singleCharacterName', message: `Single character name: "${name}"` });
     }
 
     const price = artwork.Price;
     if (!price || price.trim() === '') {
-      isDraft = true;
-      reasons.push('Missing price');
-      Logger.warning(`No price for record ${index + 1} (${name}), setting to 0 and marking as draft`);
+      reasons.push({ code: 'missingPrice', message: 'Missing price' });
+    }
+
+    if (artwork.Status?.toLowerCase() !== 'available') {
+      reasons.push({ code: 'notAvailable', message: `Status: ${artwork.Status || 'not set'}` });
     }
 
-    return { isDraft, reasons };
+    return reasons;
   }
 
   private static generateDescription(artwork: ArtworkArchiveRecord): string {
@@ -196,13 +306,13 @@ export class ArtworkToShopifyConverter {
     if (artwork['Artist(s)']) tags.push(artwork['Artist(s)']);
     if (artwork.Type) tags.push(artwork.Type);
     if (artwork.Medium) tags.push(artwork.Medium);
-    tags.push('Original Art', 'Gallery', 'Impulso Galeria');
+    tags.push(...config.branding.tags);
     
     return [...new Set(tags)].filter(t => t).join(', ');
   }
 
   private static getVendor(artwork: ArtworkArchiveRecord): string {
-    return artwork['Artist(s)'] || 'Unknown Artist';
+    return artwork['Artist(s)'] || config.branding.unknownArtist;
   }
 
   static async cleanup(): Promise<void> {
@@ -1,15 +1,34 @@
 import mysql from 'mysql2/promise';
-import { DbConfig, WooProduct } from '../types';
+import { DbConfig, ProcessedImage, WooProduct } from '../types';
 import { ShopifyProduct } from '../models/ShopifyProduct';
 import { Logger } from '../utils/logger';
 import { ImageProcessorService } from '../services/ImageProcessorService';
+import { ImageQualityService } from '../services/ImageQualityService';
+import { AltTextContext, AltTextService } from '../services/AltTextService';
+import { extractDimensions } from '../utils/report';
+import { config } from '../config';
+import { toMysqlOptions } from '../config/connections';
+import { wooSourceId } from '../utils/sourceIdentity';
+import { canRestore, ConversionOptions, ConverterOptions } from './artwork';
+
+export type WooDatabaseInspection = {
+  tables: Array<{ name: string; exists: boolean }>;
+  productCounts: Record<string, number>;
+  totalProducts: number;
+};
+
+// Tablas de WordPress que usa la extracción (sin prefijo)
+const REQUIRED_TABLES = ['posts', 'postmeta', 'terms', 'term_taxonomy', 'term_relationships'];
 
 export class WooCommerceToShopifyConverter {
   private static imageProcessor: ImageProcessorService;
 
-  static async initialize(): Promise<void> {
+  static async initialize(options: ConverterOptions = {}): Promise<void> {
     try {
-      this.imageProcessor = ImageProcessorService.createDefault();
+      this.imageProcessor = ImageProcessorService.createDefault({ dryRun: options.dryRun });
+      if (options.storedImageLookup) {
+        this.imageProcessor.setStoredImageLookup(options.storedImageLookup);
+      }
       await this.imageProcessor.initialize();
       Logger.success('WooCommerceToShopifyConverter inicializado con procesamiento de imágenes');
     } catch (error: any) {
@@ -22,15 +41,18 @@ export class WooCommerceToShopifyConverter {
     let connection;
     try {
       Logger.info('Connecting to MySQL database...');
-      connection = await mysql.createConnection(config);
+      connection = await mysql.createConnection(toMysqlOptions(config));
       Logger.success('Connected to MySQL database');
 
+      const prefix = config.tablePrefix;
+
       const query = `
         SELECT 
           p.ID,
           p.post_title,
           p.post_content,
           p.post_status,
+          p.post_modified_gmt,
           MAX(CASE WHEN pm_sku.meta_key = '_sku' THEN pm_sku.meta_value END) as sku,
           MAX(CASE WHEN pm_price.meta_key = '_regular_price' THEN pm_price.meta_value END) as regular_price,
           MAX(CASE WHEN pm_sale.meta_key = '_sale_price' THEN pm_sale.meta_value END) as sale_price,
@@ -40,28 +62,28 @@ export class WooCommerceToShopifyConverter {
           GROUP_CONCAT(DISTINCT tag.name ORDER BY tag.name SEPARATOR ', ') as tags,
           MAX(CASE WHEN pm_thumb.meta_key = '_thumbnail_id' THEN pm_thumb.meta_value END) as thumbnail_id,
           MAX(CASE WHEN pm_gallery.meta_key = '_product_image_gallery' THEN pm_gallery.meta_value END) as gallery_ids
-        FROM wp_posts p
-        LEFT JOIN wp_postmeta pm_sku ON p.ID = pm_sku.post_id AND pm_sku.meta_key = '_sku'
-        LEFT JOIN wp_postmeta pm_price ON p.ID = pm_price.post_id AND pm_price.meta_key = '_regular_price'
-        LEFT JOIN wp_postmeta pm_sale ON p.ID = pm_sale.post_id AND pm_sale.meta_key = '_sale_price'
-        LEFT JOIN wp_postmeta pm_stock ON p.ID = pm_stock.post_id AND pm_stock.meta_key = '_stock'
-        LEFT JOIN wp_postmeta pm_weight ON p.ID = pm_weight.post_id AND pm_weight.meta_key = '_weight'
-        LEFT JOIN wp_postmeta pm_thumb ON p.ID = pm_thumb.post_id AND pm_thumb.meta_key = '_thumbnail_id'
-        LEFT JOIN wp_postmeta pm_gallery ON p.ID = pm_gallery.post_id AND pm_gallery.meta_key = '_product_image_gallery'
+        FROM ${prefix}posts p
+        LEFT JOIN ${prefix}postmeta pm_sku ON p.ID = pm_sku.post_id AND pm_sku.meta_key = '_sku'
+        LEFT JOIN ${prefix}postmeta pm_price ON p.ID = pm_price.post_id AND pm_price.meta_key = '_regular_price'
+        LEFT JOIN ${prefix}postmeta pm_sale ON p.ID = pm_sale.post_id AND pm_sale.meta_key = '_sale_price'
+        LEFT JOIN ${prefix}postmeta pm_stock ON p.ID = pm_stock.post_id AND pm_stock.meta_key = '_stock'
+        LEFT JOIN ${prefix}postmeta pm_weight ON p.ID = pm_weight.post_id AND pm_weight.meta_key = '_weight'
+        LEFT JOIN ${prefix}postmeta pm_thumb ON p.ID = pm_thumb.post_id AND pm_thumb.meta_key = '_thumbnail_id'
+        LEFT JOIN ${prefix}postmeta pm_gallery ON p.ID = pm_gallery.post_id AND pm_gallery.meta_key = '_product_image_gallery'
         
         -- Categorías
-        LEFT JOIN wp_term_relationships tr ON p.ID = tr.object_id
-        LEFT JOIN wp_term_taxonomy tt ON tr.term_taxonomy_id = tt.term_taxonomy_id AND tt.taxonomy = 'product_cat'
-        LEFT JOIN wp_terms t ON tt.term_id = t.term_id
+        LEFT JOIN ${prefix}term_relationships tr ON p.ID = tr.object_id
+        LEFT JOIN ${prefix}term_taxonomy tt ON tr.term_taxonomy_id = tt.term_taxonomy_id AND tt.taxonomy = 'product_cat'
+        LEFT JOIN ${prefix}terms t ON tt.term_id = t.term_id
         
         -- Tags
-        LEFT JOIN wp_term_relationships tr_tag ON p.ID = tr_tag.object_id
-        LEFT JOIN wp_term_taxonomy tt_tag ON tr_tag.term_taxonomy_id = tt_tag.term_taxonomy_id AND tt_tag.taxonomy = 'product_tag'
-        LEFT JOIN wp_terms tag ON tt_tag.term_id = tag.term_id
+        LEFT JOIN ${prefix}term_relationships tr_tag ON p.ID = tr_tag.object_id
+        LEFT JOIN ${prefix}term_taxonomy tt_tag ON tr_tag.term_taxonomy_id = tt_tag.term_taxonomy_id AND tt_tag.taxonomy = 'product_tag'
+        LEFT JOIN ${prefix}terms tag ON tt_tag.term_id = tag.term_id
         
         WHERE p.post_type = 'product'
         AND p.post_status IN ('publish', 'draft')
-        GROUP BY p.ID, p.post_title, p.post_content, p.post_status
+        GROUP BY p.ID, p.post_title, p.post_content, p.post_status, p.post_modified_gmt
       `;
 
       Logger.info('Extracting products from WooCommerce...');
@@ -74,7 +96,7 @@ export class WooCommerceToShopifyConverter {
       for (const product of products) {
         if (product.thumbnail_id) {
           const [imageRows] = await connection.execute(
-            'SELECT guid FROM wp_posts WHERE ID = ?',
+            `SELECT guid FROM ${prefix}posts WHERE ID = ?`,
             [product.thumbnail_id]
           );
           if (imageRows && (imageRows as any[]).length > 0) {
@@ -87,7 +109,7 @@ export class WooCommerceToShopifyConverter {
           const galleryUrls = [];
           for (const id of galleryIds) {
             const [imageRows] = await connection.execute(
-              'SELECT guid FROM wp_posts WHERE ID = ?',
+              `SELECT guid FROM ${prefix}posts WHERE ID = ?`,
               [id.trim()]
             );
             if (imageRows && (imageRows as any[]).length > 0) {
@@ -110,39 +132,130 @@ export class WooCommerceToShopifyConverter {
     }
   }
 
-  static async convertToShopify(products: WooProduct[]): Promise<ShopifyProduct[]> {
+  /**
+   * Verifica que existan las tablas de WordPress y cuenta productos por estado
+   */
+  static async inspectDatabase(config: DbConfig): Promise<WooDatabaseInspection> {
+    const connection = await mysql.createConnection(toMysqlOptions(config));
+
+    try {
+      const [tableRows] = await connection.execute(
+        'SELECT table_name AS name FROM information_schema.tables WHERE table_schema = DATABASE()'
+      );
+      const existing = new Set((tableRows as any[]).map(row => String(row.name)));
+
+      const tables = REQUIRED_TABLES.map(table => {
+        const name = `${config.tablePrefix}${table}`;
+        return { name, exists: existing.has(name) };
+      });
+
+      const productCounts: Record<string, number> = {};
+      let totalProducts = 0;
+
+      if (tables.find(t => t.name === `${config.tablePrefix}posts`)?.exists) {
+        const [countRows] = await connection.execute(
+          `SELECT post_status, COUNT(*) AS total FROM ${config.tablePrefix}posts WHERE post_type = 'product' GROUP BY post_status`
+        );
+
+        for (const row of countRows as any[]) {
+          productCounts[row.post_status] = Number(row.total);
+          totalProducts += Number(row.total);
+        }
+      }
+
+      return { tables, productCounts, totalProducts };
+    } finally {
+      await connection.end();
+    }
+  }
+
+  static async convertToShopify(products: WooProduct[], options: ConversionOptions = {}): Promise<ShopifyProduct[]> {
     // Verificar que el servicio esté inicializado
     if (!this.imageProcessor) {
       await this.initialize();
     }
 
     Logger.info('Converting WooCommerce products to Shopify format...');
+    const { checkpoint, processedImages } = options;
     const shopifyProducts: ShopifyProduct[] = [];
+    let restoredCount = 0;
+
+    const records = products.map((wooProduct, index) => ({ wooProduct, index, sourceId: wooSourceId(wooProduct) }));
+
+    // Las imágenes de todos los registros pasan por un solo pool; la conversión y el checkpoint siguen en orden
+    const pending = records.filter(record => !canRestore(checkpoint?.getRecord('WOOCOMMERCE', record.sourceId)));
+    const scheduled = this.imageProcessor.scheduleImages(
+      pending.flatMap(record => this.getImageUrls(record.wooProduct)),
+      pending.flatMap(record => checkpoint?.getRecord('WOOCOMMERCE', record.sourceId)?.images || []),
+      pending.map(record => record.wooProduct.image_url).filter(Boolean)
+    );
+
+    for (const { wooProduct, index, sourceId } of records) {
+      const previous = checkpoint?.getRecord('WOOCOMMERCE', sourceId);
+
+      // Ya convertido con sus imágenes en una corrida anterior
+      if (previous && canRestore(previous)) {
+        shopifyProducts.push(...previous.products.map(snapshot => ShopifyProduct.fromSnapshot(snapshot)));
+        previous.images.forEach(image => processedImages?.set(image.originalUrl, image));
+        restoredCount++;
+        continue;
+      }
 
-    for (const [index, wooProduct] of products.entries()) {
       try {
         Logger.info(`Processing WooCommerce product ${index + 1}/${products.length}: ${wooProduct.post_title}`);
-        
-        const mainProduct = await this.convertSingleWooProduct(wooProduct);
-        shopifyProducts.push(mainProduct);
+        const prefetched = await ImageProcessorService.collectImages(scheduled, this.getImageUrls(wooProduct));
+      
+        const images: ProcessedImage[] = [];
+        const mainProduct = await this.convertSingleWooProduct(wooProduct, images, prefetched, previous?.images);
+        mainProduct.setSourceId(sourceId);
+        const converted = [mainProduct];
 
         // Agregar filas de imágenes adicionales si existen
         if (wooProduct.gallery_images) {
-          const additionalImages = await this.createAdditionalImageRows(wooProduct, mainProduct);
-          shopifyProducts.push(...additionalImages);
+          const additionalImages = await this.createAdditionalImageRows(wooProduct, mainProduct, images, prefetched, previous?.images);
+          converted.push(...additionalImages);
         }
 
+        // Todas las imágenes descargadas (principal y galería) fallaron los controles de calidad
+        if (ImageQualityService.hasNoAcceptableImage(images)) {
+          const reason = ImageQualityService.draftReason(images);
+          mainProduct
+            .setStatus('draft')
+            .setDraftReasons([...mainProduct.getDraftReasons(), reason]);
+          Logger.info(`Setting to draft: ${wooProduct.post_title} - Reasons: ${reason}`);
+        }
+
+        shopifyProducts.push(...converted);
+        images.forEach(image => processedImages?.set(image.originalUrl, image));
+
+        await checkpoint?.markConverted(
+          'WOOCOMMERCE',
+          sourceId,
+          converted.map(product => product.toSnapshot()),
+          images,
+          images.every(image => image.success)
+        );
+
         Logger.success(`WooCommerce product converted: ${wooProduct.post_title}`);
       } catch (error: any) {
         Logger.error(`Error converting WooCommerce product ${wooProduct.post_title}: ${error.message}`);
+        await checkpoint?.markFailed('WOOCOMMERCE', sourceId, error.message);
       }
     }
 
+    if (restoredCount > 0) {
+      Logger.info(`Restored from previous run: ${restoredCount}`);
+    }
     Logger.success(`Successfully converted ${products.length} WooCommerce products to Shopify format`);
     return shopifyProducts;
   }
 
-  private static async convertSingleWooProduct(wooProduct: WooProduct): Promise<ShopifyProduct> {
+  private static async convertSingleWooProduct(
+    wooProduct: WooProduct,
+    images: ProcessedImage[],
+    prefetched: Map<string, ProcessedImage>,
+    previousImages: ProcessedImage[] = []
+  ): Promise<ShopifyProduct> {
     const product = new ShopifyProduct();
     
     const status = wooProduct.post_status === 'publish' ? 'active' : 'draft';
@@ -154,11 +267,15 @@ export class WooCommerceToShopifyConverter {
       Logger.info(`Procesando imagen principal para ${wooProduct.post_title}: ${wooProduct.image_url}`);
       
       try {
-        const processedImage = await this.imageProcessor.processImage(wooProduct.image_url);
+        const processedImage = prefetched.get(wooProduct.image_url)
+          || await this.imageProcessor.processImageOrReuse(wooProduct.image_url, previousImages);
+        images.push(processedImage);
         
         if (processedImage.success) {
-          finalImageUrl = processedImage.supabaseUrl;
+          finalImageUrl = processedImage.storageUrl;
           Logger.success(`Imagen principal procesada exitosamente para ${wooProduct.post_title}`);
+        } else if (processedImage.skipped) {
+          finalImageUrl = wooProduct.image_url;
         } else {
           Logger.warning(`Error procesando imagen principal para ${wooProduct.post_title}: ${processedImage.error}`);
           // Mantener la URL original como fallback
@@ -175,15 +292,20 @@ export class WooCommerceToShopifyConverter {
       .setTitle(wooProduct.post_title)
       .setHandle(wooProduct.post_title)
       .setBodyHTML(wooProduct.post_content)
-      .setVendor('Impulso Galeria')
+      .setVendor(config.branding.vendor)
       .setType(wooProduct.categories ? wooProduct.categories.split(',')[0].trim() : 'Artwork')
       .setTags(wooProduct.tags || '')
       .setVariantSKU(wooProduct.sku || `WOO-${wooProduct.ID}`)
       .setVariantPrice(wooProduct.regular_price || '0.00')
       .setVariantInventoryQty(wooProduct.stock_quantity || '0')
       .setImageSrc(finalImageUrl)
+      .setImageAltText(AltTextService.render(this.altTextContext(wooProduct, 1), wooProduct.image_url))
       .setStatus(status);
 
+    if (status === 'draft') {
+      product.setDraftReasons([`WooCommerce status: ${wooProduct.post_status}`]);
+    }
+
     // Configurar campos específicos de WooCommerce
     if (wooProduct.sale_price) {
       product.setVariantCompareAtPrice(wooProduct.sale_price);
@@ -203,7 +325,13 @@ export class WooCommerceToShopifyConverter {
     return product;
   }
 
-  private static async createAdditionalImageRows(wooProduct: WooProduct, mainProduct: ShopifyProduct): Promise<ShopifyProduct[]> {
+  private static async createAdditionalImageRows(
+    wooProduct: WooProduct,
+    mainProduct: ShopifyProduct,
+    images: ProcessedImage[],
+    prefetched: Map<string, ProcessedImage>,
+    previousImages: ProcessedImage[] = []
+  ): Promise<ShopifyProduct[]> {
     const imageRows: ShopifyProduct[] = [];
     const galleryUrls = wooProduct.gallery_images.split(', ');
     
@@ -217,12 +345,14 @@ export class WooCommerceToShopifyConverter {
         Logger.info(`Procesando imagen adicional ${imgIndex + 1}/${galleryUrls.length}: ${url}`);
         
         let processedUrl = url;
-        const processedImage = await this.imageProcessor.processImage(url);
+        const processedImage = prefetched.get(url)
+          || await this.imageProcessor.processImageOrReuse(url, previousImages);
+        images.push(processedImage);
         
         if (processedImage.success) {
-          processedUrl = processedImage.supabaseUrl;
+          processedUrl = processedImage.storageUrl;
           Logger.success(`Imagen adicional ${imgIndex + 1} procesada exitosamente`);
-        } else {
+        } else if (!processedImage.skipped) {
           Logger.warning(`Error procesando imagen adicional ${imgIndex + 1}: ${processedImage.error}`);
           // Mantener la URL original como fallback
         }
@@ -230,7 +360,7 @@ export class WooCommerceToShopifyConverter {
         const imageRow = mainProduct.createImageRow(
           processedUrl,
           imgIndex + 2, // +2 porque la imagen principal es posición 1
-          wooProduct.post_title
+          AltTextService.render(this.altTextContext(wooProduct, imgIndex + 2), url)
         );
         imageRows.push(imageRow);
         
@@ -240,7 +370,7 @@ export class WooCommerceToShopifyConverter {
         const imageRow = mainProduct.createImageRow(
           url,
           imgIndex + 2,
-          wooProduct.post_title
+          AltTextService.render(this.altTextContext(wooProduct, imgIndex + 2), url)
         );
         imageRows.push(imageRow);
       }
@@ -250,6 +380,27 @@ export class WooCommerceToShopifyConverter {
     return imageRows;
   }
 
+  /**
+   * Campos para el alt text (WooCommerce no tiene artista, técnica ni año)
+   */
+  private static altTextContext(wooProduct: WooProduct, position: number): AltTextContext {
+    return {
+      title: wooProduct.post_title,
+      dimensions: extractDimensions(wooProduct.post_content || '') || undefined,
+      position
+    };
+  }
+
+  /**
+   * URLs de imagen de un producto: la principal y las de la galería
+   */
+  private static getImageUrls(wooProduct: WooProduct): string[] {
+    const gallery = wooProduct.gallery_images
+      ? wooProduct.gallery_images.split(', ').map(url => url.trim())
+      : [];
+    return [wooProduct.image_url, ...gallery].filter(Boolean);
+  }
+
   static async cleanup(): Promise<void> {
     if (this.imageProcessor) {
       await this.imageProcessor.cleanup();
@@ -1,7 +1,12 @@
 import { HandleGeneratorService } from '../services/HandleGeneratorService';
+import { ShopifyProductSnapshot } from '../types';
 
 export class ShopifyProduct {
   private data: Record<string, string> = {};
+  // Motivos por los que el producto quedó en draft (no se exportan al CSV)
+  private draftReasons: string[] = [];
+  // ID del registro de origen (Piece Id o ID de WooCommerce), tampoco se exporta
+  private sourceId?: string;
 
   // Campos obligatorios de Shopify
   private static readonly REQUIRED_HEADERS = [
@@ -131,6 +136,11 @@ export class ShopifyProduct {
     return this;
   }
 
+  setImageAltText(altText: string): this {
+    this.data['Image Alt Text'] = altText;
+    return this;
+  }
+
   setImagePosition(position: string): this {
     this.data['Image Position'] = position;
     return this;
@@ -142,6 +152,16 @@ export class ShopifyProduct {
     return this;
   }
 
+  setDraftReasons(reasons: string[]): this {
+    this.draftReasons = [...reasons];
+    return this;
+  }
+
+  setSourceId(sourceId: string): this {
+    this.sourceId = sourceId;
+    return this;
+  }
+
   setVariantCompareAtPrice(price: string): this {
     this.data['Variant Compare At Price'] = price;
     return this;
@@ -154,6 +174,7 @@ export class ShopifyProduct {
     imageRow.data['Image Src'] = imageUrl;
     imageRow.data['Image Position'] = position.toString();
     imageRow.data['Image Alt Text'] = altText || this.data['Title'];
+    imageRow.sourceId = this.sourceId;
     
     // Limpiar todos los otros campos para fila de imagen
     const fieldsToKeep = ['Handle', 'Image Src', 'Image Position', 'Image Alt Text'];
@@ -199,6 +220,29 @@ export class ShopifyProduct {
     return { ...this.data };
   }
 
+  /**
+   * Estado serializable para guardar el progreso de una corrida
+   */
+  toSnapshot(): ShopifyProductSnapshot {
+    return { data: { ...this.data }, draftReasons: [...this.draftReasons], sourceId: this.sourceId };
+  }
+
+  /**
+   * Reconstruir un producto guardado con toSnapshot (reserva su handle)
+   */
+  static fromSnapshot(snapshot: ShopifyProductSnapshot): ShopifyProduct {
+    const product = new ShopifyProduct();
+    Object.assign(product.data, snapshot.data);
+    product.draftReasons = [...(snapshot.draftReasons || [])];
+    product.sourceId = snapshot.sourceId;
+
+    if (product.data['Title'] && product.data['Handle']) {
+      HandleGeneratorService.reserveHandle(product.data['Handle']);
+    }
+
+    return product;
+  }
+
   // Obtener headers estáticos
   static getHeaders(): string[] {
     return [...this.REQUIRED_HEADERS];
@@ -221,6 +265,10 @@ export class ShopifyProduct {
     return this.data['Variant Price'];
   }
 
+  getImageSrc(): string {
+    return this.data['Image Src'];
+  }
+
   getStatus(): string {
     return this.data['Status'];
   }
@@ -232,4 +280,12 @@ export class ShopifyProduct {
   getBodyHTML(): string {
     return this.data['Body (HTML)'];
   }
+
+  getDraftReasons(): string[] {
+    return [...this.draftReasons];
+  }
+
+  getSourceId(): string | undefined {
+    return this.sourceId;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import * as path from 'path';
+import { Product } from '@prisma/client';
+import { config } from '../config';
+import { extractDimensions } from '../utils/report';
+
+// Campos disponibles en las plantillas ({campo})
+export type AltTextContext = {
+  title: string;
+  artist?: string;
+  medium?: string;
+  year?: string;
+  dimensions?: string;
+  position: number;
+  view?: string;
+};
+
+/**
+ * Alt text de las imágenes a partir de las plantillas de config.altText
+ */
+export class AltTextService {
+  /**
+   * Alt text de la imagen en una posición (1 = principal, usa template; el resto galleryTemplate)
+   */
+  static render(context: AltTextContext, imageUrl?: string): string {
+    const gallery = context.position > 1;
+    const view = context.view || (imageUrl ? this.detectView(imageUrl) : undefined) || (gallery ? `image ${context.position}` : undefined);
+    const template = gallery ? config.altText.galleryTemplate : config.altText.template;
+
+    return this.truncate(this.fill(template, { ...context, view }), config.altText.maxLength);
+  }
+
+  /**
+   * Vista (detail, back...) según palabras en el nombre del archivo
+   */
+  static detectView(imageUrl: string): string | undefined {
+    let fileName = imageUrl;
+    try {
+      fileName = path.posix.basename(new URL(imageUrl).pathname);
+    } catch {
+      fileName = path.basename(imageUrl);
+    }
+    const words = fileName.toLowerCase().replace(/\.[a-z0-9]+$/, '').split(/[^a-z0-9áéíóúñ]+/);
+
+    return Object.entries(config.altText.views)
+      .find(([, keywords]) => keywords.some(keyword => words.includes(keyword.toLowerCase())))?.[0];
+  }
+
+  /**
+   * Contexto a partir de un producto guardado (para el backfill)
+   */
+  static contextFromProduct(product: Product, position: number): AltTextContext {
+    const dimensions = [
+      product.artworkHeight && `${product.artworkHeight}h`,
+      product.artworkWidth && `${product.artworkWidth}w`,
+      product.artworkDepth && `${product.artworkDepth}d`
+    ].filter(Boolean).join(' x ');
+
+    return {
+      title: product.title,
+      // En WooCommerce el vendor es la galería, no el artista
+      artist: product.artworkArtist || undefined,
+      medium: product.artworkMedium || undefined,
+      year: product.artworkYear || undefined,
+      dimensions: dimensions || extractDimensions(product.bodyHtml || '') || undefined,
+      position
+    };
+  }
+
+  private static fill(template: string, context: AltTextContext): string {
+    const value = (field: string): string => {
+      const raw = (context as Record<string, unknown>)[field];
+      return raw === undefined || raw === null ? '' : String(raw).trim();
+    };
+
+    // Tramos opcionales: se omiten enteros si alguno de sus campos está vacío
+    const withSections = template.replace(/\[([^\]]*)\]/g, (_, section: string) => {
+      const fields = [...section.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+      return fields.every(field => value(field)) ? section : '';
+    });
+
+    return withSections
+      .replace(/\{(\w+)\}/g, (_, field: string) => value(field))
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // Cortar en el último espacio antes del límite
+  private static truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+    const cut = text.slice(0, maxLength - 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,–-]+$/, '')}…`;
+  }
+}
@@ -0,0 +1,160 @@
+import { ProductStatus } from '@prisma/client';
+import {
+  ArtworkArchiveRecord,
+  ImageFormat,
+  ImageQualityIssue,
+  ImageQualityStatus,
+  ImageRendition,
+  ProcessedImage,
+  StorageBackendName
+} from '../types';
+import { artworkSourceId } from '../utils/sourceIdentity';
+import { ProductWithImages } from './PrismaProductService';
+
+export type ArtworkSyncField = 'price' | 'status' | 'dimensions' | 'imageUrl' | 'archived';
+
+export type ArtworkFieldChange = {
+  field: ArtworkSyncField;
+  before: string;
+  after: string;
+};
+
+export type ArtworkSyncEntry = {
+  sourceId: string;
+  title: string;
+  artwork?: ArtworkArchiveRecord;
+  product?: ProductWithImages;
+  changes: ArtworkFieldChange[];
+};
+
+export type ArtworkSyncPlan = {
+  new: ArtworkSyncEntry[];
+  changed: ArtworkSyncEntry[];
+  unchanged: ArtworkSyncEntry[];
+  removed: ArtworkSyncEntry[];
+};
+
+export class ArtworkSyncService {
+  /**
+   * Compara un export de Artwork Archive con los productos guardados (por Piece Id / sourceId)
+   */
+  static diff(artworks: ArtworkArchiveRecord[], products: ProductWithImages[]): ArtworkSyncPlan {
+    const plan: ArtworkSyncPlan = { new: [], changed: [], unchanged: [], removed: [] };
+    const productsBySourceId = new Map(
+      products.filter(p => p.sourceId).map(p => [p.sourceId as string, p])
+    );
+    const seen = new Set<string>();
+
+    artworks.forEach((artwork, index) => {
+      const sourceId = artworkSourceId(artwork, index);
+      const product = productsBySourceId.get(sourceId);
+      seen.add(sourceId);
+
+      if (!product) {
+        plan.new.push({ sourceId, title: artwork.Name || sourceId, artwork, changes: [] });
+        return;
+      }
+
+      const changes = this.compare(artwork, product);
+      const entry = { sourceId, title: product.title, artwork, product, changes };
+      (changes.length > 0 ? plan.changed : plan.unchanged).push(entry);
+    });
+
+    products.forEach(product => {
+      if (product.sourceId && !seen.has(product.sourceId) && product.status !== ProductStatus.ARCHIVED) {
+        plan.removed.push({ sourceId: product.sourceId, title: product.title, product, changes: [] });
+      }
+    });
+
+    return plan;
+  }
+
+  /**
+   * Imagen principal guardada de un producto, si cambió en el export
+   */
+  static getReplacedImageUrl(entry: ArtworkSyncEntry): string | undefined {
+    return entry.changes.find(change => change.field === 'imageUrl')?.before || undefined;
+  }
+
+  /**
+   * Imágenes ya subidas de los productos, en el formato que reutilizan los converters
+   */
+  static toKnownImages(products: ProductWithImages[]): ProcessedImage[] {
+    return products.flatMap(product => product.images
+      .filter(image => image.processed)
+      .map(image => ({
+        originalUrl: image.originalUrl,
+        storageUrl: image.storageUrl,
+        storageKey: image.storageKey || '',
+        storageBackend: (image.storageBackend ?? undefined) as StorageBackendName | undefined,
+        width: image.width ?? undefined,
+        height: image.height ?? undefined,
+        fileSize: image.fileSize ?? undefined,
+        format: (image.format ?? undefined) as ImageFormat | undefined,
+        contentHash: image.contentHash ?? undefined,
+        perceptualHash: image.perceptualHash ?? undefined,
+        exif: (image.exif as ProcessedImage['exif'] | null) ?? undefined,
+        quality: image.qualityStatus
+          ? {
+            status: image.qualityStatus.toLowerCase() as ImageQualityStatus,
+            issues: (image.qualityIssues as ImageQualityIssue[] | null) || []
+          }
+          : undefined,
+        variants: image.variants.map(variant => ({
+          rendition: variant.rendition.toLowerCase() as ImageRendition,
+          format: variant.format as ImageFormat,
+          ssim: variant.ssim ?? undefined,
+          storageUrl: variant.storageUrl,
+          storageKey: variant.storageKey,
+          storageBackend: (variant.storageBackend ?? undefined) as StorageBackendName | undefined,
+          width: variant.width ?? undefined,
+          height: variant.height ?? undefined,
+          fileSize: variant.fileSize ?? undefined,
+          contentHash: variant.contentHash ?? undefined
+        })),
+        success: true
+      }))
+    );
+  }
+
+  private static compare(artwork: ArtworkArchiveRecord, product: ProductWithImages): ArtworkFieldChange[] {
+    const changes: ArtworkFieldChange[] = [];
+    const add = (field: ArtworkSyncField, before: string, after: string) => {
+      if (before !== after) {
+        changes.push({ field, before, after });
+      }
+    };
+
+    add('price', Number(product.variantPrice).toFixed(2), this.cleanPrice(artwork.Price));
+    add('status', this.clean(product.artworkStatus), this.clean(artwork.Status));
+    add(
+      'dimensions',
+      this.formatDimensions(product.artworkHeight, product.artworkWidth, product.artworkDepth),
+      this.formatDimensions(artwork.Height, artwork.Width, artwork.Depth)
+    );
+
+    const primaryImage = product.images.find(image => image.position === 1) || product.images[0];
+    add('imageUrl', this.clean(primaryImage?.originalUrl), this.clean(artwork['Primary Image Url']));
+
+    // Una pieza archivada que vuelve a aparecer en el export se restaura
+    if (product.status === ProductStatus.ARCHIVED) {
+      changes.push({ field: 'archived', before: 'archived', after: 'restored' });
+    }
+
+    return changes;
+  }
+
+  // Mismo criterio que ShopifyProduct.setVariantPrice
+  private static cleanPrice(price?: string): string {
+    const numPrice = parseFloat((price || '0').replace(/[^0-9.]/g, ''));
+    return isNaN(numPrice) ? '0.00' : numPrice.toFixed(2);
+  }
+
+  private static formatDimensions(height?: string | null, width?: string | null, depth?: string | null): string {
+    return [height, width, depth].map(value => this.clean(value)).join(' x ');
+  }
+
+  private static clean(value?: string | null): string {
+    return (value || '').trim();
+  }
+}
@@ -1,19 +1,37 @@
+import { config as appConfig } from "../config";
 import { ShopifyProduct } from "../models/ShopifyProduct";
 import { DuplicateDetectionConfig, DuplicateMatch } from "../types";
-
+import { HASH_BITS, hammingDistance, isDegenerateHash } from "../utils/perceptualHash";
+import { DuplicateScoringInput, DuplicateScoringService } from "./DuplicateScoringService";
 
 export class DuplicateDetectionService {
   constructor(
     private config: DuplicateDetectionConfig,
     private extractDimensions: (html: string) => string,
     private generateComparisonKeys: (title: string, vendor: string, dimensions: string, strategy: string) => string[],
-    private normalizeUtils: any // Inyección de dependencia para NormalizeUtils
+    private normalizeUtils: any, // Inyección de dependencia para NormalizeUtils
+    private imageHashes: Map<string, string> = new Map() // URL de imagen -> hash perceptual (imageSimilarity)
   ) {}
 
+  // Hashes por handle de cada fuente (los handles pueden repetirse entre fuentes)
+  private artworkHashes = new Map<string, string[]>();
+  private wooHashes = new Map<string, string[]>();
+
   detectDuplicates(
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[]
   ): DuplicateMatch[] {
+    this.artworkHashes = this.hashesByHandle(artworkProducts);
+    this.wooHashes = this.hashesByHandle(wooProducts);
+
+    if (this.config.matchingStrategy === 'imageSimilarity') {
+      return this.removeDuplicateMatches(this.detectByImage(artworkProducts, wooProducts));
+    }
+
+    if (this.config.matchingStrategy === 'weighted') {
+      return this.removeDuplicateMatches(this.detectByScore(artworkProducts, wooProducts));
+    }
+
     const duplicates: DuplicateMatch[] = [];
     
     // Crear mapa de productos de Artwork Archive
@@ -30,6 +48,93 @@ export class DuplicateDetectionService {
     return this.removeDuplicateMatches(duplicates);
   }
 
+  /**
+   * Misma foto en ambas fuentes aunque el título cambie ("Sin título" vs el nombre real).
+   * Se compara cada producto de WooCommerce (todas sus imágenes) con cada obra.
+   */
+  private detectByImage(artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[]): DuplicateMatch[] {
+    const maxDistance = this.config.maxImageDistance ?? 10;
+    const duplicates: DuplicateMatch[] = [];
+
+    for (const wooProduct of wooProducts.filter(p => p.getTitle() !== '')) {
+      const hashes = this.wooHashes.get(wooProduct.getHandle()) || [];
+      if (hashes.length === 0) continue;
+
+      for (const artworkProduct of artworkProducts.filter(p => p.getTitle())) {
+        const candidates = this.artworkHashes.get(artworkProduct.getHandle()) || [];
+        const distance = Math.min(...candidates.flatMap(a => hashes.map(b => hammingDistance(a, b))));
+        if (distance > maxDistance) continue;
+
+        const match = this.createDuplicateMatch(wooProduct, artworkProduct);
+        if (match) {
+          duplicates.push({
+            ...match,
+            matchType: `image (distance ${distance})`,
+            similarity: 1 - distance / HASH_BITS
+          });
+        }
+      }
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * Puntaje combinado de todas las señales (config.duplicates.scoring).
+   * Solo se puntúan las obras que comparten una palabra del título o una imagen parecida.
+   */
+  private detectByScore(artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[]): DuplicateMatch[] {
+    const { threshold, imageDistance } = appConfig.duplicates.scoring;
+    const mainArtworkProducts = artworkProducts.filter(p => p.getTitle());
+    const duplicates: DuplicateMatch[] = [];
+
+    const byToken = new Map<string, ShopifyProduct[]>();
+    mainArtworkProducts.forEach(product => this.titleTokens(product.getTitle()).forEach(token => {
+      byToken.set(token, [...(byToken.get(token) || []), product]);
+    }));
+
+    for (const wooProduct of wooProducts.filter(p => p.getTitle() !== '')) {
+      const candidates = new Set<ShopifyProduct>();
+      this.titleTokens(wooProduct.getTitle()).forEach(token => byToken.get(token)?.forEach(p => candidates.add(p)));
+
+      const hashes = this.wooHashes.get(wooProduct.getHandle()) || [];
+      if (hashes.length > 0) {
+        mainArtworkProducts
+          .filter(p => (this.artworkHashes.get(p.getHandle()) || []).some(a => hashes.some(b => hammingDistance(a, b) < imageDistance)))
+          .forEach(p => candidates.add(p));
+      }
+
+      for (const artworkProduct of candidates) {
+        const match = this.createDuplicateMatch(wooProduct, artworkProduct);
+        if (match && match.score >= threshold) {
+          duplicates.push({
+            ...match,
+            matchType: `weighted (${Math.round(match.score * 100)}%)`,
+            similarity: match.score
+          });
+        }
+      }
+    }
+
+    return duplicates;
+  }
+
+  private titleTokens(title: string): string[] {
+    return this.normalizeUtils.normalizeTitle(title).split(' ').filter((token: string) => token.length >= 3);
+  }
+
+  // Hashes de las imágenes de cada producto (la fila principal y las filas de imagen comparten handle).
+  // Las imágenes lisas quedan afuera: coincidirían con cualquier otra imagen lisa.
+  private hashesByHandle(products: ShopifyProduct[]): Map<string, string[]> {
+    const hashes = new Map<string, string[]>();
+    products.forEach(product => {
+      const hash = this.imageHashes.get(product.getImageSrc());
+      if (!hash || isDegenerateHash(hash)) return;
+      hashes.set(product.getHandle(), [...(hashes.get(product.getHandle()) || []), hash]);
+    });
+    return hashes;
+  }
+
   private createProductMap(products: ShopifyProduct[]): Map<string, ShopifyProduct[]> {
     const productMap = new Map<string, ShopifyProduct[]>();
     const mainProducts = products.filter(p => p.getStatus() !== undefined);
@@ -121,8 +226,16 @@ export class DuplicateDetectionService {
       }
     }
     
+    // El desglose acompaña a cualquier estrategia para explicar el match
+    const { score, signals } = DuplicateScoringService.score(
+      this.scoringInput(artworkProduct, this.artworkHashes),
+      this.scoringInput(wooProduct, this.wooHashes)
+    );
+
     return {
       title: wooProduct.getTitle(),
+      artworkSourceId: artworkProduct.getSourceId() || artworkProduct.getSKU(),
+      wooSourceId: wooProduct.getSourceId() || wooProduct.getSKU(),
       artworkSKU: artworkProduct.getSKU(),
       wooSKU: wooProduct.getSKU(),
       artworkPrice: artworkProduct.getPrice(),
@@ -136,12 +249,32 @@ export class DuplicateDetectionService {
         woo: this.extractDimensions(wooProduct.getBodyHTML())
       },
       matchType,
-      similarity
+      similarity,
+      score,
+      signals
+    };
+  }
+
+  private scoringInput(product: ShopifyProduct, hashes: Map<string, string[]>): DuplicateScoringInput {
+    const bodyHtml = product.getBodyHTML();
+    // El vendor de WooCommerce es la galería: el artista, si está, va en la descripción
+    const vendor = product.getVendor();
+    const artist = vendor && ![appConfig.branding.vendor, appConfig.branding.unknownArtist].includes(vendor)
+      ? vendor
+      : DuplicateScoringService.artistFromDescription(bodyHtml);
+
+    return {
+      title: product.getTitle(),
+      artist,
+      dimensions: this.extractDimensions(bodyHtml),
+      price: product.getPrice(),
+      year: DuplicateScoringService.yearFromDescription(bodyHtml),
+      imageHashes: hashes.get(product.getHandle()) || []
     };
   }
 
   private removeDuplicateMatches(duplicates: DuplicateMatch[]): DuplicateMatch[] {
-    if (this.config.matchingStrategy !== 'fuzzy') {
+    if (!['fuzzy', 'imageSimilarity', 'weighted'].includes(this.config.matchingStrategy)) {
       return duplicates;
     }
     
@@ -0,0 +1,214 @@
+import { Prisma, Product, SourceType } from '@prisma/client';
+import { config } from '../config';
+import { MergeField, MergeFieldSources, MergeLineageEntry, MergePolicy, MergeSource } from '../types';
+import { hammingDistance, isDegenerateHash, SAME_IMAGE_DISTANCE } from '../utils/perceptualHash';
+import { extractDimensions } from '../utils/report';
+import { ImageWithVariants, ProductWithImages } from './PrismaProductService';
+
+type MergeValueField = Exclude<MergeField, 'images'>;
+
+export type MergePlan = {
+  // Columnas del producto de Artwork Archive que toman el valor de WooCommerce
+  data: Prisma.ProductUpdateInput;
+  fieldSources: MergeFieldSources;
+  mergedFrom: MergeLineageEntry[];
+  // Imágenes del producto fusionado en orden; las de WooCommerce se copian
+  images: Array<{ image: ImageWithVariants; source: MergeSource }>;
+  // Imágenes de la obra que sobran porque la misma foto llega desde WooCommerce
+  droppedImages: ImageWithVariants[];
+};
+
+// Columnas de Product que forman cada campo de la política
+export const MERGE_FIELD_COLUMNS: Record<MergeValueField, Array<keyof Product>> = {
+  title: ['title'],
+  description: ['bodyHtml'],
+  artist: ['vendor', 'artworkArtist'],
+  dimensions: ['artworkHeight', 'artworkWidth', 'artworkDepth'],
+  year: ['artworkYear'],
+  medium: ['artworkMedium'],
+  price: ['variantPrice'],
+  tags: ['tags']
+};
+
+// Fuera de la política: solo se completan desde WooCommerce si la obra no los tiene
+const FILL_EMPTY_COLUMNS: Array<keyof Product> = ['type', 'productCategory', 'seoTitle', 'seoDescription'];
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || value === '' ||
+  (value instanceof Prisma.Decimal && value.isZero());
+
+// WooCommerce no tiene columnas de artista ni medidas: el vendor es la galería y las medidas van en la descripción
+const artistOf = (product: Product): string | null => {
+  const vendor = product.vendor && ![config.branding.vendor, config.branding.unknownArtist].includes(product.vendor)
+    ? product.vendor
+    : null;
+  return product.artworkArtist || vendor;
+};
+
+const dimensionsOf = (product: Product): Partial<Product> => {
+  if (product.artworkHeight || product.artworkWidth || product.artworkDepth) {
+    return { artworkHeight: product.artworkHeight, artworkWidth: product.artworkWidth, artworkDepth: product.artworkDepth };
+  }
+
+  const text = extractDimensions(product.bodyHtml || '');
+  const measure = (suffix: string) => text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${suffix}\\b`, 'i'))?.[1] || null;
+  return { artworkHeight: measure('h'), artworkWidth: measure('w'), artworkDepth: measure('d') };
+};
+
+// Fecha de modificación del registro en su origen. En Artwork Archive sourceUpdatedAt es la fecha
+// del archivo exportado, la misma para todas las piezas, y no sirve para comparar
+const recordUpdatedAt = (product: Product): Date | null =>
+  product.sourceType === SourceType.ARTWORK_ARCHIVE ? null : product.sourceUpdatedAt;
+
+const valuesOf = (product: Product, field: MergeValueField): Partial<Product> => {
+  switch (field) {
+    case 'artist': {
+      const artist = artistOf(product);
+      return { vendor: artist, artworkArtist: artist };
+    }
+    case 'dimensions':
+      return dimensionsOf(product);
+    default:
+      return Object.fromEntries(MERGE_FIELD_COLUMNS[field].map(column => [column, product[column]]));
+  }
+};
+
+const splitTags = (tags?: string | null): string[] =>
+  (tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Fusión de un duplicado en el producto de Artwork Archive, campo por campo según config.duplicates.mergePolicy
+ */
+export class DuplicateMergeService {
+  static plan(
+    artwork: ProductWithImages,
+    woo: ProductWithImages,
+    policy: MergePolicy = config.duplicates.mergePolicy
+  ): MergePlan {
+    const data: Prisma.ProductUpdateInput = {};
+    const fieldSources: MergeFieldSources = {};
+
+    (Object.keys(MERGE_FIELD_COLUMNS) as MergeValueField[]).forEach(field => {
+      if (field === 'tags' && policy.tags === 'union') {
+        const tags = [...splitTags(artwork.tags)];
+        splitTags(woo.tags).forEach(tag => {
+          if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+        });
+        data.tags = tags.join(', ');
+        fieldSources.tags = tags.length > splitTags(artwork.tags).length
+          ? (artwork.tags ? 'both' : 'woo')
+          : 'artwork';
+        return;
+      }
+
+      const values = { artwork: valuesOf(artwork, field), woo: valuesOf(woo, field) };
+      const hasValue = (source: MergeSource) => Object.values(values[source]).some(value => !isEmpty(value));
+
+      let source = this.chooseSource(field, policy, artwork, woo);
+      const other: MergeSource = source === 'artwork' ? 'woo' : 'artwork';
+      if (!hasValue(source) && hasValue(other)) {
+        source = other;
+      }
+
+      fieldSources[field] = source;
+      if (source === 'woo') {
+        Object.assign(data, values.woo);
+      }
+    });
+
+    FILL_EMPTY_COLUMNS
+      .filter(column => isEmpty(artwork[column]) && !isEmpty(woo[column]))
+      .forEach(column => Object.assign(data, { [column]: woo[column] }));
+
+    const { images, droppedImages } = this.mergeImages(artwork, woo, policy.images);
+    const imageSources = new Set(images.map(entry => entry.source));
+    if (imageSources.size > 0) {
+      fieldSources.images = imageSources.size > 1 ? 'both' : images[0].source;
+    }
+
+    return {
+      data,
+      fieldSources,
+      mergedFrom: this.lineage(artwork, woo),
+      images,
+      droppedImages
+    };
+  }
+
+  /**
+   * Misma foto: misma URL de origen, mismos bytes convertidos o hashes perceptuales casi iguales
+   */
+  static isSameImage(a: ImageWithVariants, b: ImageWithVariants): boolean {
+    if (a.originalUrl === b.originalUrl || (a.contentHash && a.contentHash === b.contentHash)) {
+      return true;
+    }
+    return Boolean(a.perceptualHash && b.perceptualHash &&
+      !isDegenerateHash(a.perceptualHash) && !isDegenerateHash(b.perceptualHash) &&
+      hammingDistance(a.perceptualHash, b.perceptualHash) <= SAME_IMAGE_DISTANCE);
+  }
+
+  private static chooseSource(
+    field: MergeValueField,
+    policy: MergePolicy,
+    artwork: Product,
+    woo: Product
+  ): MergeSource {
+    const rule = policy[field];
+
+    switch (rule) {
+      case 'newer': {
+        const artworkDate = recordUpdatedAt(artwork);
+        const wooDate = recordUpdatedAt(woo);
+        if (!artworkDate || !wooDate) {
+          return policy.newerFallback;
+        }
+        return wooDate > artworkDate ? 'woo' : 'artwork';
+      }
+      case 'higher':
+        return woo.variantPrice.greaterThan(artwork.variantPrice) ? 'woo' : 'artwork';
+      case 'lower':
+        // Un precio en 0 es un precio faltante
+        return !woo.variantPrice.isZero() && (artwork.variantPrice.isZero() || woo.variantPrice.lessThan(artwork.variantPrice))
+          ? 'woo'
+          : 'artwork';
+      case 'union':
+        return 'artwork';
+      default:
+        return rule;
+    }
+  }
+
+  // La fuente principal va primero; de la otra se agregan las fotos que no estén ya
+  private static mergeImages(
+    artwork: ProductWithImages,
+    woo: ProductWithImages,
+    primary: MergeSource
+  ): Pick<MergePlan, 'images' | 'droppedImages'> {
+    const bySource = { artwork: artwork.images, woo: woo.images };
+    const secondary: MergeSource = primary === 'artwork' ? 'woo' : 'artwork';
+
+    const images = bySource[primary].map(image => ({ image, source: primary }));
+    bySource[secondary].forEach(image => {
+      if (!images.some(entry => this.isSameImage(entry.image, image))) {
+        images.push({ image, source: secondary });
+      }
+    });
+
+    return {
+      images,
+      droppedImages: artwork.images.filter(image => !images.some(entry => entry.image === image))
+    };
+  }
+
+  private static lineage(artwork: Product, woo: Product): MergeLineageEntry[] {
+    const entries: MergeLineageEntry[] = [
+      ...((artwork.mergedFrom as MergeLineageEntry[] | null) || []),
+      { sourceType: 'ARTWORK_ARCHIVE', sourceId: artwork.sourceId || artwork.id },
+      ...((woo.mergedFrom as MergeLineageEntry[] | null) || []),
+      { sourceType: 'WOOCOMMERCE', sourceId: woo.sourceId || woo.id }
+    ];
+
+    return entries.filter((entry, index) => entries.findIndex(other =>
+      other.sourceType === entry.sourceType && other.sourceId === entry.sourceId) === index);
+  }
+}
@@ -1,12 +1,18 @@
 import chalk from "chalk";
 import { ShopifyProduct } from "../models/ShopifyProduct";
-import { DuplicateMatch } from "../types";
+import { AppliedDuplicateResolution, DuplicateChoice, DuplicateMatch, DuplicateStrategy } from "../types";
 
 export interface DuplicateResolutionConfig {
-  strategy: 'keepBoth' | 'preferArtwork' | 'preferWoo' | 'ask';
-  onManualChoice?: (duplicate: DuplicateMatch) => Promise<'artwork' | 'woo' | 'both'>;
+  strategy: DuplicateStrategy;
+  onManualChoice?: (duplicate: DuplicateMatch) => Promise<DuplicateChoice>;
 }
 
+export type DuplicateResolutionResult = {
+  artworkProducts: ShopifyProduct[];
+  wooProducts: ShopifyProduct[];
+  resolutions: AppliedDuplicateResolution[];
+};
+
 export class DuplicateResolutionService {
   constructor(private logger: any) {}
 
@@ -15,9 +21,9 @@ export class DuplicateResolutionService {
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[],
     config: DuplicateResolutionConfig
-  ): Promise<{ artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[] }> {
+  ): Promise<DuplicateResolutionResult> {
     if (duplicates.length === 0) {
-      return { artworkProducts, wooProducts };
+      return { artworkProducts, wooProducts, resolutions: [] };
     }
 
     this.logger.warning(`Found ${duplicates.length} duplicate products`);
@@ -33,6 +39,12 @@ export class DuplicateResolutionService {
       case 'preferWoo':
         return this.preferWooVersions(duplicates, artworkProducts, wooProducts);
       
+      case 'review':
+        return this.deferAll(duplicates, artworkProducts, wooProducts);
+
+      case 'merge':
+        return this.mergeAll(duplicates, artworkProducts, wooProducts);
+
       case 'ask':
         if (!config.onManualChoice) {
           throw new Error('Manual choice handler is required for "ask" strategy');
@@ -60,34 +72,57 @@ export class DuplicateResolutionService {
     duplicates: DuplicateMatch[],
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[]
-  ): { artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[] } {
+  ): DuplicateResolutionResult {
     this.logger.info('Keeping both versions of duplicate products (adding suffix to WooCommerce products)');
     
     const duplicateWooSKUs = new Set(duplicates.map(d => d.wooSKU));
+    const renamed = this.renameWooProducts(wooProducts, duplicateWooSKUs);
     
-    for (const wooProduct of wooProducts) {
-      if (wooProduct.getTitle() !== '' && duplicateWooSKUs.has(wooProduct.getSKU())) {
-        const oldTitle = wooProduct.getTitle();
-        const oldHandle = wooProduct.getHandle();
-        
-        wooProduct.setTitle(`${oldTitle} (WooCommerce)`);
-        wooProduct.setHandle(`${oldHandle}-woo`);
-        
-        // Actualizar filas de imágenes relacionadas
-        this.updateRelatedImageRows(wooProducts, oldTitle, wooProduct.getHandle());
-        
-        this.logger.info(`Renamed "${oldTitle}" to "${wooProduct.getTitle()}"`);
-      }
-    }
-    
-    return { artworkProducts, wooProducts };
+    return {
+      artworkProducts,
+      wooProducts,
+      resolutions: duplicates.map(duplicate => ({
+        duplicate,
+        choice: 'both' as const,
+        renamed: renamed.get(duplicate.wooSKU)
+      }))
+    };
+  }
+
+  private deferAll(
+    duplicates: DuplicateMatch[],
+    artworkProducts: ShopifyProduct[],
+    wooProducts: ShopifyProduct[]
+  ): DuplicateResolutionResult {
+    this.logger.info('Keeping both versions unchanged; resolve them later with "duplicates resolve"');
+
+    return {
+      artworkProducts,
+      wooProducts,
+      resolutions: duplicates.map(duplicate => ({ duplicate, choice: 'pending' as const }))
+    };
+  }
+
+  // Se guardan las dos versiones; migrate las fusiona después de guardarlas
+  private mergeAll(
+    duplicates: DuplicateMatch[],
+    artworkProducts: ShopifyProduct[],
+    wooProducts: ShopifyProduct[]
+  ): DuplicateResolutionResult {
+    this.logger.info('Merging duplicate products field by field into the Artwork Archive version');
+
+    return {
+      artworkProducts,
+      wooProducts,
+      resolutions: duplicates.map(duplicate => ({ duplicate, choice: 'merged' as const }))
+    };
   }
 
   private preferArtworkVersions(
     duplicates: DuplicateMatch[],
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[]
-  ): { artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[] } {
+  ): DuplicateResolutionResult {
     this.logger.info('Using Artwork Archive version for duplicate products');
     
     const duplicateWooSKUs = new Set(duplicates.map(d => d.wooSKU));
@@ -97,14 +132,18 @@ export class DuplicateResolutionService {
     });
     
     this.logger.info(`Removed ${wooProducts.length - filteredWooProducts.length} duplicate WooCommerce products`);
-    return { artworkProducts, wooProducts: filteredWooProducts };
+    return {
+      artworkProducts,
+      wooProducts: filteredWooProducts,
+      resolutions: duplicates.map(duplicate => ({ duplicate, choice: 'artwork' as const }))
+    };
   }
 
   private preferWooVersions(
     duplicates: DuplicateMatch[],
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[]
-  ): { artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[] } {
+  ): DuplicateResolutionResult {
     this.logger.info('Using WooCommerce version for duplicate products');
     
     const duplicateArtworkSKUs = new Set(duplicates.map(d => d.artworkSKU));
@@ -114,23 +153,29 @@ export class DuplicateResolutionService {
     });
     
     this.logger.info(`Removed ${artworkProducts.length - filteredArtworkProducts.length} duplicate Artwork Archive products`);
-    return { artworkProducts: filteredArtworkProducts, wooProducts };
+    return {
+      artworkProducts: filteredArtworkProducts,
+      wooProducts,
+      resolutions: duplicates.map(duplicate => ({ duplicate, choice: 'woo' as const }))
+    };
   }
 
   private async askForEachDuplicate(
     duplicates: DuplicateMatch[],
     artworkProducts: ShopifyProduct[],
     wooProducts: ShopifyProduct[],
-    onManualChoice: (duplicate: DuplicateMatch) => Promise<'artwork' | 'woo' | 'both'>
-  ): Promise<{ artworkProducts: ShopifyProduct[], wooProducts: ShopifyProduct[] }> {
+    onManualChoice: (duplicate: DuplicateMatch) => Promise<DuplicateChoice>
+  ): Promise<DuplicateResolutionResult> {
     this.logger.info('Asking for each duplicate product...');
     
     const toRemoveFromWoo = new Set<string>();
     const toRemoveFromArtwork = new Set<string>();
     const toRenameWoo = new Set<string>();
+    const choices: Array<{ duplicate: DuplicateMatch, choice: DuplicateChoice }> = [];
     
     for (const dupe of duplicates) {
       const choice = await onManualChoice(dupe);
+      choices.push({ duplicate: dupe, choice });
       
       if (choice === 'artwork') {
         toRemoveFromWoo.add(dupe.wooSKU);
@@ -161,24 +206,45 @@ export class DuplicateResolutionService {
       this.logger.info(`Removed ${toRemoveFromArtwork.size} Artwork Archive products based on your choices`);
     }
     
-    if (toRenameWoo.size > 0) {
-      for (const wooProduct of filteredWooProducts) {
-        if (wooProduct.getTitle() !== '' && toRenameWoo.has(wooProduct.getSKU())) {
-          const oldTitle = wooProduct.getTitle();
-          const oldHandle = wooProduct.getHandle();
-          
-          wooProduct.setTitle(`${oldTitle} (WooCommerce)`);
-          wooProduct.setHandle(`${oldHandle}-woo`);
-          
-          // Actualizar filas de imágenes relacionadas
-          this.updateRelatedImageRows(filteredWooProducts, oldTitle, wooProduct.getHandle());
-          
-          this.logger.info(`Renamed "${oldTitle}" to "${wooProduct.getTitle()}"`);
-        }
+    const renamed = this.renameWooProducts(filteredWooProducts, toRenameWoo);
+    
+    return {
+      artworkProducts: filteredArtworkProducts,
+      wooProducts: filteredWooProducts,
+      resolutions: choices.map(({ duplicate, choice }) => ({
+        duplicate,
+        choice,
+        renamed: choice === 'both' ? renamed.get(duplicate.wooSKU) : undefined
+      }))
+    };
+  }
+
+  /**
+   * Agrega el sufijo de WooCommerce a título y handle, devuelve los nuevos valores por SKU
+   */
+  private renameWooProducts(
+    wooProducts: ShopifyProduct[],
+    skus: Set<string>
+  ): Map<string, { title: string, handle: string }> {
+    const renamed = new Map<string, { title: string, handle: string }>();
+    
+    for (const wooProduct of wooProducts) {
+      if (wooProduct.getTitle() !== '' && skus.has(wooProduct.getSKU())) {
+        const oldTitle = wooProduct.getTitle();
+        const oldHandle = wooProduct.getHandle();
+        
+        wooProduct.setTitle(`${oldTitle} (WooCommerce)`);
+        wooProduct.setHandle(`${oldHandle}-woo`);
+        
+        // Actualizar filas de imágenes relacionadas
+        this.updateRelatedImageRows(wooProducts, oldTitle, wooProduct.getHandle());
+        
+        renamed.set(wooProduct.getSKU(), { title: wooProduct.getTitle(), handle: wooProduct.getHandle() });
+        this.logger.info(`Renamed "${oldTitle}" to "${wooProduct.getTitle()}"`);
       }
     }
     
-    return { artworkProducts: filteredArtworkProducts, wooProducts: filteredWooProducts };
+    return renamed;
   }
 
   private updateRelatedImageRows(products: ShopifyProduct[], oldTitle: string, newHandle: string): void {
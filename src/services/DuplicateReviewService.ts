@@ -0,0 +1,313 @@
+import { DuplicateMatch, DuplicateResolution, Prisma, PrismaClient, Product, ProductStatus } from '@prisma/client';
+import { MergeField } from '../types';
+import { DuplicateMergeService } from './DuplicateMergeService';
+import { ProductWithImages } from './PrismaProductService';
+
+export type DuplicateMatchFilters = {
+  resolutions?: DuplicateResolution[];
+  // Texto contenido en el tipo de match (title, fuzzy, image...)
+  matchType?: string;
+  minConfidence?: number;
+  maxConfidence?: number;
+};
+
+export type DuplicateMatchSummary = DuplicateMatch & {
+  artworkProduct: Product | null;
+  wooProduct: Product | null;
+};
+
+export type DuplicateMatchDetail = DuplicateMatch & {
+  artworkProduct: ProductWithImages | null;
+  wooProduct: ProductWithImages | null;
+};
+
+export type DuplicateFieldDiff = {
+  field: string;
+  artwork: string;
+  woo: string;
+  differs: boolean;
+};
+
+// Lo que se cambió en los productos al resolver (handles)
+export type DuplicateResolutionOutcome = {
+  archived: string[];
+  restored: string[];
+  renamed?: { from: string; to: string };
+  merged?: { fields: string[]; images: number };
+};
+
+const DIFF_FIELDS: Array<{ field: string; value: (product: Product) => unknown }> = [
+  { field: 'Title', value: product => product.title },
+  { field: 'Handle', value: product => product.handle },
+  { field: 'Status', value: product => product.status },
+  { field: 'SKU', value: product => product.variantSku },
+  { field: 'Price', value: product => product.variantPrice },
+  { field: 'Compare At Price', value: product => product.variantCompareAtPrice },
+  { field: 'Vendor', value: product => product.vendor },
+  { field: 'Artist', value: product => product.artworkArtist },
+  { field: 'Medium', value: product => product.artworkMedium },
+  { field: 'Year', value: product => product.artworkYear },
+  { field: 'Dimensions', value: product => [product.artworkHeight, product.artworkWidth, product.artworkDepth].filter(Boolean).join(' x ') },
+  { field: 'Type', value: product => product.type },
+  { field: 'Category', value: product => product.productCategory },
+  { field: 'Tags', value: product => product.tags },
+  { field: 'Description', value: product => product.bodyHtml?.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim() },
+  { field: 'Source Id', value: product => product.sourceId }
+];
+
+const imageInclude = {
+  images: { include: { variants: true }, orderBy: { position: 'asc' } }
+} as const;
+
+/**
+ * Revisión de los duplicados guardados por migrate: listar, comparar y resolver
+ * aplicando el resultado sobre los productos (archivar, renombrar o fusionar)
+ */
+export class DuplicateReviewService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  async list(filters: DuplicateMatchFilters = {}): Promise<DuplicateMatchSummary[]> {
+    return await this.prisma.duplicateMatch.findMany({
+      where: DuplicateReviewService.toWhere(filters),
+      include: { artworkProduct: true, wooProduct: true },
+      orderBy: [{ resolution: 'asc' }, { confidence: 'desc' }, { title: 'asc' }]
+    });
+  }
+
+  /**
+   * Match por id o por un prefijo del id (como los que muestra duplicates list)
+   */
+  async find(idOrPrefix: string): Promise<DuplicateMatchDetail> {
+    const matches = await this.prisma.duplicateMatch.findMany({
+      where: { id: { startsWith: idOrPrefix } },
+      include: {
+        artworkProduct: { include: imageInclude },
+        wooProduct: { include: imageInclude }
+      },
+      take: 2
+    });
+
+    if (matches.length === 0) {
+      throw new Error(`Duplicado no encontrado: ${idOrPrefix}`);
+    }
+    if (matches.length > 1 && matches[0].id !== idOrPrefix) {
+      throw new Error(`El prefijo ${idOrPrefix} coincide con varios duplicados; usa más caracteres del id`);
+    }
+    return matches[0];
+  }
+
+  /**
+   * Campos de ambos productos lado a lado (vacío si esa versión no se guardó)
+   */
+  static diff(match: Pick<DuplicateMatchDetail, 'artworkProduct' | 'wooProduct'>): DuplicateFieldDiff[] {
+    const format = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+    return [
+      ...DIFF_FIELDS.map(({ field, value }) => {
+        const artwork = match.artworkProduct ? format(value(match.artworkProduct)) : '';
+        const woo = match.wooProduct ? format(value(match.wooProduct)) : '';
+        return { field, artwork, woo, differs: artwork !== woo };
+      }),
+      {
+        field: 'Images',
+        artwork: String(match.artworkProduct?.images.length ?? ''),
+        woo: String(match.wooProduct?.images.length ?? ''),
+        differs: match.artworkProduct?.images.length !== match.wooProduct?.images.length
+      }
+    ];
+  }
+
+  /**
+   * Aplicar una resolución sobre los productos y guardarla en el match.
+   * Se puede volver a resolver: el producto que se conserva y estaba archivado vuelve como borrador.
+   * Una fusión no: ya reescribió la obra y borró las imágenes repetidas.
+   */
+  async resolve(
+    match: DuplicateMatchDetail,
+    resolution: DuplicateResolution,
+    notes?: string
+  ): Promise<DuplicateResolutionOutcome> {
+    if (resolution === DuplicateResolution.PENDING) {
+      throw new Error('Un duplicado se resuelve como KEEP_ARTWORK, KEEP_WOO, KEEP_BOTH o MERGED');
+    }
+    if (match.resolution === DuplicateResolution.MERGED) {
+      throw new Error(
+        'El duplicado ya se fusionó en el producto de Artwork Archive y la fusión no se puede deshacer; ' +
+        'los cambios en ese producto se hacen a mano'
+      );
+    }
+
+    const { artworkProduct, wooProduct } = match;
+    const needsArtwork = resolution !== DuplicateResolution.KEEP_WOO;
+    const needsWoo = resolution !== DuplicateResolution.KEEP_ARTWORK;
+    if ((needsArtwork && !artworkProduct) || (needsWoo && !wooProduct)) {
+      const missing = needsArtwork && !artworkProduct ? 'Artwork Archive' : 'WooCommerce';
+      throw new Error(
+        `La versión de ${missing} no está en la base de datos (se descartó al migrar); ` +
+        'vuelve a migrar con --duplicate-strategy review para revisarlo'
+      );
+    }
+
+    const kept = [
+      ...(resolution !== DuplicateResolution.KEEP_WOO ? [artworkProduct!] : []),
+      ...(resolution === DuplicateResolution.KEEP_WOO || resolution === DuplicateResolution.KEEP_BOTH ? [wooProduct!] : [])
+    ];
+    const archived = [artworkProduct, wooProduct].filter((product): product is ProductWithImages =>
+      Boolean(product) && !kept.includes(product!));
+
+    const outcome: DuplicateResolutionOutcome = { archived: [], restored: [] };
+
+    await this.prisma.$transaction(async tx => {
+      for (const product of archived) {
+        if (product.status !== ProductStatus.ARCHIVED) {
+          await tx.product.update({
+            where: { id: product.id },
+            data: { status: ProductStatus.ARCHIVED, published: false }
+          });
+          outcome.archived.push(product.handle);
+        }
+      }
+
+      // Archivado por una resolución anterior: vuelve como borrador para revisarlo antes de publicar
+      for (const product of kept) {
+        if (product.status === ProductStatus.ARCHIVED) {
+          await tx.product.update({
+            where: { id: product.id },
+            data: { status: ProductStatus.DRAFT, published: false }
+          });
+          outcome.restored.push(product.handle);
+        }
+      }
+
+      if (resolution === DuplicateResolution.KEEP_BOTH) {
+        outcome.renamed = await DuplicateReviewService.renameWooProduct(tx, wooProduct!);
+      }
+
+      if (resolution === DuplicateResolution.MERGED) {
+        outcome.merged = await DuplicateReviewService.mergeInto(tx, artworkProduct!, wooProduct!);
+      }
+
+      await tx.duplicateMatch.update({
+        where: { id: match.id },
+        data: {
+          resolution,
+          resolvedAt: new Date(),
+          resolutionNotes: notes || DuplicateReviewService.describe(outcome) || null
+        }
+      });
+    });
+
+    return outcome;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+
+  private static toWhere(filters: DuplicateMatchFilters): Prisma.DuplicateMatchWhereInput {
+    const confidence: Prisma.FloatNullableFilter = {};
+    if (filters.minConfidence !== undefined) confidence.gte = filters.minConfidence;
+    if (filters.maxConfidence !== undefined) confidence.lte = filters.maxConfidence;
+
+    return {
+      ...(filters.resolutions?.length ? { resolution: { in: filters.resolutions } } : {}),
+      ...(filters.matchType ? { matchType: { contains: filters.matchType, mode: 'insensitive' } } : {}),
+      ...(Object.keys(confidence).length > 0 ? { confidence } : {})
+    };
+  }
+
+  /**
+   * Mismo sufijo que keepBoth al migrar; no se vuelve a agregar si ya lo tiene
+   */
+  private static async renameWooProduct(
+    tx: Prisma.TransactionClient,
+    wooProduct: Product
+  ): Promise<DuplicateResolutionOutcome['renamed']> {
+    if (wooProduct.handle.endsWith('-woo')) {
+      return undefined;
+    }
+
+    let handle = `${wooProduct.handle}-woo`;
+    for (let suffix = 2; await tx.product.findUnique({ where: { handle }, select: { id: true } }); suffix++) {
+      handle = `${wooProduct.handle}-woo-${suffix}`;
+    }
+
+    await tx.product.update({
+      where: { id: wooProduct.id },
+      data: {
+        handle,
+        title: wooProduct.title.endsWith('(WooCommerce)') ? wooProduct.title : `${wooProduct.title} (WooCommerce)`
+      }
+    });
+    return { from: wooProduct.handle, to: handle };
+  }
+
+  /**
+   * Fusionar WooCommerce en la obra según config.duplicates.mergePolicy, guardando de dónde salió cada campo.
+   * Las imágenes de WooCommerce se copian (mismos objetos del storage) para que el producto archivado quede intacto.
+   */
+  private static async mergeInto(
+    tx: Prisma.TransactionClient,
+    artworkProduct: ProductWithImages,
+    wooProduct: ProductWithImages
+  ): Promise<DuplicateResolutionOutcome['merged']> {
+    const plan = DuplicateMergeService.plan(artworkProduct, wooProduct);
+
+    await tx.product.update({
+      where: { id: artworkProduct.id },
+      data: {
+        ...plan.data,
+        fieldSources: plan.fieldSources,
+        mergedFrom: plan.mergedFrom
+      }
+    });
+
+    if (plan.droppedImages.length > 0) {
+      await tx.productImage.deleteMany({ where: { id: { in: plan.droppedImages.map(image => image.id) } } });
+    }
+
+    let copied = 0;
+    for (const [index, { image, source }] of plan.images.entries()) {
+      const position = index + 1;
+      if (source === 'artwork') {
+        if (image.position !== position) {
+          await tx.productImage.update({ where: { id: image.id }, data: { position } });
+        }
+        continue;
+      }
+
+      const { id, productId, createdAt, updatedAt, createdByRunId, variants, exif, qualityIssues, ...data } = image;
+      await tx.productImage.create({
+        data: {
+          ...data,
+          exif: exif ?? Prisma.DbNull,
+          qualityIssues: qualityIssues ?? Prisma.DbNull,
+          position,
+          product: { connect: { id: artworkProduct.id } },
+          variants: {
+            create: variants.map(({ id: variantId, imageId, createdAt: variantCreatedAt, ...variant }) => variant)
+          }
+        }
+      });
+      copied++;
+    }
+
+    const fields = (Object.entries(plan.fieldSources) as Array<[MergeField, string]>)
+      .filter(([field, source]) => field !== 'images' && source !== 'artwork')
+      .map(([field]) => field);
+    return { fields, images: copied };
+  }
+
+  private static describe(outcome: DuplicateResolutionOutcome): string {
+    return [
+      outcome.archived.length > 0 ? `Archivados: ${outcome.archived.join(', ')}` : '',
+      outcome.restored.length > 0 ? `Restaurados como borrador: ${outcome.restored.join(', ')}` : '',
+      outcome.renamed ? `WooCommerce renombrado a ${outcome.renamed.to}` : '',
+      outcome.merged ? `Fusionado: ${outcome.merged.fields.length} campos, ${outcome.merged.images} imágenes` : ''
+    ].filter(Boolean).join('; ');
+  }
+}
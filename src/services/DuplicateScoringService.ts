@@ -0,0 +1,166 @@
+import { config } from '../config';
+import { DuplicateSignal, DuplicateSignalScore } from '../types';
+import { NormalizeUtils } from '../utils/normalizeFields';
+import { hammingDistance } from '../utils/perceptualHash';
+
+// Datos de una versión que entran en el puntaje
+export type DuplicateScoringInput = {
+  title: string;
+  artist: string;
+  // Texto de medidas tal como lo da extractDimensions ("24h x 36w")
+  dimensions: string;
+  price: string;
+  year: string;
+  imageHashes: string[];
+};
+
+export type DuplicateScore = {
+  score: number;
+  signals: DuplicateSignalScore[];
+};
+
+type SignalValue = { score: number | null; artwork: string; woo: string };
+
+const SIGNAL_LABELS: Record<DuplicateSignal, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  dimensions: 'Dimensions',
+  price: 'Price',
+  year: 'Year',
+  image: 'Image'
+};
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// Medidas ordenadas de mayor a menor, para que alto y ancho invertidos sigan coincidiendo
+const measures = (dimensions: string): number[] =>
+  (dimensions.match(/\d+(?:\.\d+)?/g) || []).map(Number).filter(value => value > 0).sort((a, b) => b - a);
+
+/**
+ * Puntaje de duplicado de un par Artwork Archive / WooCommerce combinando señales
+ * con los pesos de config.duplicates.scoring
+ */
+export class DuplicateScoringService {
+  static score(
+    artwork: DuplicateScoringInput,
+    woo: DuplicateScoringInput,
+    scoring = config.duplicates.scoring
+  ): DuplicateScore {
+    const values: Record<DuplicateSignal, SignalValue> = {
+      title: this.titleSignal(artwork, woo),
+      artist: this.artistSignal(artwork, woo),
+      dimensions: this.dimensionsSignal(artwork, woo, scoring.dimensionTolerance),
+      price: this.priceSignal(artwork, woo, scoring.priceTolerance),
+      year: this.yearSignal(artwork, woo, scoring.yearTolerance),
+      image: this.imageSignal(artwork, woo, scoring.imageDistance)
+    };
+
+    // Una señal sin dato no resta: su peso se reparte entre las demás. Con menos de minSignals
+    // disponibles no se reparte, para que una sola señal no alcance para dar un duplicado seguro.
+    const signals = Object.keys(values) as DuplicateSignal[];
+    const available = signals.filter(signal => values[signal].score !== null);
+    const availableWeight = available.length >= scoring.minSignals
+      ? available.reduce((sum, signal) => sum + scoring.weights[signal], 0)
+      : signals.reduce((sum, signal) => sum + scoring.weights[signal], 0);
+
+    const scored: DuplicateSignalScore[] = signals.map(signal => ({
+      signal,
+      ...values[signal],
+      weight: values[signal].score !== null && availableWeight > 0 ? scoring.weights[signal] / availableWeight : 0
+    }));
+
+    return {
+      score: scored.reduce((sum, signal) => sum + signal.weight * (signal.score ?? 0), 0),
+      signals: scored
+    };
+  }
+
+  /**
+   * Una línea por señal: puntaje, peso y los valores comparados
+   */
+  static explain(signals: DuplicateSignalScore[]): string[] {
+    return signals.map(signal => {
+      const label = SIGNAL_LABELS[signal.signal].padEnd(10);
+      const values = `${signal.artwork || '-'} / ${signal.woo || '-'}`;
+      return signal.score === null
+        ? `${label} n/a          ${values}`
+        : `${label} ${percent(signal.score).padStart(4)} x ${percent(signal.weight).padStart(3)}   ${values}`;
+    });
+  }
+
+  /**
+   * Artista en la descripción (<strong>Artist:</strong>), para versiones cuyo vendor es la galería
+   */
+  static artistFromDescription(html: string): string {
+    return html.match(/Artist:\s*(?:<\/strong>)?\s*([^<\n]+)/i)?.[1].trim() || '';
+  }
+
+  /**
+   * Año en la descripción (<strong>Year:</strong>)
+   */
+  static yearFromDescription(html: string): string {
+    return html.match(/Year:\s*(?:<\/strong>)?\s*(\d{4})/i)?.[1] || '';
+  }
+
+  private static titleSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput): SignalValue {
+    const a = NormalizeUtils.normalizeTitle(artwork.title);
+    const b = NormalizeUtils.normalizeTitle(woo.title);
+    return { score: a && b ? NormalizeUtils.getSimilarity(a, b) : null, artwork: artwork.title, woo: woo.title };
+  }
+
+  private static artistSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput): SignalValue {
+    const a = NormalizeUtils.normalizeArtist(artwork.artist);
+    const b = NormalizeUtils.normalizeArtist(woo.artist);
+    return { score: a && b ? NormalizeUtils.getSimilarity(a, b) : null, artwork: artwork.artist, woo: woo.artist };
+  }
+
+  // Proporción de medidas que coinciden dentro de la tolerancia; una medida de más cuenta como distinta
+  private static dimensionsSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput, tolerance: number): SignalValue {
+    const a = measures(artwork.dimensions);
+    const b = measures(woo.dimensions);
+    if (a.length === 0 || b.length === 0) {
+      return { score: null, artwork: artwork.dimensions, woo: woo.dimensions };
+    }
+
+    const matching = a.filter((value, index) =>
+      index < b.length && Math.abs(value - b[index]) <= tolerance * Math.max(value, b[index])).length;
+    return { score: matching / Math.max(a.length, b.length), artwork: artwork.dimensions, woo: woo.dimensions };
+  }
+
+  private static priceSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput, tolerance: number): SignalValue {
+    const a = parseFloat(artwork.price);
+    const b = parseFloat(woo.price);
+    // Un precio en 0 es un precio faltante
+    if (!(a > 0) || !(b > 0)) {
+      return { score: null, artwork: artwork.price, woo: woo.price };
+    }
+
+    const difference = Math.abs(a - b) / Math.max(a, b);
+    return { score: Math.max(0, 1 - difference / tolerance), artwork: artwork.price, woo: woo.price };
+  }
+
+  private static yearSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput, tolerance: number): SignalValue {
+    const a = parseInt(artwork.year, 10);
+    const b = parseInt(woo.year, 10);
+    if (isNaN(a) || isNaN(b)) {
+      return { score: null, artwork: artwork.year, woo: woo.year };
+    }
+
+    const difference = Math.abs(a - b);
+    return { score: difference === 0 ? 1 : difference <= tolerance ? 0.5 : 0, artwork: artwork.year, woo: woo.year };
+  }
+
+  // La imagen más parecida entre todas las de cada versión
+  private static imageSignal(artwork: DuplicateScoringInput, woo: DuplicateScoringInput, maxDistance: number): SignalValue {
+    if (artwork.imageHashes.length === 0 || woo.imageHashes.length === 0) {
+      return { score: null, artwork: '', woo: '' };
+    }
+
+    const distance = Math.min(...artwork.imageHashes.flatMap(a => woo.imageHashes.map(b => hammingDistance(a, b))));
+    return {
+      score: Math.max(0, 1 - distance / maxDistance),
+      artwork: `${artwork.imageHashes.length} images`,
+      woo: `${woo.imageHashes.length} images, distance ${distance}`
+    };
+  }
+}
@@ -83,6 +83,13 @@ export class HandleGeneratorService {
     return handle;
   }
 
+  /**
+   * Marca como usado un handle ya asignado (p. ej. al reanudar una corrida)
+   */
+  static reserveHandle(handle: string): void {
+    this.usedHandles.add(handle);
+  }
+
   /**
    * Limpia el registro de handles usados (para testing o reset)
    */
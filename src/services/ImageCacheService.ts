@@ -0,0 +1,222 @@
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as path from 'path';
+import crypto from 'crypto';
+import { Logger } from '../utils/logger';
+import { config as appConfig } from '../config';
+
+export type ImageCacheConfig = {
+  enabled: boolean;
+  dir: string;
+  maxSizeMb: number;
+};
+
+// Metadata guardada junto a cada imagen descargada
+export type ImageCacheEntry = {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType: string;
+  size: number;
+  storedAt: string;
+  lastUsedAt: string;
+};
+
+export type ImageCacheStats = {
+  dir: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  oldestUsedAt?: string;
+  newestUsedAt?: string;
+};
+
+export type ImageCachePruneOptions = {
+  // Tamaño máximo tras la poda (por defecto, el configurado)
+  maxBytes?: number;
+  // Borrar entradas sin usar hace más de N días
+  olderThanDays?: number;
+  // Vaciar la caché completa (incluye archivos sueltos)
+  all?: boolean;
+};
+
+/**
+ * Caché en disco de imágenes de origen, por URL, con ETag/Last-Modified para revalidar.
+ * Cada entrada son dos archivos: <md5>.bin con los bytes y <md5>.json con la metadata.
+ */
+export class ImageCacheService {
+  constructor(private readonly config: ImageCacheConfig) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get maxBytes(): number {
+    return this.config.maxSizeMb * 1024 * 1024;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.config.enabled) {
+      await fs.mkdir(this.config.dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Entrada guardada para una URL (si sus bytes siguen en disco)
+   */
+  async get(url: string): Promise<ImageCacheEntry | undefined> {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    const { dataPath, metaPath } = this.paths(url);
+    try {
+      const entry = JSON.parse(await fs.readFile(metaPath, 'utf8')) as ImageCacheEntry;
+      return fsSync.existsSync(dataPath) ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Headers para una petición condicional a partir de una entrada guardada
+   */
+  conditionalHeaders(entry?: ImageCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  async read(url: string): Promise<Buffer> {
+    return fs.readFile(this.paths(url).dataPath);
+  }
+
+  async store(
+    url: string,
+    data: Buffer,
+    headers: { etag?: string; lastModified?: string; contentType: string }
+  ): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const { dataPath, metaPath } = this.paths(url);
+    const now = new Date().toISOString();
+    const entry: ImageCacheEntry = {
+      url,
+      etag: headers.etag,
+      lastModified: headers.lastModified,
+      contentType: headers.contentType,
+      size: data.length,
+      storedAt: now,
+      lastUsedAt: now
+    };
+
+    try {
+      await fs.writeFile(dataPath, data);
+      await fs.writeFile(metaPath, JSON.stringify(entry, null, 2));
+    } catch (error: any) {
+      Logger.warning(`No se pudo guardar ${url} en la caché: ${error.message}`);
+    }
+  }
+
+  /**
+   * Marcar una entrada como usada (la poda por tamaño borra primero las menos usadas)
+   */
+  async touch(url: string, entry: ImageCacheEntry): Promise<void> {
+    try {
+      await fs.writeFile(this.paths(url).metaPath, JSON.stringify({ ...entry, lastUsedAt: new Date().toISOString() }, null, 2));
+    } catch {
+      // Si no se puede actualizar, la entrada solo pierde su lugar en el orden LRU
+    }
+  }
+
+  async stats(): Promise<ImageCacheStats> {
+    const entries = await this.listEntries();
+    const used = entries.map(entry => entry.lastUsedAt).sort();
+
+    return {
+      dir: path.resolve(this.config.dir),
+      entries: entries.length,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes,
+      oldestUsedAt: used[0],
+      newestUsedAt: used[used.length - 1]
+    };
+  }
+
+  /**
+   * Borrar entradas viejas y, si hace falta, las menos usadas hasta quedar bajo el tamaño máximo
+   */
+  async prune(options: ImageCachePruneOptions = {}): Promise<{ removed: number; freedBytes: number }> {
+    if (options.all) {
+      const { entries, totalBytes } = await this.stats();
+      await fs.rm(this.config.dir, { recursive: true, force: true });
+      return { removed: entries, freedBytes: totalBytes };
+    }
+
+    const entries = (await this.listEntries()).sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+    const maxBytes = options.maxBytes ?? this.maxBytes;
+    const cutoff = options.olderThanDays !== undefined
+      ? new Date(Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined;
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let removed = 0;
+    let freedBytes = 0;
+
+    for (const entry of entries) {
+      const expired = cutoff !== undefined && entry.lastUsedAt < cutoff;
+      if (!expired && totalBytes <= maxBytes) {
+        continue;
+      }
+
+      const { dataPath, metaPath } = this.paths(entry.url);
+      await fs.rm(dataPath, { force: true });
+      await fs.rm(metaPath, { force: true });
+
+      totalBytes -= entry.size;
+      freedBytes += entry.size;
+      removed++;
+    }
+
+    return { removed, freedBytes };
+  }
+
+  private async listEntries(): Promise<ImageCacheEntry[]> {
+    if (!fsSync.existsSync(this.config.dir)) {
+      return [];
+    }
+
+    const files = (await fs.readdir(this.config.dir)).filter(file => file.endsWith('.json'));
+    const entries: ImageCacheEntry[] = [];
+
+    for (const file of files) {
+      try {
+        entries.push(JSON.parse(await fs.readFile(path.join(this.config.dir, file), 'utf8')));
+      } catch {
+        // Metadata corrupta: se ignora, la próxima descarga la reescribe
+      }
+    }
+
+    return entries;
+  }
+
+  private paths(url: string): { dataPath: string; metaPath: string } {
+    const hash = crypto.createHash('md5').update(url).digest('hex');
+    return {
+      dataPath: path.join(this.config.dir, `${hash}.bin`),
+      metaPath: path.join(this.config.dir, `${hash}.json`)
+    };
+  }
+
+  // Instancia con la configuración global (env + perfil)
+  static createDefault(): ImageCacheService {
+    return new ImageCacheService({ ...appConfig.images.cache });
+  }
+}
@@ -1,58 +1,182 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import axios from 'axios';
 import sharp from 'sharp';
-import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
 import { Logger } from '../utils/logger';
+import { config as appConfig } from '../config';
+import { KeyedSemaphore, RateLimiter, Semaphore } from '../utils/concurrency';
+import { ImageCacheConfig, ImageCacheService } from './ImageCacheService';
+import { ColorSwatch, ImageFailure, ImageFormat, ImageFormatSelection, ImageMetadataConfig, ImageQualityConfig, ImageQualityReport, ImageRendition, ProcessedImageVariant } from '../types';
+import { parseExif } from '../utils/exif';
+import { dHash } from '../utils/perceptualHash';
+import { extractPalette } from '../utils/colorPalette';
+import { structuralSimilarity } from '../utils/ssim';
+import { classifyConversionError, classifyDownloadError, isPermanentFailure } from '../utils/imageFailure';
+import { ImageQualityService } from './ImageQualityService';
+import { createStorageBackend, StorageBackend, StorageBackendName, StorageDeleteResult } from './storage';
 
 export interface ImageProcessorConfig {
-  supabaseUrl: string;
-  supabaseKey: string;
-  bucketName: string;
+  storageBackend: StorageBackendName; // Dónde se suben las imágenes convertidas
   tempDir: string;
   webpOptions: {
     quality: number;
     effort: number;
   };
+  avifOptions?: {
+    quality: number;
+    effort: number;
+  };
+  jpegOptions?: {
+    quality: number;
+    progressive: boolean;
+    mozjpeg: boolean;
+  };
+  formats?: ImageFormat[]; // Formatos de salida; el primero es el principal
+  formatSelection?: ImageFormatSelection; // all = todos; smallest = el más liviano que cumpla minSsim
+  minSsim?: number; // Similitud mínima con el origen (0-1) en modo smallest
   retryCount: number;
   timeout: number;
+  concurrency?: number; // Imágenes procesadas a la vez (1 = secuencial)
+  perHostConcurrency?: number; // Descargas simultáneas por host
+  requestsPerSecond?: number; // Tope global de descargas (0 = sin límite)
+  cache?: ImageCacheConfig; // Caché persistente de imágenes de origen
+  renditions?: Record<ImageRendition, number>; // Lado largo máximo por rendition
+  quality?: ImageQualityConfig; // Controles de resolución, contenido vacío, proporción, etc.
+  metadata?: ImageMetadataConfig; // Orientación EXIF, metadata publicada y perfil de color
+  dryRun?: boolean; // No descarga ni sube nada
 }
 
 export interface ProcessedImage {
   originalUrl: string;
-  supabaseUrl: string;
-  supabasePath: string;
+  storageUrl: string;
+  storageKey: string;
+  storageBackend?: StorageBackendName;
   width?: number;
   height?: number;
   fileSize?: number;
+  format?: ImageFormat; // Formato de storageUrl
+  contentHash?: string; // sha256 del archivo convertido, define la key en storage
+  reused?: boolean; // El objeto ya estaba en storage y no se volvió a subir
+  variants?: ProcessedImageVariant[]; // Una por rendition y formato; la original principal es la de storageUrl
+  quality?: ImageQualityReport; // Resultado de los controles sobre la imagen descargada
+  exif?: Record<string, Record<string, unknown>>; // EXIF original (cámara, fecha de captura), para procedencia
+  perceptualHash?: string; // dHash de 64 bits en hex (matching de duplicados por imagen)
+  palette?: ColorSwatch[]; // Colores dominantes (merchandising por color)
   success: boolean;
+  skipped?: boolean; // true en dry-run
   error?: string;
+  failure?: ImageFailure; // Categoría y status HTTP del error (se guarda en ProductImage)
 }
 
+// Objeto ya guardado en storage para un hash de contenido (p. ej. leído de ProductImage)
+export type StoredImage = {
+  storageUrl: string;
+  storageKey: string;
+  storageBackend: StorageBackendName;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+};
+
+export type StoredImageLookup = (contentHash: string, backend: StorageBackendName) => Promise<StoredImage | undefined>;
+
+// Imágenes encoladas en el pool, por URL original
+export type ScheduledImages = Map<string, Promise<ProcessedImage>>;
+
+type EncodedRendition = {
+  rendition: ImageRendition;
+  format: ImageFormat;
+  path: string;
+  width: number;
+  height: number;
+  fileSize: number;
+  ssim?: number;
+};
+
+const OUTPUT_FORMATS: Record<ImageFormat, { extension: string; contentType: string }> = {
+  webp: { extension: 'webp', contentType: 'image/webp' },
+  avif: { extension: 'avif', contentType: 'image/avif' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' }
+};
+
+const FORMAT_SELECTIONS: ImageFormatSelection[] = ['all', 'smallest'];
+
+type UploadResult = {
+  success: boolean;
+  publicUrl?: string;
+  key?: string;
+  reused?: boolean;
+  error?: string;
+};
+
 export class ImageProcessorService {
-  private supabase: SupabaseClient;
+  // Subidas en curso por backend/hash, compartidas entre instancias: dos imágenes iguales a la vez
+  // esperan la misma subida. Al terminar se quitan; después manda findStoredImage.
+  private static uploads = new Map<string, Promise<UploadResult>>();
+
+  // Sufijo de los archivos temporales: dos URLs que normalizan igual (http/https) no comparten archivo
+  private static tempFiles = 0;
+
+  private storage: StorageBackend;
+  private storedImageLookup?: StoredImageLookup;
   private config: ImageProcessorConfig;
+  private hostLimits: KeyedSemaphore;
+  private rateLimiter: RateLimiter;
+  private cache: ImageCacheService;
 
   constructor(config: ImageProcessorConfig) {
     this.config = config;
-    this.supabase = createClient(config.supabaseUrl, config.supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    this.hostLimits = new KeyedSemaphore(config.perHostConcurrency || 1);
+    this.rateLimiter = new RateLimiter(config.requestsPerSecond || 0);
+    this.cache = new ImageCacheService(config.cache || { enabled: false, dir: '', maxSizeMb: 0 });
+    this.storage = createStorageBackend(config.storageBackend);
+
+    const unsupported = this.outputFormats.filter(format => !OUTPUT_FORMATS[format]);
+    if (unsupported.length > 0) {
+      throw new Error(`Formato de imagen no soportado: ${unsupported.join(', ')} (webp, avif o jpeg)`);
+    }
+
+    // IMAGE_FORMAT_SELECTION llega del entorno sin validar (el perfil ya pasa por el schema)
+    if (config.formatSelection && !FORMAT_SELECTIONS.includes(config.formatSelection)) {
+      throw new Error(`Selección de formato no soportada: ${config.formatSelection} (${FORMAT_SELECTIONS.join(' o ')})`);
+    }
+  }
+
+  // Formatos a generar; el primero es el principal salvo en modo smallest
+  private get outputFormats(): ImageFormat[] {
+    return this.config.formats?.length ? [...new Set(this.config.formats)] : ['webp'];
+  }
+
+  get storageBackend(): StorageBackendName {
+    return this.storage.name;
+  }
+
+  /**
+   * Dónde buscar objetos ya subidos por hash (la base de datos, fuera de dry-run)
+   */
+  setStoredImageLookup(lookup: StoredImageLookup): void {
+    this.storedImageLookup = lookup;
+  }
+
+  get concurrency(): number {
+    return Math.max(1, this.config.concurrency || 1);
   }
 
   async initialize(): Promise<void> {
+    if (this.config.dryRun) {
+      Logger.info('ImageProcessorService en modo dry-run: no se descargarán ni subirán imágenes');
+      return;
+    }
+
     try {
       // Crear directorio temporal si no existe
       await fs.mkdir(this.config.tempDir, { recursive: true });
+      await this.cache.initialize();
 
-      // Verificar o crear bucket de Supabase
-      await this.ensureBucketExists();
+      // Verificar o crear el bucket / directorio del storage
+      await this.storage.initialize();
 
       Logger.success('ImageProcessorService inicializado correctamente');
     } catch (error: any) {
@@ -61,72 +185,23 @@ export class ImageProcessorService {
     }
   }
 
-  private async ensureBucketExists(): Promise<void> {
-    try {
-      // Intentar listar buckets primero
-      const { data: buckets, error: listError } = await this.supabase.storage.listBuckets();
-      
-      if (!listError && buckets) {
-        const bucketExists = buckets.some(bucket => bucket.name === this.config.bucketName);
-        
-        if (bucketExists) {
-          Logger.success(`Bucket ${this.config.bucketName} ya existe y está disponible`);
-          return;
-        }
-      } else {
-        Logger.warning(`No se pudo listar buckets: ${listError?.message}. Verificando con prueba directa...`);
-      }
-
-      // Si no pudimos listar buckets o no existe, intentar crear
-      Logger.info(`Intentando crear bucket ${this.config.bucketName}...`);
-      const { error: createError } = await this.supabase.storage.createBucket(this.config.bucketName, {
-        public: true,
-        allowedMimeTypes: ['image/webp', 'image/jpeg', 'image/png']
-      });
-      
-      if (createError) {
-        // Si el bucket ya existe, es OK
-        if (createError.message.includes('already exists') || 
-            createError.message.includes('resource already exists')) {
-          Logger.success(`Bucket ${this.config.bucketName} ya existía`);
-          return;
-        }
-        
-        // Si es un error de permisos, dar instrucciones específicas
-        if (createError.message.includes('row-level security policy') || 
-            createError.message.includes('RLS') ||
-            createError.message.includes('permission denied')) {
-          Logger.error(`Error de permisos. El bucket debe crearse manualmente.`);
-          Logger.info(`Ve a Supabase Dashboard → Storage → Create bucket: "${this.config.bucketName}"`);
-          throw createError;
-        }
-        
-        // Cualquier otro error
-        throw createError;
-      }
-      
-      Logger.success(`Bucket ${this.config.bucketName} creado exitosamente`);
-    } catch (error: any) {
-      // Si el error es que ya existe, tratarlo como éxito
-      if (error.message?.includes('already exists') || 
-          error.message?.includes('resource already exists')) {
-        Logger.success(`Bucket ${this.config.bucketName} confirmado (ya existía)`);
-        return;
-      }
-      
-      Logger.error(`Error verificando/creando bucket: ${error.message}`);
-      throw error;
+  /**
+   * Descargar, convertir y subir una imagen. La paleta solo se calcula si se pide
+   * (se usa la de la imagen principal del producto)
+   */
+  async processImage(imageUrl: string, options: { palette?: boolean } = {}): Promise<ProcessedImage> {
+    if (!imageUrl || typeof imageUrl !== 'string') {
+      return this.failedResult(imageUrl, { reason: 'invalidUrl', message: 'URL de imagen inválida' });
     }
-  }
 
-  async processImage(imageUrl: string): Promise<ProcessedImage> {
-    if (!imageUrl || typeof imageUrl !== 'string') {
+    if (this.config.dryRun) {
       return {
         originalUrl: imageUrl,
-        supabaseUrl: '',
-        supabasePath: '',
+        storageUrl: '',
+        storageKey: '',
         success: false,
-        error: 'URL de imagen inválida'
+        skipped: true,
+        error: 'dry-run'
       };
     }
 
@@ -136,76 +211,182 @@ export class ImageProcessorService {
       // 1. Descargar imagen
       const downloadResult = await this.downloadImage(imageUrl);
       if (!downloadResult.success || !downloadResult.filepath) {
-        return {
-          originalUrl: imageUrl,
-          supabaseUrl: '',
-          supabasePath: '',
-          success: false,
-          error: downloadResult.error || 'Error descargando imagen'
-        };
+        return this.failedResult(imageUrl, downloadResult.failure || { reason: 'unknown', message: 'Error descargando imagen' });
       }
 
-      // 2. Convertir a WebP y obtener metadata
-      const conversionResult = await this.convertToWebP(downloadResult.filepath);
-      if (!conversionResult.success || !conversionResult.webpPath) {
-        // Limpiar archivo temporal
-        await this.cleanupFile(downloadResult.filepath);
-        return {
-          originalUrl: imageUrl,
-          supabaseUrl: '',
-          supabasePath: '',
-          success: false,
-          error: conversionResult.error || 'Error convirtiendo a WebP'
-        };
+      // 2. Controles de calidad sobre el archivo de origen
+      let quality: (ImageQualityReport & { truncated: boolean }) | undefined;
+      if (this.config.quality?.enabled) {
+        try {
+          quality = await ImageQualityService.inspect(downloadResult.filepath, this.config.quality);
+        } catch (error: any) {
+          await this.cleanupFile(downloadResult.filepath);
+          return this.failedResult(imageUrl, { reason: 'decode', message: `La imagen no se puede decodificar: ${error.message}` });
+        }
+
+        if (quality.status !== 'ok') {
+          Logger.warning(`Imagen marcada (${quality.status}): ${imageUrl} - ${quality.issues.map(issue => issue.message).join('; ')}`);
+        }
       }
 
-      // 3. Subir a Supabase
-      const uploadResult = await this.uploadToSupabase(conversionResult.webpPath);
-      if (!uploadResult.success || !uploadResult.publicUrl) {
+      // 3. Convertir cada rendition a los formatos de salida y obtener metadata
+      const conversionResult = await this.convertImage(downloadResult.filepath, quality?.truncated);
+      const renditionPaths = (conversionResult.renditions || []).map(rendition => rendition.path);
+      const original = conversionResult.renditions?.find(rendition =>
+        rendition.rendition === 'original' && rendition.format === conversionResult.format);
+      if (!conversionResult.success || !original) {
         // Limpiar archivos temporales
         await this.cleanupFile(downloadResult.filepath);
-        await this.cleanupFile(conversionResult.webpPath);
-        return {
-          originalUrl: imageUrl,
-          supabaseUrl: '',
-          supabasePath: '',
-          success: false,
-          error: uploadResult.error || 'Error subiendo a Supabase'
-        };
+        await Promise.all(renditionPaths.map(renditionPath => this.cleanupFile(renditionPath)));
+        return this.failedResult(imageUrl, conversionResult.failure || { reason: 'conversion', message: conversionResult.error || 'Error convirtiendo la imagen' });
+      }
+
+      // Hash perceptual de la imagen ya orientada, para detectar la misma foto entre fuentes
+      const perceptualHash = await dHash(original.path).catch(() => undefined);
+      const palette = options.palette ? await extractPalette(original.path).catch(() => undefined) : undefined;
+
+      // 4. Subir cada rendition al storage (o reutilizar el objeto si el contenido ya existe)
+      const variants: ProcessedImageVariant[] = [];
+      let reused = false;
+      let uploadError: string | undefined;
+
+      for (const rendition of conversionResult.renditions!) {
+        const contentHash = await this.hashFile(rendition.path);
+        const uploadResult = await this.storeByHash(contentHash, rendition.path, rendition.format);
+        if (!uploadResult.success || !uploadResult.publicUrl) {
+          uploadError = uploadResult.error || 'Error subiendo al storage';
+          break;
+        }
+
+        if (rendition === original) {
+          reused = Boolean(uploadResult.reused);
+        }
+        variants.push({
+          rendition: rendition.rendition,
+          format: rendition.format,
+          ssim: rendition.ssim,
+          storageUrl: uploadResult.publicUrl,
+          storageKey: uploadResult.key ?? '',
+          storageBackend: this.storage.name,
+          width: rendition.width,
+          height: rendition.height,
+          fileSize: rendition.fileSize,
+          contentHash
+        });
       }
 
-      // 4. Limpiar archivos temporales
+      // 5. Limpiar archivos temporales
       await this.cleanupFile(downloadResult.filepath);
-      await this.cleanupFile(conversionResult.webpPath);
+      await Promise.all(renditionPaths.map(renditionPath => this.cleanupFile(renditionPath)));
+
+      if (uploadError) {
+        return this.failedResult(imageUrl, { reason: 'upload', message: uploadError });
+      }
 
-      Logger.success(`Imagen procesada exitosamente: ${imageUrl} -> ${uploadResult.publicUrl}`);
+      const stored = variants.find(variant => variant.rendition === 'original' && variant.format === original.format)!;
+      Logger.success(`Imagen procesada exitosamente: ${imageUrl} -> ${stored.storageUrl}`);
 
       return {
         originalUrl: imageUrl,
-        supabaseUrl: uploadResult.publicUrl,
-        supabasePath: uploadResult.path ?? '',
+        storageUrl: stored.storageUrl,
+        storageKey: stored.storageKey,
+        storageBackend: this.storage.name,
         width: conversionResult.width,
         height: conversionResult.height,
-        fileSize: conversionResult.fileSize,
+        fileSize: stored.fileSize,
+        format: original.format,
+        contentHash: stored.contentHash,
+        reused,
+        variants,
+        quality: quality && { status: quality.status, issues: quality.issues },
+        exif: conversionResult.exif,
+        perceptualHash,
+        palette,
         success: true
       };
 
     } catch (error: any) {
       Logger.error(`Error procesando imagen ${imageUrl}: ${error.message}`);
-      return {
-        originalUrl: imageUrl,
-        supabaseUrl: '',
-        supabasePath: '',
-        success: false,
-        error: error.message
-      };
+      return this.failedResult(imageUrl, { reason: 'unknown', message: error.message });
+    }
+  }
+
+  private failedResult(imageUrl: string, failure: ImageFailure): ProcessedImage {
+    return {
+      originalUrl: imageUrl,
+      storageUrl: '',
+      storageKey: '',
+      success: false,
+      error: failure.message,
+      failure
+    };
+  }
+
+  /**
+   * Procesar una imagen salvo que ya se haya subido en una corrida anterior
+   */
+  async processImageOrReuse(
+    imageUrl: string,
+    previous: ProcessedImage[] = [],
+    options: { palette?: boolean } = {}
+  ): Promise<ProcessedImage> {
+    const reused = previous.find(image => image.originalUrl === imageUrl && image.success);
+    if (reused) {
+      Logger.info(`Imagen ya procesada en una corrida anterior: ${imageUrl}`);
+      return reused;
     }
+
+    return this.processImage(imageUrl, options);
+  }
+
+  /**
+   * Procesar varias imágenes con el pool de concurrencia configurado.
+   * Cada URL se procesa una sola vez; el resultado se indexa por URL original.
+   * primaryUrls: imágenes principales, las únicas a las que se les saca la paleta.
+   */
+  async processImages(
+    imageUrls: string[],
+    previous: ProcessedImage[] = [],
+    primaryUrls: string[] = []
+  ): Promise<Map<string, ProcessedImage>> {
+    return ImageProcessorService.collectImages(this.scheduleImages(imageUrls, previous, primaryUrls), imageUrls);
+  }
+
+  /**
+   * Encolar todas las imágenes en un solo pool sin esperarlas: los converters toman
+   * los resultados de cada registro en orden mientras el pool sigue con los siguientes
+   */
+  scheduleImages(
+    imageUrls: string[],
+    previous: ProcessedImage[] = [],
+    primaryUrls: string[] = []
+  ): ScheduledImages {
+    const pool = new Semaphore(this.concurrency);
+    const primary = new Set(primaryUrls);
+
+    return new Map([...new Set(imageUrls)].map(url => [
+      url,
+      // Sin rechazos: una promesa que falla antes de que se la espere terminaría el proceso
+      pool.run(() => this.processImageOrReuse(url, previous, { palette: primary.has(url) }))
+        .catch((error: any) => this.failedResult(url, { reason: 'unknown', message: error.message }))
+    ]));
+  }
+
+  /**
+   * Esperar las imágenes encoladas de un conjunto de URLs
+   */
+  static async collectImages(scheduled: ScheduledImages, imageUrls: string[]): Promise<Map<string, ProcessedImage>> {
+    const urls = [...new Set(imageUrls)].filter(url => scheduled.has(url));
+    const results = await Promise.all(urls.map(url => scheduled.get(url)!));
+
+    return new Map(urls.map((url, index) => [url, results[index]]));
   }
 
   private async downloadImage(url: string, retryCount = 0): Promise<{
     success: boolean;
     filepath?: string;
     error?: string;
+    failure?: ImageFailure;
   }> {
     try {
       // Limpiar y validar URL
@@ -218,7 +399,7 @@ export class ImageProcessorService {
 
       // Crear hash único para el nombre de archivo
       const hash = crypto.createHash('md5').update(url).digest('hex');
-      const filename = `${hash}.tmp`;
+      const filename = `${hash}-${++ImageProcessorService.tempFiles}.tmp`;
       const filepath = path.join(this.config.tempDir, filename);
 
       // Headers que simulan un navegador
@@ -232,29 +413,53 @@ export class ImageProcessorService {
         'Pragma': 'no-cache'
       };
 
-      const response = await axios({
-        method: 'GET',
-        url: url,
-        responseType: 'arraybuffer',
-        timeout: this.config.timeout,
-        maxRedirects: 5,
-        headers: headers,
-        validateStatus: status => status < 400
+      // Si la imagen está en caché se pide solo si cambió (ETag / Last-Modified)
+      const cached = await this.cache.get(url);
+
+      const response = await this.hostLimits.run(this.hostOf(url), async () => {
+        await this.rateLimiter.wait();
+        return axios({
+          method: 'GET',
+          url: url,
+          responseType: 'arraybuffer',
+          timeout: this.config.timeout,
+          maxRedirects: 5,
+          headers: { ...headers, ...this.cache.conditionalHeaders(cached) },
+          validateStatus: status => status < 400
+        });
       });
 
-      // Verificar que la respuesta sea una imagen
+      if (response.status === 304) {
+        if (!cached) {
+          throw new Error('Respuesta 304 sin copia en caché');
+        }
+        Logger.info(`Imagen sin cambios en origen, se usa la caché: ${url}`);
+        await fs.writeFile(filepath, await this.cache.read(url));
+        await this.cache.touch(url, cached);
+        return { success: true, filepath };
+      }
+
+      // Verificar que la respuesta sea una imagen (reintentar no cambia el contenido)
       const contentType = response.headers['content-type'] || '';
       if (!contentType.startsWith('image/')) {
-        throw new Error(`El contenido no es una imagen: ${contentType}`);
+        const message = `El contenido no es una imagen: ${contentType}`;
+        Logger.error(`Error al descargar imagen ${url}: ${message}`);
+        return { success: false, error: message, failure: { reason: 'notAnImage', message, httpStatus: response.status } };
       }
 
-      // Guardar archivo temporal
+      // Guardar archivo temporal y copia en caché
       await fs.writeFile(filepath, response.data);
+      await this.cache.store(url, Buffer.from(response.data), {
+        etag: response.headers['etag'] || undefined,
+        lastModified: response.headers['last-modified'] || undefined,
+        contentType
+      });
       
       return { success: true, filepath };
 
     } catch (error: any) {
-      if (retryCount < this.config.retryCount) {
+      const failure = classifyDownloadError(error);
+      if (retryCount < this.config.retryCount && !isPermanentFailure(failure.reason)) {
         const waitTime = 2000 * (retryCount + 1);
         Logger.warning(`Error descargando ${url}, reintentando (${retryCount + 1}/${this.config.retryCount}) después de ${waitTime}ms...`);
         await new Promise(resolve => setTimeout(resolve, waitTime));
@@ -262,84 +467,251 @@ export class ImageProcessorService {
       }
 
       Logger.error(`Error al descargar imagen ${url}: ${error.message}`);
-      return { success: false, error: error.message };
+      return { success: false, error: error.message, failure };
+    }
+  }
+
+  private hostOf(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
     }
   }
 
-  private async convertToWebP(filepath: string): Promise<{
+  /**
+   * Generar cada rendition (lado largo acotado, nunca se amplía) en los formatos de salida.
+   * En modo smallest la original se codifica en todos y se sigue solo con el más liviano
+   * que conserve el SSIM mínimo. width/height son los de la imagen de origen ya orientada.
+   */
+  private async convertImage(filepath: string, truncated = false): Promise<{
     success: boolean;
-    webpPath?: string;
+    renditions?: EncodedRendition[];
+    format?: ImageFormat; // Formato principal (el de storageUrl)
     width?: number;
     height?: number;
-    fileSize?: number;
+    exif?: Record<string, Record<string, unknown>>;
     error?: string;
+    failure?: ImageFailure;
   }> {
+    const renditions: EncodedRendition[] = [];
+    const options = this.config.metadata || { autoRotate: false, strip: 'all', colorSpace: 'keep', storeExif: false };
+
     try {
-      const webpFilename = `${path.basename(filepath, path.extname(filepath))}.webp`;
-      const webpPath = path.join(this.config.tempDir, webpFilename);
+      const baseName = path.basename(filepath, path.extname(filepath));
+
+      // Un archivo truncado se convierte con lo que se pudo decodificar (queda marcado como rechazado)
+      const input: sharp.SharpOptions = truncated ? { failOn: 'none' } : {};
 
       // Obtener metadata de la imagen original
-      const metadata = await sharp(filepath).metadata();
+      const metadata = await sharp(filepath, input).metadata();
+      const exif = parseExif(metadata.exif);
+      const oriented = options.autoRotate ? metadata.autoOrient : metadata;
+
+      const encode = async (rendition: ImageRendition, maxEdge: number, format: ImageFormat): Promise<EncodedRendition> => {
+        const outputPath = path.join(this.config.tempDir, `${baseName}-${rendition}.${OUTPUT_FORMATS[format].extension}`);
+        let pipeline = sharp(filepath, input);
+        if (options.autoRotate) {
+          pipeline = pipeline.autoOrient();
+        }
+        if (maxEdge > 0) {
+          pipeline = pipeline.resize({ width: maxEdge, height: maxEdge, fit: 'inside', withoutEnlargement: true });
+        }
+        pipeline = this.applyOutputMetadata(pipeline, options, exif);
+
+        const info = await this.applyOutputFormat(pipeline, format).toFile(outputPath);
+        const encoded = { rendition, format, path: outputPath, width: info.width, height: info.height, fileSize: info.size };
+        renditions.push(encoded);
+        return encoded;
+      };
+
+      const [[, originalEdge], ...scaled] = this.getRenditions();
+      let formats = this.outputFormats;
+
+      for (const format of formats) {
+        await encode('original', originalEdge, format);
+      }
 
-      // Convertir a WebP
-      const info = await sharp(filepath)
-        .webp(this.config.webpOptions)
-        .toFile(webpPath);
+      if (this.config.formatSelection === 'smallest' && formats.length > 1) {
+        for (const candidate of renditions) {
+          candidate.ssim = await structuralSimilarity(filepath, candidate.path, { autoOrient: options.autoRotate });
+        }
+
+        const chosen = this.pickSmallestFormat(renditions);
+        const discarded = renditions.splice(0, renditions.length, chosen).filter(candidate => candidate !== chosen);
+        await Promise.all(discarded.map(candidate => this.cleanupFile(candidate.path)));
+        formats = [chosen.format];
+      }
+
+      for (const [rendition, maxEdge] of scaled) {
+        for (const format of formats) {
+          await encode(rendition, maxEdge, format);
+        }
+      }
 
       return {
         success: true,
-        webpPath,
-        width: metadata.width,
-        height: metadata.height,
-        fileSize: info.size
+        renditions,
+        format: formats[0],
+        width: oriented?.width,
+        height: oriented?.height,
+        exif: options.storeExif ? exif : undefined
       };
 
     } catch (error: any) {
-      Logger.error(`Error convirtiendo imagen a WebP ${filepath}: ${error.message}`);
-      return { success: false, error: error.message };
+      Logger.error(`Error convirtiendo imagen ${filepath}: ${error.message}`);
+      // Sin controles de calidad, una imagen ilegible recién falla aquí
+      return { success: false, renditions, error: error.message, failure: classifyConversionError(error) };
     }
   }
 
-  private async uploadToSupabase(filepath: string): Promise<{
-    success: boolean;
-    publicUrl?: string;
-    path?: string;
-    error?: string;
-  }> {
-    try {
-      // Generar nombre único para la imagen
-      const filename = `products/${uuidv4()}.webp`;
-      
-      // Leer archivo
-      const fileData = await fs.readFile(filepath);
+  /**
+   * El formato más liviano con SSIM >= minSsim; si ninguno llega, el más fiel al origen
+   */
+  private pickSmallestFormat(candidates: EncodedRendition[]): EncodedRendition {
+    const minSsim = this.config.minSsim ?? 0.95;
+    const acceptable = candidates.filter(candidate => (candidate.ssim ?? 0) >= minSsim);
+
+    if (acceptable.length === 0) {
+      const best = [...candidates].sort((a, b) => (b.ssim ?? 0) - (a.ssim ?? 0))[0];
+      Logger.warning(`Ningún formato llega a SSIM ${minSsim}; se usa ${best.format} (SSIM ${best.ssim?.toFixed(3)})`);
+      return best;
+    }
 
-      // Subir a Supabase
-      const { data, error } = await this.supabase.storage
-        .from(this.config.bucketName)
-        .upload(filename, fileData, {
-          contentType: 'image/webp',
-          upsert: true
-        });
+    return [...acceptable].sort((a, b) => a.fileSize - b.fileSize)[0];
+  }
+
+  /**
+   * Codificador y opciones de cada formato. JPEG no tiene transparencia: se aplana sobre blanco.
+   */
+  private applyOutputFormat(pipeline: sharp.Sharp, format: ImageFormat): sharp.Sharp {
+    switch (format) {
+      case 'avif':
+        return pipeline.avif(this.config.avifOptions);
+      case 'jpeg':
+        return pipeline.flatten({ background: '#ffffff' }).jpeg(this.config.jpegOptions);
+      default:
+        return pipeline.webp(this.config.webpOptions);
+    }
+  }
+
+  /**
+   * Perfil de color y metadata de la imagen publicada. Sin keepExif/withExif sharp no escribe EXIF,
+   * así que por defecto no se publican GPS ni datos de cámara.
+   */
+  private applyOutputMetadata(
+    pipeline: sharp.Sharp,
+    options: ImageMetadataConfig,
+    exif?: Record<string, Record<string, unknown>>
+  ): sharp.Sharp {
+    // Los escaneos en Adobe RGB / Display P3 se ven apagados si se publican sin convertir
+    pipeline = options.colorSpace === 'srgb'
+      ? pipeline.toColourspace('srgb').withIccProfile('srgb')
+      : pipeline.keepIccProfile();
+
+    if (options.strip === 'none') {
+      return pipeline.keepExif();
+    }
+
+    if (options.strip === 'keepCopyright') {
+      const credits = Object.fromEntries(['Artist', 'Copyright']
+        .filter(tag => typeof exif?.Image?.[tag] === 'string')
+        .map(tag => [tag, exif!.Image[tag] as string]));
+      if (Object.keys(credits).length > 0) {
+        return pipeline.withExif({ IFD0: credits });
+      }
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Renditions configuradas (0 = desactivada); la original siempre se genera, 0 = sin acotar
+   */
+  private getRenditions(): Array<[ImageRendition, number]> {
+    const sizes = this.config.renditions || { thumbnail: 0, medium: 0, large: 0, original: 0 };
+    const scaled = (['thumbnail', 'medium', 'large'] as ImageRendition[])
+      .filter(rendition => sizes[rendition] > 0)
+      .map(rendition => [rendition, sizes[rendition]] as [ImageRendition, number]);
+
+    return [['original', sizes.original], ...scaled];
+  }
+
+  private async hashFile(filepath: string): Promise<string> {
+    const data = await fs.readFile(filepath);
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  /**
+   * Guardar la imagen bajo una key derivada de su hash; si ese contenido ya se subió
+   * (en este proceso o en una corrida anterior), se reutiliza el objeto existente
+   */
+  private storeByHash(contentHash: string, filepath: string, format: ImageFormat): Promise<UploadResult> {
+    const key = `${this.storage.name}/${contentHash}`;
+    const inFlight = ImageProcessorService.uploads.get(key);
+    if (inFlight) {
+      return inFlight.then(result => ({ ...result, reused: result.success }));
+    }
+
+    const upload = this.findStoredImage(contentHash).then(stored => {
+      if (stored) {
+        Logger.info(`Contenido ya almacenado, se reutiliza ${stored.storageKey}`);
+        return { success: true, publicUrl: stored.storageUrl, key: stored.storageKey, reused: true };
+      }
+      const { extension, contentType } = OUTPUT_FORMATS[format];
+      return this.uploadToStorage(filepath, `products/${contentHash}.${extension}`, contentType);
+    });
+
+    ImageProcessorService.uploads.set(key, upload);
+    // Guardarlas todas crecería sin límite y escondería los objetos borrados después (storage gc)
+    upload
+      .catch(() => undefined)
+      .then(() => ImageProcessorService.uploads.delete(key));
+
+    return upload;
+  }
+
+  private async findStoredImage(contentHash: string): Promise<StoredImage | undefined> {
+    if (!this.storedImageLookup) {
+      return undefined;
+    }
 
-      if (error) throw error;
+    try {
+      return await this.storedImageLookup(contentHash, this.storage.name);
+    } catch (error: any) {
+      Logger.warning(`No se pudo buscar el hash ${contentHash}: ${error.message}`);
+      return undefined;
+    }
+  }
 
-      // Obtener URL pública
-      const { data: urlData } = this.supabase.storage
-        .from(this.config.bucketName)
-        .getPublicUrl(filename);
+  private async uploadToStorage(filepath: string, key: string, contentType: string): Promise<UploadResult> {
+    try {
+      const fileData = await fs.readFile(filepath);
+      await this.storage.upload(key, fileData, contentType);
 
       return {
         success: true,
-        publicUrl: urlData.publicUrl,
-        path: filename
+        publicUrl: this.storage.getPublicUrl(key),
+        key
       };
 
     } catch (error: any) {
-      Logger.error(`Error subiendo imagen a Supabase ${filepath}: ${error.message}`);
+      Logger.error(`Error subiendo imagen al storage (${this.storage.name}) ${filepath}: ${error.message}`);
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Borrar objetos del storage configurado
+   */
+  async deleteFromStorage(keys: string[]): Promise<StorageDeleteResult> {
+    if (this.config.dryRun) {
+      return { deleted: 0, errors: [] };
+    }
+
+    return this.storage.delete(keys);
+  }
+
   private async cleanupFile(filepath: string): Promise<void> {
     try {
       if (fsSync.existsSync(filepath)) {
@@ -351,6 +723,10 @@ export class ImageProcessorService {
   }
 
   async cleanup(): Promise<void> {
+    if (this.config.dryRun) {
+      return;
+    }
+
     try {
       if (fsSync.existsSync(this.config.tempDir)) {
         await fs.rm(this.config.tempDir, { recursive: true, force: true });
@@ -358,30 +734,43 @@ export class ImageProcessorService {
     } catch (error) {
       Logger.warning('Error durante la limpieza de archivos temporales');
     }
+
+    // La caché persiste entre corridas, pero no pasa del tamaño configurado
+    if (this.cache.enabled) {
+      try {
+        const { removed, freedBytes } = await this.cache.prune();
+        if (removed > 0) {
+          Logger.info(`Caché de imágenes: ${removed} entradas borradas (${Math.round(freedBytes / 1024)} KB)`);
+        }
+      } catch (error: any) {
+        Logger.warning(`Error podando la caché de imágenes: ${error.message}`);
+      }
+    }
   }
 
-  // Método estático para crear una instancia con configuración por defecto
-  static createDefault(): ImageProcessorService {
+  // Método estático para crear una instancia con la configuración global (env + perfil)
+  static createDefault(overrides: Partial<ImageProcessorConfig> = {}): ImageProcessorService {
     const config: ImageProcessorConfig = {
-      supabaseUrl: process.env.SUPABASE_URL!,
-      supabaseKey: process.env.SUPABASE_KEY!,
-      bucketName: 'impulso-shop-images',
-      tempDir: './temp-images',
-      webpOptions: {
-        quality: 85,
-        effort: 4
-      },
-      retryCount: 3,
-      timeout: 30000
+      storageBackend: appConfig.storage.backend,
+      tempDir: appConfig.images.tempDir,
+      webpOptions: { ...appConfig.images.webpOptions },
+      avifOptions: { ...appConfig.images.avifOptions },
+      jpegOptions: { ...appConfig.images.jpegOptions },
+      formats: [...appConfig.images.formats],
+      formatSelection: appConfig.images.formatSelection,
+      minSsim: appConfig.images.minSsim,
+      retryCount: appConfig.images.retryCount,
+      timeout: appConfig.images.timeout,
+      concurrency: appConfig.images.concurrency,
+      perHostConcurrency: appConfig.images.perHostConcurrency,
+      requestsPerSecond: appConfig.images.requestsPerSecond,
+      cache: { ...appConfig.images.cache },
+      renditions: { ...appConfig.images.renditions },
+      quality: { ...appConfig.images.quality },
+      metadata: { ...appConfig.images.metadata },
+      ...overrides
     };
 
-    // Validación ya se hace en index.ts, pero por seguridad
-    if (!config.supabaseUrl || !config.supabaseKey) {
-      throw new Error(`Variables de entorno de Supabase no configuradas correctamente:
-        SUPABASE_URL: ${config.supabaseUrl ? 'OK' : 'MISSING'}
-        SUPABASE_KEY: ${config.supabaseKey ? 'OK' : 'MISSING'}`);
-    }
-
     return new ImageProcessorService(config);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,152 @@
+import sharp from 'sharp';
+import * as fs from 'fs/promises';
+import { ImageQualityConfig, ImageQualityIssue, ImageQualityReport, ImageQualityStatus, ProcessedImage } from '../types';
+
+/**
+ * Controles de calidad sobre la imagen descargada (antes de convertirla)
+ */
+export class ImageQualityService {
+  // Etiquetas para check-images y los motivos de draft
+  static readonly ISSUE_LABELS: Record<ImageQualityIssue['code'], string> = {
+    lowResolution: 'Low resolution',
+    blank: 'Blank or uniform',
+    extremeAspectRatio: 'Extreme aspect ratio',
+    truncated: 'Truncated file',
+    fileTooSmall: 'File too small',
+    fileTooLarge: 'File too large',
+    fileSizeOutlier: 'File size outlier'
+  };
+
+  // Con menos imágenes los cuartiles no dicen nada
+  private static readonly MIN_OUTLIER_SAMPLE = 20;
+
+  /**
+   * Inspeccionar un archivo. Si está truncado, la conversión tiene que hacerse con failOn 'none'
+   * (sharp falla por defecto); si no se puede decodificar en absoluto, se lanza el error.
+   */
+  static async inspect(filepath: string, config: ImageQualityConfig): Promise<ImageQualityReport & { truncated: boolean }> {
+    const issues: ImageQualityIssue[] = [];
+
+    let truncated = false;
+    let stats: sharp.Stats;
+    try {
+      stats = await sharp(filepath, { failOn: 'truncated' }).stats();
+    } catch {
+      // Puede ser un archivo cortado que sharp aún decodifica a medias
+      stats = await sharp(filepath, { failOn: 'none' }).stats();
+      truncated = true;
+      issues.push({ code: 'truncated', severity: 'reject', message: 'File is truncated or corrupt; only part of it decodes' });
+    }
+
+    const metadata = await sharp(filepath, { failOn: 'none' }).metadata();
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    const shortEdge = Math.min(width, height);
+    const longEdge = Math.max(width, height);
+
+    if (shortEdge < config.minShortEdge) {
+      issues.push({
+        code: 'lowResolution',
+        severity: 'reject',
+        message: `${width}x${height}px, short edge below ${config.minShortEdge}px`
+      });
+    }
+
+    if (shortEdge > 0 && longEdge / shortEdge > config.maxAspectRatio) {
+      issues.push({
+        code: 'extremeAspectRatio',
+        severity: 'warning',
+        message: `Aspect ratio ${(longEdge / shortEdge).toFixed(1)}:1 exceeds ${config.maxAspectRatio}:1`
+      });
+    }
+
+    // Canales de color (sin alfa); una imagen transparente por completo también cuenta como vacía
+    const colorChannels = stats.channels.slice(0, metadata.hasAlpha ? -1 : undefined);
+    const maxStdDev = Math.max(...colorChannels.map(channel => channel.stdev));
+    const alpha = metadata.hasAlpha ? stats.channels[stats.channels.length - 1] : undefined;
+    if (maxStdDev < config.uniformStdDev || alpha?.max === 0) {
+      issues.push({
+        code: 'blank',
+        severity: 'reject',
+        message: alpha?.max === 0 ? 'Image is fully transparent' : `Near-uniform content (std dev ${maxStdDev.toFixed(1)})`
+      });
+    }
+
+    const { size } = await fs.stat(filepath);
+    if (size < config.minFileSizeKb * 1024) {
+      issues.push({
+        code: 'fileTooSmall',
+        severity: 'warning',
+        message: `${(size / 1024).toFixed(1)} KB, below ${config.minFileSizeKb} KB`
+      });
+    } else if (size > config.maxFileSizeMb * 1024 * 1024) {
+      issues.push({
+        code: 'fileTooLarge',
+        severity: 'warning',
+        message: `${(size / 1024 / 1024).toFixed(1)} MB, above ${config.maxFileSizeMb} MB`
+      });
+    }
+
+    return { status: this.statusOf(issues), issues, truncated };
+  }
+
+  /**
+   * Cercas de Tukey (Q1 - k·IQR, Q3 + k·IQR) sobre los tamaños de un conjunto de imágenes.
+   * Se calculan sobre el logaritmo: el tamaño de un archivo varía en proporción, no en bytes.
+   */
+  static fileSizeFences(sizes: number[], k: number): { low: number; high: number } | undefined {
+    const logs = sizes.filter(size => size > 0).map(size => Math.log(size)).sort((a, b) => a - b);
+    if (k <= 0 || logs.length < this.MIN_OUTLIER_SAMPLE) {
+      return undefined;
+    }
+
+    const quantile = (q: number): number => {
+      const position = (logs.length - 1) * q;
+      const base = Math.floor(position);
+      const next = logs[Math.min(base + 1, logs.length - 1)];
+      return logs[base] + (next - logs[base]) * (position - base);
+    };
+    const q1 = quantile(0.25);
+    const q3 = quantile(0.75);
+    return { low: Math.exp(q1 - k * (q3 - q1)), high: Math.exp(q3 + k * (q3 - q1)) };
+  }
+
+  static fileSizeOutlier(size: number, fences: { low: number; high: number }): ImageQualityIssue | undefined {
+    if (size >= fences.low && size <= fences.high) {
+      return undefined;
+    }
+
+    const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+    return {
+      code: 'fileSizeOutlier',
+      severity: 'warning',
+      message: `${kb(size)}, outside the usual ${kb(fences.low)} - ${kb(fences.high)} of the catalogue`
+    };
+  }
+
+  static statusOf(issues: ImageQualityIssue[]): ImageQualityStatus {
+    if (issues.some(issue => issue.severity === 'reject')) {
+      return 'rejected';
+    }
+    return issues.length > 0 ? 'warning' : 'ok';
+  }
+
+  /**
+   * ¿Ninguna de las imágenes procesadas del producto sirve? Las que no se pudieron descargar
+   * o se procesaron antes de estos controles no cuentan como rechazadas.
+   */
+  static hasNoAcceptableImage(images: Array<Pick<ProcessedImage, 'success' | 'quality'>>): boolean {
+    const inspected = images.filter(image => image.success);
+    return inspected.length > 0 && inspected.every(image => image.quality?.status === 'rejected');
+  }
+
+  /**
+   * Motivo de draft para un producto cuyas imágenes fueron todas rechazadas
+   */
+  static draftReason(images: Array<Pick<ProcessedImage, 'quality'>>): string {
+    const codes = [...new Set(images.flatMap(image => (image.quality?.issues || [])
+      .filter(issue => issue.severity === 'reject')
+      .map(issue => this.ISSUE_LABELS[issue.code])))];
+    return `No acceptable image (${codes.join(', ')})`;
+  }
+}
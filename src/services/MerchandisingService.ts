@@ -0,0 +1,139 @@
+import { Product } from '@prisma/client';
+import { config } from '../config';
+import { ArtworkOrientation, ColorSwatch } from '../types';
+
+const rgbOf = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Distancia "redmean": una aproximación barata a la percepción sin pasar a Lab
+const colorDistance = (a: string, b: string): number => {
+  const [r1, g1, b1] = rgbOf(a);
+  const [r2, g2, b2] = rgbOf(b);
+  const meanRed = (r1 + r2) / 2;
+  return Math.sqrt(
+    (2 + meanRed / 256) * (r1 - r2) ** 2 + 4 * (g1 - g2) ** 2 + (2 + (255 - meanRed) / 256) * (b1 - b2) ** 2
+  );
+};
+
+// 0 = gris, 1 = color puro
+const chroma = (hex: string): number => {
+  const rgb = rgbOf(hex);
+  return (Math.max(...rgb) - Math.min(...rgb)) / 255;
+};
+
+/**
+ * Color y formato de las obras para filtros de la tienda (vocabulario en config.merchandising)
+ */
+export class MerchandisingService {
+  /**
+   * Formato según las proporciones de la imagen principal
+   */
+  static orientationOf(width?: number, height?: number): ArtworkOrientation | undefined {
+    if (!width || !height) {
+      return undefined;
+    }
+
+    const ratio = Math.max(width, height) / Math.min(width, height);
+    if (ratio <= 1 + config.merchandising.squareTolerance) {
+      return 'square';
+    }
+    // Panorámico solo a lo ancho; una obra muy alta sigue siendo vertical
+    if (width > height && ratio >= config.merchandising.panoramicRatio) {
+      return 'panoramic';
+    }
+    return height > width ? 'portrait' : 'landscape';
+  }
+
+  /**
+   * Nombres del vocabulario para una paleta, del color con más presencia al de menos.
+   * Una obra sin croma se nombra también como monocromo.
+   */
+  static colorNames(palette: ColorSwatch[] = []): string[] {
+    const { colors, minShare, maxColors, monochromeChroma, monochromeName } = config.merchandising;
+    const references = Object.entries(colors).flatMap(([name, hexes]) => hexes.map(hex => ({ name, hex })));
+    if (palette.length === 0 || references.length === 0) {
+      return [];
+    }
+
+    const shares = new Map<string, number>();
+    palette
+      .filter(swatch => swatch.share >= minShare)
+      .forEach(swatch => {
+        const nearest = references.reduce((best, reference) =>
+          colorDistance(swatch.hex, reference.hex) < colorDistance(swatch.hex, best.hex) ? reference : best);
+        shares.set(nearest.name, (shares.get(nearest.name) || 0) + swatch.share);
+      });
+
+    const names = [...shares.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([name]) => name)
+      .slice(0, maxColors);
+
+    const totalShare = palette.reduce((sum, swatch) => sum + swatch.share, 0);
+    const meanChroma = palette.reduce((sum, swatch) => sum + chroma(swatch.hex) * swatch.share, 0) / (totalShare || 1);
+
+    return meanChroma < monochromeChroma ? [monochromeName, ...names] : names;
+  }
+
+  /**
+   * Tags de color y formato de un producto (vacío si merchandising.tags está apagado)
+   */
+  static tagsFor(product: Pick<Product, 'dominantColors' | 'orientation'>): string[] {
+    if (!config.merchandising.tags) {
+      return [];
+    }
+
+    const { colorTagPrefix, orientationTagPrefix } = config.merchandising;
+    const orientation = this.orientationName(product);
+
+    return [
+      ...this.colorNames((product.dominantColors as ColorSwatch[] | null) || []).map(name => `${colorTagPrefix}${name}`),
+      ...(orientation ? [`${orientationTagPrefix}${orientation}`] : [])
+    ];
+  }
+
+  /**
+   * Columnas de metafields del CSV de Shopify (vacío si merchandising.metafields está apagado)
+   */
+  static metafieldColumns(): string[] {
+    if (!config.merchandising.metafields) {
+      return [];
+    }
+
+    const { metafieldNamespace, colorMetafieldKey, orientationMetafieldKey } = config.merchandising;
+    return [
+      `Colors (product.metafields.${metafieldNamespace}.${colorMetafieldKey})`,
+      `Orientation (product.metafields.${metafieldNamespace}.${orientationMetafieldKey})`
+    ];
+  }
+
+  /**
+   * Valores de Tags y metafields para la fila principal del producto en el export
+   */
+  static exportFields(product: Pick<Product, 'tags' | 'dominantColors' | 'orientation'>): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    const extraTags = this.tagsFor(product);
+    if (extraTags.length > 0) {
+      const tags = (product.tags || '').split(',').map(tag => tag.trim()).filter(Boolean);
+      fields['Tags'] = [...new Set([...tags, ...extraTags])].join(', ');
+    }
+
+    const [colorColumn, orientationColumn] = this.metafieldColumns();
+    if (colorColumn) {
+      // Metafields de tipo lista: valores separados por "; "
+      fields[colorColumn] = this.colorNames((product.dominantColors as ColorSwatch[] | null) || []).join('; ');
+      fields[orientationColumn] = this.orientationName(product) || '';
+    }
+
+    return fields;
+  }
+
+  private static orientationName(product: Pick<Product, 'orientation'>): string | undefined {
+    return product.orientation
+      ? config.merchandising.orientations[product.orientation.toLowerCase() as ArtworkOrientation]
+      : undefined;
+  }
+}
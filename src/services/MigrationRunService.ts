@@ -0,0 +1,427 @@
+import { MigrationRun, MigrationRunStatus, Prisma, PrismaClient, ProductStatus } from '@prisma/client';
+import { DbConfigOverrides } from '../config/connections';
+import {
+  CheckpointRecord,
+  DuplicateStrategy,
+  MatchingStrategy,
+  MigrationCheckpoint,
+  MigrationRecordStage,
+  MigrationSourceType,
+  ProcessedImage,
+  ShopifyProductSnapshot,
+  StorageBackendName
+} from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Parámetros con los que se lanzó una corrida (se reutilizan al reanudar).
+ * La contraseña de MySQL nunca se guarda: al reanudar sale de env, perfil o flag.
+ */
+export type MigrationRunSettings = {
+  profile?: string;
+  migration: {
+    artworkFile: string;
+    includeWooCommerce: boolean;
+    checkDuplicates?: boolean;
+    duplicateStrategy?: DuplicateStrategy;
+    matchingStrategy?: MatchingStrategy;
+    similarityThreshold?: number;
+    maxImageDistance?: number;
+  };
+  connection: Omit<DbConfigOverrides, 'mysqlPassword'>;
+};
+
+export type MigrationRunSummary = MigrationRun & {
+  stageCounts: Partial<Record<MigrationRecordStage, number>>;
+};
+
+// delete: borra lo creado por la corrida; archive: archiva sus productos y libera los handles
+export type RollbackMode = 'delete' | 'archive';
+
+export type RollbackPlan = {
+  run: MigrationRun;
+  mode: RollbackMode;
+  products: Array<{ id: string; handle: string; title: string; sourceId: string | null }>;
+  // Al borrar: productos creados por la corrida que una corrida posterior volvió a guardar; se conservan
+  skipped: Array<{ id: string; handle: string; title: string; runId: string }>;
+  // Imágenes que se borran (las de productos archivados se conservan)
+  images: Array<{ id: string; productId: string; storageKey: string | null }>;
+  duplicateMatches: number;
+  // Objetos del storage que ninguna otra imagen usa, con el backend donde viven
+  storageObjects: Array<{ backend: StorageBackendName; key: string }>;
+};
+
+export class MigrationRunService implements MigrationCheckpoint {
+  private prisma: PrismaClient;
+  private run?: MigrationRun;
+  private records = new Map<string, CheckpointRecord>();
+  private phaseTimings: Record<string, number> = {};
+  // Inicio de esta sesión (al reanudar, la duración se acumula)
+  private sessionStartedAt = Date.now();
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.prisma.$connect();
+    } catch (error: any) {
+      Logger.error(`Error conectando a la base de datos: ${error.message}`);
+      throw error;
+    }
+  }
+
+  get runId(): string {
+    if (!this.run) {
+      throw new Error('No hay una corrida de migración activa');
+    }
+    return this.run.id;
+  }
+
+  /**
+   * Registrar una corrida nueva
+   */
+  async start(settings: MigrationRunSettings): Promise<MigrationRun> {
+    this.run = await this.prisma.migrationRun.create({
+      data: { settings: settings as Prisma.InputJsonValue }
+    });
+    this.sessionStartedAt = Date.now();
+
+    Logger.info(`Corrida de migración: ${this.run.id}`);
+    return this.run;
+  }
+
+  /**
+   * Retomar una corrida interrumpida o fallida, cargando el progreso por registro
+   */
+  async resume(runId: string): Promise<MigrationRunSettings> {
+    const run = await this.prisma.migrationRun.findUnique({
+      where: { id: runId },
+      include: { records: true }
+    });
+
+    if (!run) {
+      throw new Error(`Corrida de migración no encontrada: ${runId}`);
+    }
+
+    if (run.status === MigrationRunStatus.COMPLETED) {
+      throw new Error(`La corrida ${runId} ya terminó; no hay nada que reanudar`);
+    }
+
+    if (run.status === MigrationRunStatus.ROLLED_BACK) {
+      throw new Error(`La corrida ${runId} fue revertida; lanza una migración nueva`);
+    }
+
+    const { records, ...rest } = run;
+    this.run = await this.prisma.migrationRun.update({
+      where: { id: runId },
+      data: {
+        status: MigrationRunStatus.RUNNING,
+        finishedAt: null,
+        error: null,
+        resumeCount: { increment: 1 }
+      }
+    });
+    this.sessionStartedAt = Date.now();
+    this.phaseTimings = { ...((rest.phaseTimings as Record<string, number>) || {}) };
+
+    records.forEach(record => {
+      const snapshot = (record.snapshot as { products?: ShopifyProductSnapshot[]; images?: ProcessedImage[] }) || {};
+      this.records.set(this.key(record.sourceType, record.sourceId), {
+        stage: record.stage,
+        products: snapshot.products || [],
+        images: (snapshot.images || []).map(MigrationRunService.fromLegacySnapshotImage),
+        productId: record.productId
+      });
+    });
+
+    const saved = records.filter(record => record.stage === 'SAVED').length;
+    Logger.info(`Reanudando corrida ${runId}: ${records.length} registros con progreso, ${saved} ya guardados`);
+
+    return rest.settings as MigrationRunSettings;
+  }
+
+  getRecord(sourceType: MigrationSourceType, sourceId: string): CheckpointRecord | undefined {
+    return this.records.get(this.key(sourceType, sourceId));
+  }
+
+  async markConverted(
+    sourceType: MigrationSourceType,
+    sourceId: string,
+    products: ShopifyProductSnapshot[],
+    images: ProcessedImage[],
+    imagesProcessed: boolean
+  ): Promise<void> {
+    await this.saveRecord(sourceType, sourceId, {
+      stage: imagesProcessed ? 'IMAGES_PROCESSED' : 'CONVERTED',
+      products,
+      images
+    });
+  }
+
+  async markSaved(sourceType: MigrationSourceType, sourceId: string, productId: string): Promise<void> {
+    const previous = this.getRecord(sourceType, sourceId);
+    await this.saveRecord(sourceType, sourceId, {
+      stage: 'SAVED',
+      products: previous?.products || [],
+      images: previous?.images || [],
+      productId
+    });
+  }
+
+  async markFailed(sourceType: MigrationSourceType, sourceId: string, error: string): Promise<void> {
+    const previous = this.getRecord(sourceType, sourceId);
+    await this.saveRecord(sourceType, sourceId, {
+      stage: 'FAILED',
+      products: previous?.products || [],
+      images: previous?.images || []
+    }, error);
+  }
+
+  /**
+   * Ejecutar una fase midiendo su duración (se acumula entre reanudaciones)
+   */
+  async timePhase<T>(phase: string, fn: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      return await fn();
+    } finally {
+      this.phaseTimings[phase] = (this.phaseTimings[phase] || 0) + (Date.now() - startedAt);
+      await this.prisma.migrationRun.update({
+        where: { id: this.runId },
+        data: { phaseTimings: this.phaseTimings }
+      });
+    }
+  }
+
+  /**
+   * Cerrar la corrida con su estado final y duración total
+   */
+  async finish(status: MigrationRunStatus, error?: string): Promise<MigrationRun | undefined> {
+    if (!this.run) {
+      return undefined;
+    }
+
+    const durationMs = (this.run.durationMs || 0) + (Date.now() - this.sessionStartedAt);
+    this.run = await this.prisma.migrationRun.update({
+      where: { id: this.run.id },
+      data: {
+        status,
+        error: error || null,
+        finishedAt: new Date(),
+        durationMs,
+        phaseTimings: this.phaseTimings
+      }
+    });
+
+    return this.run;
+  }
+
+  /**
+   * Últimas corridas con el conteo de registros por etapa
+   */
+  async listRuns(limit: number = 10): Promise<MigrationRunSummary[]> {
+    const runs = await this.prisma.migrationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: limit
+    });
+
+    const counts = await this.prisma.migrationRunRecord.groupBy({
+      by: ['runId', 'stage'],
+      where: { runId: { in: runs.map(run => run.id) } },
+      _count: { id: true }
+    });
+
+    return runs.map(run => ({
+      ...run,
+      stageCounts: Object.fromEntries(
+        counts.filter(count => count.runId === run.id).map(count => [count.stage, count._count.id])
+      )
+    }));
+  }
+
+  /**
+   * Qué deshace el rollback de una corrida: productos, imágenes, duplicados y objetos del bucket
+   */
+  async planRollback(runId: string, mode: RollbackMode): Promise<RollbackPlan> {
+    const run = await this.prisma.migrationRun.findUnique({ where: { id: runId } });
+
+    if (!run) {
+      throw new Error(`Corrida de migración no encontrada: ${runId}`);
+    }
+    if (run.status === MigrationRunStatus.RUNNING) {
+      throw new Error(`La corrida ${runId} sigue en curso (RUNNING); espera a que termine o se interrumpa`);
+    }
+    if (run.status === MigrationRunStatus.ROLLED_BACK) {
+      throw new Error(`La corrida ${runId} ya fue revertida`);
+    }
+
+    const created = await this.prisma.product.findMany({
+      where: { createdByRunId: runId },
+      select: { id: true, handle: true, title: true, sourceId: true }
+    });
+    const createdIds = created.map(product => product.id);
+
+    // Borrar un producto que una corrida posterior volvió a guardar perdería lo que esa corrida hizo
+    const laterRecords = mode === 'delete'
+      ? await this.prisma.migrationRunRecord.findMany({
+        where: {
+          productId: { in: createdIds },
+          stage: 'SAVED',
+          run: { startedAt: { gt: run.startedAt }, status: { not: MigrationRunStatus.ROLLED_BACK } }
+        },
+        select: { productId: true, runId: true },
+        orderBy: { run: { startedAt: 'desc' } }
+      })
+      : [];
+    const latestRunByProduct = new Map<string, string>();
+    laterRecords
+      .filter(record => !latestRunByProduct.has(record.productId!))
+      .forEach(record => latestRunByProduct.set(record.productId!, record.runId));
+
+    const products = created.filter(product => !latestRunByProduct.has(product.id));
+    const skipped = created
+      .filter(product => latestRunByProduct.has(product.id))
+      .map(({ id, handle, title }) => ({ id, handle, title, runId: latestRunByProduct.get(id)! }));
+    const productIds = products.map(product => product.id);
+
+    // Al borrar, se van todas las imágenes de los productos que se borran; al archivar (o si el
+    // producto se conserva), solo las que la corrida agregó a productos que ya existían
+    const images = await this.prisma.productImage.findMany({
+      where: mode === 'delete'
+        ? { OR: [{ createdByRunId: runId, productId: { notIn: createdIds } }, { productId: { in: productIds } }] }
+        : { createdByRunId: runId, productId: { notIn: createdIds } },
+      select: {
+        id: true,
+        productId: true,
+        storageKey: true,
+        storageBackend: true,
+        variants: { select: { storageKey: true, storageBackend: true } }
+      }
+    });
+    const imageIds = images.map(image => image.id);
+
+    const duplicateMatches = await this.prisma.duplicateMatch.count({ where: { runId } });
+
+    // Objetos de la imagen y de sus renditions (con keys por contenido, otras imágenes pueden compartirlos).
+    // Las filas sin backend son anteriores a los backends intercambiables: estaban en Supabase
+    const objectId = (object: { storageBackend: string | null; storageKey: string | null }) =>
+      `${object.storageBackend || 'supabase'}:${object.storageKey}`;
+    const objects = new Map<string, { backend: StorageBackendName; key: string }>();
+    images
+      .flatMap(image => [image, ...image.variants])
+      .filter(object => Boolean(object.storageKey))
+      .forEach(object => objects.set(objectId(object), {
+        backend: (object.storageBackend || 'supabase') as StorageBackendName,
+        key: object.storageKey!
+      }));
+
+    const keys = [...new Set([...objects.values()].map(object => object.key))];
+    const stillUsed = await this.prisma.productImage.findMany({
+      where: { storageKey: { in: keys }, id: { notIn: imageIds } },
+      select: { storageKey: true, storageBackend: true }
+    });
+    const stillUsedVariants = await this.prisma.productImageVariant.findMany({
+      where: { storageKey: { in: keys }, imageId: { notIn: imageIds } },
+      select: { storageKey: true, storageBackend: true }
+    });
+    const stillUsedObjects = new Set([...stillUsed, ...stillUsedVariants].map(objectId));
+
+    return {
+      run,
+      mode,
+      products,
+      skipped,
+      images: images.map(({ variants, storageBackend, ...image }) => image),
+      duplicateMatches,
+      storageObjects: [...objects.entries()]
+        .filter(([id]) => !stillUsedObjects.has(id))
+        .map(([, object]) => object)
+    };
+  }
+
+  /**
+   * Snapshots guardados antes de los backends intercambiables usan supabaseUrl/supabasePath
+   */
+  private static fromLegacySnapshotImage(image: ProcessedImage & { supabaseUrl?: string; supabasePath?: string }): ProcessedImage {
+    if (image.supabaseUrl === undefined && image.supabasePath === undefined) {
+      return image;
+    }
+
+    const { supabaseUrl, supabasePath, ...rest } = image;
+    return {
+      ...rest,
+      storageUrl: supabaseUrl ?? '',
+      storageKey: supabasePath ?? '',
+      storageBackend: 'supabase'
+    };
+  }
+
+  /**
+   * Aplicar el rollback en la base de datos (los objetos del storage los borra quien llama)
+   */
+  async rollback(plan: RollbackPlan): Promise<void> {
+    const runId = plan.run.id;
+    const productIds = plan.products.map(product => product.id);
+    const suffix = runId.slice(-8);
+
+    const operations: Prisma.PrismaPromise<unknown>[] = [
+      this.prisma.duplicateMatch.deleteMany({ where: { runId } }),
+      this.prisma.productImage.deleteMany({ where: { id: { in: plan.images.map(image => image.id) } } })
+    ];
+
+    if (plan.mode === 'delete') {
+      operations.push(this.prisma.product.deleteMany({ where: { id: { in: productIds } } }));
+    } else {
+      // El handle y el sourceId archivados cambian para que el original quede libre
+      // y una migración posterior cree un producto nuevo en lugar de reactivar este
+      operations.push(...plan.products.map(product => this.prisma.product.update({
+        where: { id: product.id },
+        data: {
+          status: ProductStatus.ARCHIVED,
+          published: false,
+          handle: `${product.handle}-archived-${suffix}`,
+          sourceId: product.sourceId ? `${product.sourceId}-archived-${suffix}` : null
+        }
+      })));
+    }
+
+    operations.push(this.prisma.migrationRun.update({
+      where: { id: runId },
+      data: { status: MigrationRunStatus.ROLLED_BACK }
+    }));
+
+    await this.prisma.$transaction(operations);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+
+  private async saveRecord(
+    sourceType: MigrationSourceType,
+    sourceId: string,
+    record: CheckpointRecord,
+    error?: string
+  ): Promise<void> {
+    this.records.set(this.key(sourceType, sourceId), record);
+
+    const data = {
+      stage: record.stage,
+      snapshot: { products: record.products, images: record.images } as Prisma.InputJsonValue,
+      productId: record.productId ?? null,
+      error: error ?? null
+    };
+
+    await this.prisma.migrationRunRecord.upsert({
+      where: { runId_sourceType_sourceId: { runId: this.runId, sourceType, sourceId } },
+      create: { runId: this.runId, sourceType, sourceId, ...data },
+      update: data
+    });
+  }
+
+  private key(sourceType: MigrationSourceType, sourceId: string): string {
+    return `${sourceType}:${sourceId}`;
+  }
+}
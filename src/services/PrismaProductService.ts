@@ -1,9 +1,88 @@
-import { PrismaClient, Product, ProductImage, SourceType, ProductStatus } from '@prisma/client';
+import { ArtworkOrientation, DuplicateResolution, ImageFailureReason, ImageQualityStatus, ImageRendition, Prisma, PrismaClient, Product, ProductImage, ProductImageVariant, SourceType, ProductStatus } from '@prisma/client';
 import { ShopifyProduct } from '../models/ShopifyProduct';
-import { ArtworkArchiveRecord, ProcessedImage, WooProduct } from '../types';
+import { AppliedDuplicateResolution, ArtworkArchiveRecord, DuplicateChoice, ImageFailure, ImageFormat, ImageFailureReason as ImageFailureReasonName, ImageQualityIssue, ImageRendition as ImageRenditionName, MergeField, MergeFieldSources, MergeSource, MigrationCheckpoint, ProcessedImage, StorageBackendName, WooProduct } from '../types';
 import { Logger } from '../utils/logger';
+import { artworkSourceId, wooSourceId } from '../utils/sourceIdentity';
+import { MERGE_FIELD_COLUMNS } from './DuplicateMergeService';
 import { HandleGeneratorService } from './HandleGeneratorService';
+import { StoredImage } from './ImageProcessorService';
+import { ImageQualityService } from './ImageQualityService';
+import { MerchandisingService } from './MerchandisingService';
+import { StorageReference } from './storage';
 
+// Datos de producto que se escriben al crear o actualizar (el handle solo se asigna al crear)
+type ProductData = Omit<Prisma.ProductUncheckedCreateInput, 'handle' | 'id' | 'createdAt' | 'updatedAt'> & {
+  sourceType: SourceType;
+  sourceId: string;
+};
+
+type ImageInput = {
+  finalUrl: string;
+  originalUrl: string;
+  position: number;
+  altText: string;
+};
+
+export type SaveOutcome = 'created' | 'updated' | 'unchanged';
+
+export type SaveSummary = Record<SaveOutcome | 'failed', number>;
+
+export type SaveResult = {
+  products: Product[];
+  summary: SaveSummary;
+};
+
+export type ImageWithVariants = ProductImage & { variants: ProductImageVariant[] };
+
+export type ProductWithImages = Product & { images: ImageWithVariants[] };
+
+type UpsertResult = {
+  product: Product;
+  outcome: SaveOutcome;
+};
+
+export type FailedImageFilters = {
+  reasons?: ImageFailureReasonName[];
+  sourceType?: SourceType;
+  // id, handle o SKU del producto
+  product?: string;
+  // Solo imágenes con menos intentos que esto
+  maxAttempts?: number;
+};
+
+export type FailedImage = Pick<ProductImage, 'id' | 'productId' | 'originalUrl' | 'position' | 'attempts' | 'lastAttemptAt'> & {
+  failure?: ImageFailure;
+  product: Pick<Product, 'title' | 'handle'>;
+};
+
+// notFound <-> NOT_FOUND
+const toFailureReasonEnum = (reason: ImageFailureReasonName): ImageFailureReason =>
+  reason.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase() as ImageFailureReason;
+
+const fromFailureReasonEnum = (reason: ImageFailureReason): ImageFailureReasonName =>
+  reason.toLowerCase().replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase()) as ImageFailureReasonName;
+
+// mysql2 devuelve DATETIME como Date; las fechas en cero ('0000-00-00') quedan inválidas
+const toSourceDate = (value?: Date | string | null): Date | undefined => {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+const DUPLICATE_RESOLUTIONS: Record<DuplicateChoice, DuplicateResolution> = {
+  artwork: DuplicateResolution.KEEP_ARTWORK,
+  woo: DuplicateResolution.KEEP_WOO,
+  both: DuplicateResolution.KEEP_BOTH,
+  merged: DuplicateResolution.MERGED
+};
+
+const toImageFailure = (image: Pick<ProductImage, 'failureReason' | 'failureMessage' | 'failureHttpStatus'>): ImageFailure | undefined =>
+  image.failureReason
+    ? {
+      reason: fromFailureReasonEnum(image.failureReason),
+      message: image.failureMessage || '',
+      httpStatus: image.failureHttpStatus ?? undefined
+    }
+    : undefined;
 
 export class PrismaProductService {
   private prisma: PrismaClient;
@@ -27,316 +106,443 @@ export class PrismaProductService {
   async saveArtworkProducts(
     artworks: ArtworkArchiveRecord[], 
     shopifyProducts: ShopifyProduct[],
-    processedImages: Map<string, ProcessedImage> = new Map()
-  ): Promise<Product[]> {
-    const savedProducts: Product[] = [];
+    processedImages: Map<string, ProcessedImage> = new Map(),
+    checkpoint?: MigrationCheckpoint,
+    options: {
+      // El export no trae fecha de modificación por obra: se usa la del archivo
+      exportedAt?: Date;
+      // sync-artwork: una obra archivada que vuelve a estar en el export se restaura
+      restoreArchived?: boolean;
+    } = {}
+  ): Promise<SaveResult> {
+    const result = PrismaProductService.emptySaveResult();
+
+    for (const [index, artwork] of artworks.entries()) {
+      const sourceId = artworkSourceId(artwork, index);
 
-    for (let i = 0; i < artworks.length; i++) {
-      const artwork = artworks[i];
-      const shopifyProduct = shopifyProducts[i];
+      // Los descartados al resolver duplicados no tienen producto
+      const shopifyProduct = shopifyProducts.find(sp => sp.getSourceId() === sourceId);
+      if (!shopifyProduct) {
+        continue;
+      }
+
+      if (checkpoint?.getRecord('ARTWORK_ARCHIVE', sourceId)?.stage === 'SAVED') {
+        Logger.info(`Producto Artwork ya guardado en la corrida: ${shopifyProduct.getTitle()}`);
+        continue;
+      }
       
       try {
-        const product = await this.createProductFromArtwork(artwork, shopifyProduct, processedImages);
-        savedProducts.push(product);
-        Logger.success(`Producto Artwork guardado: ${product.title}`);
+        const { product, outcome } = await this.upsertFromArtwork(
+          artwork,
+          sourceId,
+          shopifyProduct,
+          processedImages,
+          checkpoint?.runId,
+          options
+        );
+        result.products.push(product);
+        result.summary[outcome]++;
+        await checkpoint?.markSaved('ARTWORK_ARCHIVE', sourceId, product.id);
+        Logger.success(`Producto Artwork ${PrismaProductService.OUTCOME_LABELS[outcome]}: ${product.title}`);
       } catch (error: any) {
+        result.summary.failed++;
         Logger.error(`Error guardando producto Artwork ${artwork.Name}: ${error.message}`);
+        await checkpoint?.markFailed('ARTWORK_ARCHIVE', sourceId, error.message);
       }
     }
 
-    return savedProducts;
+    return result;
   }
 
   async saveWooCommerceProducts(
     wooProducts: WooProduct[], 
     shopifyProducts: ShopifyProduct[],
-    processedImages: Map<string, ProcessedImage> = new Map()
-  ): Promise<Product[]> {
-    const savedProducts: Product[] = [];
-    let productIndex = 0;
+    processedImages: Map<string, ProcessedImage> = new Map(),
+    checkpoint?: MigrationCheckpoint
+  ): Promise<SaveResult> {
+    const result = PrismaProductService.emptySaveResult();
+    const renamedDuplicates = await this.getRenamedDuplicateIds();
 
     for (const wooProduct of wooProducts) {
-      try {
-        // Encontrar el producto principal (no las filas de imágenes adicionales)
-        const mainShopifyProduct = shopifyProducts.find(sp => 
-          sp.getTitle() === wooProduct.post_title && sp.getSKU().includes(wooProduct.ID.toString())
-        );
+      const sourceId = wooSourceId(wooProduct);
 
-        if (!mainShopifyProduct) {
-          Logger.warning(`No se encontró ShopifyProduct correspondiente para WooCommerce product: ${wooProduct.post_title}`);
-          continue;
-        }
+      // Encontrar el producto principal (no las filas de imágenes adicionales)
+      const mainShopifyProduct = shopifyProducts.find(sp => sp.getSourceId() === sourceId && sp.getTitle() !== '');
+
+      if (!mainShopifyProduct) {
+        Logger.warning(`No se encontró ShopifyProduct correspondiente para WooCommerce product: ${wooProduct.post_title}`);
+        continue;
+      }
 
-        const product = await this.createProductFromWooCommerce(wooProduct, mainShopifyProduct, processedImages);
-        savedProducts.push(product);
+      if (checkpoint?.getRecord('WOOCOMMERCE', sourceId)?.stage === 'SAVED') {
+        Logger.info(`Producto WooCommerce ya guardado en la corrida: ${mainShopifyProduct.getTitle()}`);
+        continue;
+      }
 
-        // Buscar y guardar imágenes adicionales
+      try {
+        // Imágenes adicionales (filas sin título con la misma fuente)
         const additionalImageProducts = shopifyProducts.filter(sp => 
-          sp.getHandle() === mainShopifyProduct.getHandle() && 
+          sp.getSourceId() === sourceId && 
           sp.getTitle() === '' && 
           sp.toRecord()['Image Src']
         );
 
-        if (additionalImageProducts.length > 0) {
-          await this.saveAdditionalImages(product.id, additionalImageProducts, processedImages);
-        }
+        const { product, outcome } = await this.upsertFromWooCommerce(
+          wooProduct,
+          mainShopifyProduct,
+          additionalImageProducts,
+          processedImages,
+          checkpoint?.runId,
+          renamedDuplicates
+        );
+        result.products.push(product);
+        result.summary[outcome]++;
 
-        Logger.success(`Producto WooCommerce guardado: ${product.title}`);
+        await checkpoint?.markSaved('WOOCOMMERCE', sourceId, product.id);
+        Logger.success(`Producto WooCommerce ${PrismaProductService.OUTCOME_LABELS[outcome]}: ${product.title}`);
       } catch (error: any) {
+        result.summary.failed++;
         Logger.error(`Error guardando producto WooCommerce ${wooProduct.post_title}: ${error.message}`);
+        await checkpoint?.markFailed('WOOCOMMERCE', sourceId, error.message);
       }
     }
 
-    return savedProducts;
+    return result;
   }
 
-private async createProductFromArtwork(
+  private async upsertFromArtwork(
     artwork: ArtworkArchiveRecord, 
+    sourceId: string,
     shopifyProduct: ShopifyProduct,
-    processedImages: Map<string, ProcessedImage>
-  ): Promise<Product> {
+    processedImages: Map<string, ProcessedImage>,
+    runId?: string,
+    options: { exportedAt?: Date; restoreArchived?: boolean } = {}
+  ): Promise<UpsertResult> {
     const productData = shopifyProduct.toRecord();
-    
-    try {
-      const product = await this.prisma.product.create({
-        data: {
-          handle: shopifyProduct.getHandle(),
-          title: shopifyProduct.getTitle(),
-          bodyHtml: shopifyProduct.getBodyHTML(),
-          vendor: shopifyProduct.getVendor(),
-          productCategory: productData['Product Category'],
-          type: productData['Type'],
-          tags: productData['Tags'],
-          published: productData['Published'] === 'TRUE',
-          status: shopifyProduct.getStatus() === 'active' ? ProductStatus.ACTIVE : ProductStatus.DRAFT,
-          seoTitle: productData['SEO Title'],
-          seoDescription: productData['SEO Description'],
-          
-          // Variant data
-          variantSku: shopifyProduct.getSKU(),
-          variantPrice: parseFloat(shopifyProduct.getPrice()),
-          variantCompareAtPrice: productData['Variant Compare At Price'] ? 
-            parseFloat(productData['Variant Compare At Price']) : null,
-          variantGrams: parseInt(productData['Variant Grams']) || 1000,
-          variantInventoryTracker: productData['Variant Inventory Tracker'],
-          variantInventoryQty: parseInt(productData['Variant Inventory Qty']) || 0,
-          variantInventoryPolicy: productData['Variant Inventory Policy'],
-          variantFulfillmentService: productData['Variant Fulfillment Service'],
-          variantRequiresShipping: productData['Variant Requires Shipping'] === 'TRUE',
-          variantTaxable: productData['Variant Taxable'] === 'TRUE',
-          variantBarcode: productData['Variant Barcode'],
-          variantWeightUnit: productData['Variant Weight Unit'],
-          variantTaxCode: productData['Variant Tax Code'],
-          costPerItem: productData['Cost per item'] ? parseFloat(productData['Cost per item']) : null,
-          
-          // Options
-          option1Name: productData['Option1 Name'],
-          option1Value: productData['Option1 Value'],
-          option2Name: productData['Option2 Name'],
-          option2Value: productData['Option2 Value'],
-          option3Name: productData['Option3 Name'],
-          option3Value: productData['Option3 Value'],
-          
-          // Google Shopping
-          googleProductCategory: productData['Google Shopping / Google Product Category'],
-          googleGender: productData['Google Shopping / Gender'],
-          googleAgeGroup: productData['Google Shopping / Age Group'],
-          googleMPN: productData['Google Shopping / MPN'],
-          googleCondition: productData['Google Shopping / Condition'],
-          googleCustomProduct: productData['Google Shopping / Custom Product'],
-          
-          // Gift Card
-          giftCard: productData['Gift Card'] === 'TRUE',
-          
-          // Pricing por región
-          includedUS: productData['Included / United States'] === 'TRUE',
-          priceUS: productData['Price / United States'] ? parseFloat(productData['Price / United States']) : null,
-          compareAtPriceUS: productData['Compare At Price / United States'] ? 
-            parseFloat(productData['Compare At Price / United States']) : null,
-          includedIntl: productData['Included / International'] === 'TRUE',
-          priceIntl: productData['Price / International'] ? parseFloat(productData['Price / International']) : null,
-          compareAtPriceIntl: productData['Compare At Price / International'] ? 
-            parseFloat(productData['Compare At Price / International']) : null,
-          
-          // Source tracking
-          sourceType: SourceType.ARTWORK_ARCHIVE,
-          sourceId: artwork['Piece Id'],
-          
-          // Artwork specific fields
-          artworkArtist: artwork['Artist(s)'],
-          artworkMedium: artwork.Medium,
-          artworkHeight: artwork.Height,
-          artworkWidth: artwork.Width,
-          artworkDepth: artwork.Depth,
-          artworkYear: artwork['Creation Date'],
-          artworkStatus: artwork.Status
-        }
-      });
 
-      // Crear imagen si existe
-      if (productData['Image Src']) {
-        await this.createProductImage(
-          product.id, 
-          productData['Image Src'], 
-          artwork['Primary Image Url'], 
-          1, 
-          productData['Image Alt Text'],
-          processedImages
-        );
-      }
+    const data: ProductData = {
+      ...this.buildProductData(shopifyProduct),
 
-      return product;
+      // Source tracking
+      sourceType: SourceType.ARTWORK_ARCHIVE,
+      sourceId,
+      sourceUpdatedAt: options.exportedAt,
       
-    } catch (error: any) {
-      // Si es error de handle duplicado, intentar con nuevo handle
-      if (error.code === 'P2002' && error.meta?.target?.includes('handle')) {
-        Logger.warning(`Handle duplicado detectado para ${artwork.Name}, regenerando...`);
-        
-        // Generar nuevo handle con timestamp para garantizar unicidad
-        const newHandle = HandleGeneratorService.generateUniqueHandle(
-          `${artwork.Name}-retry-${Date.now()}`,
-          artwork['Piece Id'],
-          'artwork'
-        );
-        
-        shopifyProduct.setHandle(newHandle);
-        
-        // Reintentar la creación
-        return this.createProductFromArtwork(artwork, shopifyProduct, processedImages);
-      }
-      
-      throw error;
-    }
+      // Artwork specific fields
+      artworkArtist: artwork['Artist(s)'],
+      artworkMedium: artwork.Medium,
+      artworkHeight: artwork.Height,
+      artworkWidth: artwork.Width,
+      artworkDepth: artwork.Depth,
+      artworkYear: artwork['Creation Date'],
+      artworkStatus: artwork.Status
+    };
+
+    const images: ImageInput[] = productData['Image Src'] ? [{
+      finalUrl: productData['Image Src'],
+      originalUrl: artwork['Primary Image Url'],
+      position: 1,
+      altText: productData['Image Alt Text']
+    }] : [];
+
+    return this.upsertProduct(data, shopifyProduct, images, processedImages, runId, { restoreArchived: options.restoreArchived });
   }
 
-  private async createProductFromWooCommerce(
+  private async upsertFromWooCommerce(
     wooProduct: WooProduct, 
     shopifyProduct: ShopifyProduct,
-    processedImages: Map<string, ProcessedImage>
-  ): Promise<Product> {
+    additionalImageProducts: ShopifyProduct[],
+    processedImages: Map<string, ProcessedImage>,
+    runId?: string,
+    renamedDuplicates = new Set<string>()
+  ): Promise<UpsertResult> {
     const productData = shopifyProduct.toRecord();
-    
-    try {
-      const product = await this.prisma.product.create({
-        data: {
-          handle: shopifyProduct.getHandle(),
-          title: shopifyProduct.getTitle(),
-          bodyHtml: shopifyProduct.getBodyHTML(),
-          vendor: shopifyProduct.getVendor(),
-          productCategory: productData['Product Category'],
-          type: productData['Type'],
-          tags: productData['Tags'],
-          published: productData['Published'] === 'TRUE',
-          status: shopifyProduct.getStatus() === 'active' ? ProductStatus.ACTIVE : ProductStatus.DRAFT,
-          seoTitle: productData['SEO Title'],
-          seoDescription: productData['SEO Description'],
-          
-          // Variant data
-          variantSku: shopifyProduct.getSKU(),
-          variantPrice: parseFloat(shopifyProduct.getPrice()),
-          variantCompareAtPrice: productData['Variant Compare At Price'] ? 
-            parseFloat(productData['Variant Compare At Price']) : null,
-          variantGrams: parseInt(productData['Variant Grams']) || 1000,
-          variantInventoryTracker: productData['Variant Inventory Tracker'],
-          variantInventoryQty: parseInt(productData['Variant Inventory Qty']) || 0,
-          variantInventoryPolicy: productData['Variant Inventory Policy'],
-          variantFulfillmentService: productData['Variant Fulfillment Service'],
-          variantRequiresShipping: productData['Variant Requires Shipping'] === 'TRUE',
-          variantTaxable: productData['Variant Taxable'] === 'TRUE',
-          variantBarcode: productData['Variant Barcode'],
-          variantWeightUnit: productData['Variant Weight Unit'],
-          variantTaxCode: productData['Variant Tax Code'],
-          costPerItem: productData['Cost per item'] ? parseFloat(productData['Cost per item']) : null,
-          
-          // Options
-          option1Name: productData['Option1 Name'],
-          option1Value: productData['Option1 Value'],
-          option2Name: productData['Option2 Name'],
-          option2Value: productData['Option2 Value'],
-          option3Name: productData['Option3 Name'],
-          option3Value: productData['Option3 Value'],
-          
-          // Google Shopping
-          googleProductCategory: productData['Google Shopping / Google Product Category'],
-          googleGender: productData['Google Shopping / Gender'],
-          googleAgeGroup: productData['Google Shopping / Age Group'],
-          googleMPN: productData['Google Shopping / MPN'],
-          googleCondition: productData['Google Shopping / Condition'],
-          googleCustomProduct: productData['Google Shopping / Custom Product'],
-          
-          // Gift Card
-          giftCard: productData['Gift Card'] === 'TRUE',
-          
-          // Pricing por región
-          includedUS: productData['Included / United States'] === 'TRUE',
-          priceUS: productData['Price / United States'] ? parseFloat(productData['Price / United States']) : null,
-          compareAtPriceUS: productData['Compare At Price / United States'] ? 
-            parseFloat(productData['Compare At Price / United States']) : null,
-          includedIntl: productData['Included / International'] === 'TRUE',
-          priceIntl: productData['Price / International'] ? parseFloat(productData['Price / International']) : null,
-          compareAtPriceIntl: productData['Compare At Price / International'] ? 
-            parseFloat(productData['Compare At Price / International']) : null,
-          
-          // Source tracking
-          sourceType: SourceType.WOOCOMMERCE,
-          sourceId: wooProduct.ID.toString()
-        }
+
+    const data: ProductData = {
+      ...this.buildProductData(shopifyProduct),
+
+      // Source tracking
+      sourceType: SourceType.WOOCOMMERCE,
+      sourceId: wooSourceId(wooProduct),
+      sourceUpdatedAt: toSourceDate(wooProduct.post_modified_gmt)
+    };
+
+    const images: ImageInput[] = [];
+
+    // Imagen principal
+    if (productData['Image Src']) {
+      images.push({
+        finalUrl: productData['Image Src'],
+        originalUrl: wooProduct.image_url,
+        position: 1,
+        altText: productData['Image Alt Text']
       });
+    }
 
-      // Crear imagen principal si existe
-      if (productData['Image Src']) {
-        await this.createProductImage(
-          product.id, 
-          productData['Image Src'], 
-          wooProduct.image_url, 
-          1, 
-          productData['Image Alt Text'],
-          processedImages
-        );
+    for (const imageProduct of additionalImageProducts) {
+      const imageData = imageProduct.toRecord();
+
+      // La fila tiene la URL final; la original sale del resultado del procesamiento
+      const processedImage = [...processedImages.values()].find(image =>
+        image.success && image.storageUrl === imageData['Image Src']
+      );
+
+      images.push({
+        finalUrl: imageData['Image Src'],
+        originalUrl: processedImage?.originalUrl || imageData['Image Src'],
+        position: parseInt(imageData['Image Position']) || 1,
+        altText: imageData['Image Alt Text']
+      });
+    }
+
+    return this.upsertProduct(data, shopifyProduct, images, processedImages, runId, { renamedDuplicates });
+  }
+
+  /**
+   * Crea el producto o actualiza en su lugar el que ya existe para (sourceType, sourceId).
+   * Un producto existente conserva su handle y sus imágenes; uno archivado sigue archivado
+   * salvo con restoreArchived. renamedDuplicates: productos de WooCommerce resueltos como KEEP_BOTH.
+   */
+  private async upsertProduct(
+    data: ProductData,
+    shopifyProduct: ShopifyProduct,
+    images: ImageInput[],
+    processedImages: Map<string, ProcessedImage>,
+    runId?: string,
+    options: { restoreArchived?: boolean; renamedDuplicates?: Set<string> } = {}
+  ): Promise<UpsertResult> {
+    const existing = await this.prisma.product.findUnique({
+      where: { sourceType_sourceId: { sourceType: data.sourceType, sourceId: data.sourceId as string } }
+    });
+
+    // Color y formato salen de la imagen principal (la paleta solo si se descargó en esta corrida)
+    const primary = images.find(image => image.position === 1);
+    const primaryResult = primary && processedImages.get(primary.originalUrl);
+    if (primaryResult?.success) {
+      data = { ...data, ...PrismaProductService.merchandisingFields(primaryResult) };
+    }
+
+    // Un producto fusionado conserva lo que salió del otro origen (ver DuplicateMergeService)
+    const protectedFields = existing ? PrismaProductService.mergedFromOtherSource(existing) : [];
+    if (protectedFields.length > 0) {
+      const columns = protectedFields.flatMap(field => field === 'images' ? [] : MERGE_FIELD_COLUMNS[field]);
+      data = Object.fromEntries(Object.entries(data).filter(([key]) => !columns.includes(key as keyof Product))) as ProductData;
+    }
+
+    // Lo que aplicó duplicates resolve (archivar el descartado, renombrar con keep-both) no se deshace al volver a migrar
+    if (existing?.status === ProductStatus.ARCHIVED && !options.restoreArchived) {
+      const { status, published, ...rest } = data;
+      data = rest as ProductData;
+    }
+    if (existing && !data.title.endsWith('(WooCommerce)') && options.renamedDuplicates?.has(existing.id)) {
+      data = { ...data, title: `${data.title} (WooCommerce)` };
+    }
+
+    let product: Product;
+    let outcome: SaveOutcome;
+
+    if (!existing) {
+      product = await this.createWithUniqueHandle({ ...data, createdByRunId: runId }, shopifyProduct);
+      outcome = 'created';
+    } else {
+      const changedFields = this.getChangedFields(existing, data);
+
+      if (changedFields.length > 0) {
+        product = await this.prisma.product.update({ where: { id: existing.id }, data });
+        outcome = 'updated';
+        Logger.info(`Campos actualizados en ${existing.handle}: ${changedFields.join(', ')}`);
+      } else {
+        product = existing;
+        outcome = 'unchanged';
       }
+    }
 
-      return product;
-      
+    const imagesChanged = !protectedFields.includes('images') &&
+      await this.syncProductImages(product.id, images, processedImages, runId);
+    if (outcome === 'unchanged' && imagesChanged) {
+      outcome = 'updated';
+    }
+
+    return { product, outcome };
+  }
+
+  private async createWithUniqueHandle(data: ProductData, shopifyProduct: ShopifyProduct): Promise<Product> {
+    try {
+      return await this.prisma.product.create({
+        data: { ...data, handle: shopifyProduct.getHandle() }
+      });
     } catch (error: any) {
       // Si es error de handle duplicado, intentar con nuevo handle
       if (error.code === 'P2002' && error.meta?.target?.includes('handle')) {
-        Logger.warning(`Handle duplicado detectado para ${wooProduct.post_title}, regenerando...`);
+        Logger.warning(`Handle duplicado detectado para ${data.title}, regenerando...`);
         
         // Generar nuevo handle con timestamp para garantizar unicidad
         const newHandle = HandleGeneratorService.generateUniqueHandle(
-          `${wooProduct.post_title}-retry-${Date.now()}`,
-          wooProduct.sku || wooProduct.ID.toString(),
-          'woocommerce'
+          `${data.title}-retry-${Date.now()}`,
+          data.sourceId || undefined,
+          data.sourceType === SourceType.ARTWORK_ARCHIVE ? 'artwork' : 'woocommerce'
         );
         
-        shopifyProduct.setHandle(newHandle);
+        shopifyProduct.forceHandle(newHandle);
         
         // Reintentar la creación
-        return this.createProductFromWooCommerce(wooProduct, shopifyProduct, processedImages);
+        return this.createWithUniqueHandle(data, shopifyProduct);
       }
       
       throw error;
     }
   }
 
-  private async saveAdditionalImages(
-    productId: string, 
-    additionalImageProducts: ShopifyProduct[],
-    processedImages: Map<string, ProcessedImage>
-  ): Promise<void> {
-    for (const imageProduct of additionalImageProducts) {
-      const productData = imageProduct.toRecord();
-      const position = parseInt(productData['Image Position']) || 1;
+  /**
+   * Color dominante y formato del producto a partir de su imagen principal
+   */
+  private static merchandisingFields(image: Pick<ProcessedImage, 'palette' | 'width' | 'height'>): Pick<ProductData, 'dominantColors' | 'orientation'> {
+    const orientation = MerchandisingService.orientationOf(image.width, image.height);
+    return {
+      ...(image.palette ? { dominantColors: image.palette as Prisma.InputJsonValue } : {}),
+      ...(orientation ? { orientation: orientation.toUpperCase() as ArtworkOrientation } : {})
+    };
+  }
+
+  /**
+   * Campos del producto comunes a ambas fuentes (todo salvo el handle)
+   */
+  private buildProductData(shopifyProduct: ShopifyProduct): Omit<ProductData, 'sourceType' | 'sourceId'> {
+    const productData = shopifyProduct.toRecord();
+
+    return {
+      title: shopifyProduct.getTitle(),
+      bodyHtml: shopifyProduct.getBodyHTML(),
+      vendor: shopifyProduct.getVendor(),
+      productCategory: productData['Product Category'],
+      type: productData['Type'],
+      tags: productData['Tags'],
+      published: productData['Published'] === 'TRUE',
+      status: shopifyProduct.getStatus() === 'active' ? ProductStatus.ACTIVE : ProductStatus.DRAFT,
+      seoTitle: productData['SEO Title'],
+      seoDescription: productData['SEO Description'],
       
-      await this.createProductImage(
-        productId,
-        productData['Image Src'],
-        productData['Image Src'], // En este caso, es la misma URL
-        position,
-        productData['Image Alt Text'],
-        processedImages
-      );
+      // Variant data
+      variantSku: shopifyProduct.getSKU(),
+      variantPrice: parseFloat(shopifyProduct.getPrice()),
+      variantCompareAtPrice: productData['Variant Compare At Price'] ? 
+        parseFloat(productData['Variant Compare At Price']) : null,
+      variantGrams: parseInt(productData['Variant Grams']) || 1000,
+      variantInventoryTracker: productData['Variant Inventory Tracker'],
+      variantInventoryQty: parseInt(productData['Variant Inventory Qty']) || 0,
+      variantInventoryPolicy: productData['Variant Inventory Policy'],
+      variantFulfillmentService: productData['Variant Fulfillment Service'],
+      variantRequiresShipping: productData['Variant Requires Shipping'] === 'TRUE',
+      variantTaxable: productData['Variant Taxable'] === 'TRUE',
+      variantBarcode: productData['Variant Barcode'],
+      variantWeightUnit: productData['Variant Weight Unit'],
+      variantTaxCode: productData['Variant Tax Code'],
+      costPerItem: productData['Cost per item'] ? parseFloat(productData['Cost per item']) : null,
+      
+      // Options
+      option1Name: productData['Option1 Name'],
+      option1Value: productData['Option1 Value'],
+      option2Name: productData['Option2 Name'],
+      option2Value: productData['Option2 Value'],
+      option3Name: productData['Option3 Name'],
+      option3Value: productData['Option3 Value'],
+      
+      // Google Shopping
+      googleProductCategory: productData['Google Shopping / Google Product Category'],
+      googleGender: productData['Google Shopping / Gender'],
+      googleAgeGroup: productData['Google Shopping / Age Group'],
+      googleMPN: productData['Google Shopping / MPN'],
+      googleCondition: productData['Google Shopping / Condition'],
+      googleCustomProduct: productData['Google Shopping / Custom Product'],
+      
+      // Gift Card
+      giftCard: productData['Gift Card'] === 'TRUE',
+      
+      // Pricing por región
+      includedUS: productData['Included / United States'] === 'TRUE',
+      priceUS: productData['Price / United States'] ? parseFloat(productData['Price / United States']) : null,
+      compareAtPriceUS: productData['Compare At Price / United States'] ? 
+        parseFloat(productData['Compare At Price / United States']) : null,
+      includedIntl: productData['Included / International'] === 'TRUE',
+      priceIntl: productData['Price / International'] ? parseFloat(productData['Price / International']) : null,
+      compareAtPriceIntl: productData['Compare At Price / International'] ? 
+        parseFloat(productData['Compare At Price / International']) : null
+    };
+  }
+
+  // Versiones de WooCommerce que duplicates resolve dejó con keep-both (título con sufijo), por id
+  private async getRenamedDuplicateIds(): Promise<Set<string>> {
+    const matches = await this.prisma.duplicateMatch.findMany({
+      where: { resolution: DuplicateResolution.KEEP_BOTH, wooProductId: { not: null } },
+      select: { wooProductId: true }
+    });
+    return new Set(matches.map(match => match.wooProductId!));
+  }
+
+  // Campos de un producto fusionado que salieron del otro origen (o de ambos)
+  private static mergedFromOtherSource(product: Product): MergeField[] {
+    const fieldSources = product.fieldSources as MergeFieldSources | null;
+    const ownSource: MergeSource = product.sourceType === SourceType.ARTWORK_ARCHIVE ? 'artwork' : 'woo';
+
+    return Object.entries(fieldSources || {})
+      .filter(([, source]) => source !== ownSource)
+      .map(([field]) => field as MergeField);
+  }
+
+  /**
+   * Campos cuyo valor en la base de datos difiere del convertido
+   */
+  private getChangedFields(existing: Product, data: ProductData): string[] {
+    const normalize = (value: unknown): string | number | boolean | null => {
+      if (value === null || value === undefined || value === '') return null;
+      if (value instanceof Prisma.Decimal) return value.toNumber();
+      if (typeof value === 'object') return JSON.stringify(value);
+      return value as string | number | boolean;
+    };
+
+    // La fecha de origen sola no cuenta como cambio
+    return Object.entries(data)
+      .filter(([key]) => key !== 'sourceUpdatedAt')
+      .filter(([key, value]) => normalize((existing as Record<string, unknown>)[key]) !== normalize(value))
+      .map(([key]) => key);
+  }
+
+  /**
+   * Agrega las imágenes nuevas (por URL original) y completa las que no se habían
+   * podido procesar. Las imágenes existentes no se tocan.
+   */
+  private async syncProductImages(
+    productId: string,
+    images: ImageInput[],
+    processedImages: Map<string, ProcessedImage>,
+    runId?: string
+  ): Promise<boolean> {
+    const existingImages = await this.prisma.productImage.findMany({ where: { productId } });
+    let changed = false;
+
+    for (const image of images) {
+      const existing = existingImages.find(e => e.originalUrl === image.originalUrl);
+      const processedImage = processedImages.get(image.originalUrl);
+
+      if (!existing) {
+        await this.createProductImage(
+          productId,
+          image.finalUrl,
+          image.originalUrl,
+          image.position,
+          image.altText,
+          processedImages,
+          runId
+        );
+        changed = true;
+      } else if (!existing.processed && processedImage && !processedImage.skipped) {
+        // También los nuevos fracasos, para llevar la cuenta de intentos y el último motivo
+        await this.updateImageProcessingResult(existing.id, processedImage);
+        changed = processedImage.success || changed;
+      }
     }
+
+    return changed;
   }
 
   private async createProductImage(
@@ -345,7 +551,8 @@ private async createProductFromArtwork(
     originalImageUrl: string,
     position: number,
     altText: string,
-    processedImages: Map<string, ProcessedImage>
+    processedImages: Map<string, ProcessedImage>,
+    runId?: string
   ): Promise<ProductImage> {
     const processedImage = processedImages.get(originalImageUrl);
     
@@ -353,20 +560,148 @@ private async createProductFromArtwork(
       data: {
         productId: productId,
         originalUrl: originalImageUrl,
-        supabaseUrl: finalImageUrl,
-        supabasePath: processedImage?.supabasePath || '',
+        storageUrl: finalImageUrl,
+        storageKey: processedImage?.storageKey || '',
+        storageBackend: processedImage?.storageBackend,
         position: position,
         altText: altText,
         width: processedImage?.width,
         height: processedImage?.height,
         fileSize: processedImage?.fileSize,
-        format: 'webp',
+        format: processedImage?.format || 'webp',
+        exif: processedImage?.exif as Prisma.InputJsonValue | undefined,
+        contentHash: processedImage?.contentHash,
+        perceptualHash: processedImage?.perceptualHash,
         processed: processedImage?.success || false,
-        processedAt: processedImage?.success ? new Date() : null
+        processedAt: processedImage?.success ? new Date() : null,
+        ...this.toQualityFields(processedImage),
+        ...this.toFailureFields(processedImage),
+        ...(processedImage && !processedImage.skipped ? { attempts: 1, lastAttemptAt: new Date() } : {}),
+        createdByRunId: runId,
+        variants: { create: this.toVariantRows(processedImage) }
+      }
+    });
+  }
+
+  /**
+   * Resultado de los controles de calidad (vacío si la imagen no se inspeccionó)
+   */
+  private toQualityFields(processedImage?: ProcessedImage): Pick<
+    Prisma.ProductImageUncheckedCreateInput, 'qualityStatus' | 'qualityIssues' | 'qualityCheckedAt'
+  > {
+    if (!processedImage?.quality) {
+      return {};
+    }
+
+    return {
+      qualityStatus: processedImage.quality.status.toUpperCase() as ImageQualityStatus,
+      qualityIssues: processedImage.quality.issues as Prisma.InputJsonValue,
+      qualityCheckedAt: new Date()
+    };
+  }
+
+  /**
+   * Motivo del último intento fallido (se limpia cuando la imagen se procesa)
+   */
+  private toFailureFields(processedImage?: ProcessedImage): Pick<
+    Prisma.ProductImageUncheckedCreateInput, 'failureReason' | 'failureMessage' | 'failureHttpStatus'
+  > {
+    if (!processedImage || processedImage.skipped) {
+      return {};
+    }
+
+    if (processedImage.success) {
+      return { failureReason: null, failureMessage: null, failureHttpStatus: null };
+    }
+
+    const failure = processedImage.failure || { reason: 'unknown', message: processedImage.error || '' };
+    return {
+      failureReason: toFailureReasonEnum(failure.reason),
+      failureMessage: failure.message,
+      failureHttpStatus: failure.httpStatus ?? null
+    };
+  }
+
+  private toVariantRows(processedImage?: ProcessedImage): Prisma.ProductImageVariantCreateWithoutImageInput[] {
+    if (!processedImage?.success) {
+      return [];
+    }
+
+    return (processedImage.variants || []).map(variant => ({
+      rendition: variant.rendition.toUpperCase() as ImageRendition,
+      format: variant.format,
+      ssim: variant.ssim,
+      storageUrl: variant.storageUrl,
+      storageKey: variant.storageKey,
+      storageBackend: variant.storageBackend,
+      width: variant.width,
+      height: variant.height,
+      fileSize: variant.fileSize,
+      contentHash: variant.contentHash
+    }));
+  }
+
+  private static emptySaveResult(): SaveResult {
+    return { products: [], summary: { created: 0, updated: 0, unchanged: 0, failed: 0 } };
+  }
+
+  private static readonly OUTCOME_LABELS: Record<SaveOutcome, string> = {
+    created: 'creado',
+    updated: 'actualizado',
+    unchanged: 'sin cambios'
+  };
+
+  /**
+   * Productos de una fuente con sus imágenes (para comparar con un export nuevo)
+   */
+  async getProductsBySource(sourceType: SourceType): Promise<ProductWithImages[]> {
+    return await this.prisma.product.findMany({
+      where: { sourceType },
+      include: {
+        images: {
+          include: { variants: true },
+          orderBy: {
+            position: 'asc'
+          }
+        }
       }
     });
   }
 
+  /**
+   * Archivar productos que ya no existen en la fuente (no se borran)
+   */
+  async archiveProducts(productIds: string[]): Promise<number> {
+    const result = await this.prisma.product.updateMany({
+      where: { id: { in: productIds } },
+      data: { status: ProductStatus.ARCHIVED, published: false }
+    });
+    return result.count;
+  }
+
+  /**
+   * Quitar imágenes de un producto por URL original (p. ej. cuando cambió en la fuente), solo si
+   * ya hay otra imagen procesada en su posición: si la nueva no se pudo guardar, se conserva la anterior
+   */
+  async removeReplacedImages(productId: string, originalUrls: string[]): Promise<number> {
+    const images = await this.prisma.productImage.findMany({
+      where: { productId },
+      select: { id: true, originalUrl: true, position: true, processed: true }
+    });
+
+    const replaced = images.filter(image =>
+      originalUrls.includes(image.originalUrl) &&
+      images.some(other => other.position === image.position && other.processed && !originalUrls.includes(other.originalUrl)));
+    if (replaced.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.productImage.deleteMany({
+      where: { id: { in: replaced.map(image => image.id) } }
+    });
+    return result.count;
+  }
+
   async getAllProducts(): Promise<Product[]> {
     return await this.prisma.product.findMany({
       include: {
@@ -394,7 +729,7 @@ private async createProductFromArtwork(
       
       // Usar la primera imagen como imagen principal
       if (product.images.length > 0) {
-        mainEntry['Image Src'] = product.images[0].supabaseUrl;
+        mainEntry['Image Src'] = product.images[0].storageUrl;
         mainEntry['Image Position'] = '1';
         mainEntry['Image Alt Text'] = product.images[0].altText;
       }
@@ -416,10 +751,11 @@ private async createProductFromArtwork(
           imageEntry['Variant SKU'] = '';
           imageEntry['Variant Price'] = '';
           imageEntry['Variant Inventory Qty'] = '';
+          MerchandisingService.metafieldColumns().forEach(column => { imageEntry[column] = ''; });
           // ... limpiar otros campos necesarios
           
           // Configurar datos de imagen
-          imageEntry['Image Src'] = image.supabaseUrl;
+          imageEntry['Image Src'] = image.storageUrl;
           imageEntry['Image Position'] = image.position.toString();
           imageEntry['Image Alt Text'] = image.altText;
           
@@ -432,7 +768,7 @@ private async createProductFromArtwork(
   }
 
   private convertProductToShopifyExport(product: Product): any {
-    return {
+    const entry: Record<string, string> = {
       'Handle': product.handle,
       'Title': product.title,
       'Body (HTML)': product.bodyHtml || '',
@@ -482,11 +818,16 @@ private async createProductFromArtwork(
       'Compare At Price / International': product.compareAtPriceIntl?.toString() || '',
       'Status': product.status.toLowerCase()
     };
+
+    // Tags y metafields de color y formato (según config.merchandising)
+    return { ...entry, ...MerchandisingService.exportFields(product) };
   }
 
   async getProductsForShopifyExportWithSupabase(
   imageSource: 'supabase' | 'original' | 'mixed' = 'supabase',
-  statusFilter: 'all' | 'active' | 'draft' = 'all'
+  statusFilter: 'all' | 'active' | 'draft' = 'all',
+  rendition: ImageRenditionName = 'original',
+  formats: ImageFormat[] = []
 ): Promise<any[]> {
   // Filtros de consulta
   const whereClause: any = {};
@@ -500,6 +841,7 @@ private async createProductFromArtwork(
     where: whereClause,
     include: {
       images: {
+        include: { variants: true },
         orderBy: {
           position: 'asc'
         }
@@ -516,7 +858,7 @@ private async createProductFromArtwork(
     // Configurar imagen principal
     if (product.images.length > 0) {
       const mainImage = product.images[0];
-      const imageUrl = this.selectImageUrl(mainImage, imageSource);
+      const imageUrl = this.selectImageUrl(mainImage, imageSource, rendition, formats);
       
       mainEntry['Image Src'] = imageUrl;
       mainEntry['Image Position'] = '1';
@@ -535,7 +877,7 @@ private async createProductFromArtwork(
         this.clearProductFieldsForImageRow(imageEntry);
         
         // Configurar datos de imagen
-        const imageUrl = this.selectImageUrl(image, imageSource);
+        const imageUrl = this.selectImageUrl(image, imageSource, rendition, formats);
         imageEntry['Image Src'] = imageUrl;
         imageEntry['Image Position'] = image.position.toString();
         imageEntry['Image Alt Text'] = image.altText || product.title;
@@ -549,18 +891,34 @@ private async createProductFromArtwork(
 }
 
 /**
- * Seleccionar URL de imagen según la preferencia
+ * Seleccionar URL de imagen según la preferencia (y la rendition, si la imagen tiene variantes).
+ * Si la rendition está en varios formatos se usa el primero de exportFormats que exista.
  */
-private selectImageUrl(image: any, imageSource: 'supabase' | 'original' | 'mixed'): string {
+private selectImageUrl(
+  image: any,
+  imageSource: 'supabase' | 'original' | 'mixed',
+  rendition: ImageRenditionName = 'original',
+  formats: ImageFormat[] = []
+): string {
+  const candidates = (image.variants || []).filter((v: ProductImageVariant) => v.rendition === rendition.toUpperCase());
+  // Sin preferencia que coincida, el formato principal de la imagen
+  const preference = [...formats, image.format];
+  const rank = (variant: ProductImageVariant) => {
+    const index = preference.indexOf(variant.format);
+    return index === -1 ? preference.length : index;
+  };
+  const variant = [...candidates].sort((a: ProductImageVariant, b: ProductImageVariant) => rank(a) - rank(b))[0];
+  const storedUrl = variant?.storageUrl || image.storageUrl;
+
   switch (imageSource) {
     case 'supabase':
-      return image.supabaseUrl || image.originalUrl;
+      return storedUrl || image.originalUrl;
     case 'original':
       return image.originalUrl;
     case 'mixed':
-      return image.supabaseUrl && image.processed ? image.supabaseUrl : image.originalUrl;
+      return storedUrl && image.processed ? storedUrl : image.originalUrl;
     default:
-      return image.supabaseUrl || image.originalUrl;
+      return storedUrl || image.originalUrl;
   }
 }
 
@@ -632,7 +990,11 @@ async getImageProcessingStats(): Promise<{
         select: {
           id: true,
           originalUrl: true,
-          processed: true
+          processed: true,
+          attempts: true,
+          failureReason: true,
+          failureMessage: true,
+          failureHttpStatus: true
         }
       }
     }
@@ -647,51 +1009,524 @@ async getImageProcessingStats(): Promise<{
     failedImageDetails: failedImageDetails.map(product => ({
       id: product.id,
       title: product.title,
-      failedImages: product.images
+      failedImages: product.images.map(image => ({
+        id: image.id,
+        originalUrl: image.originalUrl,
+        processed: image.processed,
+        attempts: image.attempts,
+        failure: toImageFailure(image)
+      }))
     }))
   };
 }
 
+/**
+ * Productos con imágenes marcadas por los controles de calidad (rechazadas o con advertencias)
+ */
+async getFlaggedImages(): Promise<Array<{
+  id: string;
+  title: string;
+  handle: string;
+  status: ProductStatus;
+  images: Array<Pick<ProductImage, 'id' | 'originalUrl' | 'position' | 'width' | 'height' | 'qualityStatus' | 'qualityIssues'>>;
+}>> {
+  const flagged = { qualityStatus: { in: [ImageQualityStatus.WARNING, ImageQualityStatus.REJECTED] } };
+
+  return await this.prisma.product.findMany({
+    where: { images: { some: flagged } },
+    select: {
+      id: true,
+      title: true,
+      handle: true,
+      status: true,
+      images: {
+        where: flagged,
+        orderBy: { position: 'asc' },
+        select: { id: true, originalUrl: true, position: true, width: true, height: true, qualityStatus: true, qualityIssues: true }
+      }
+    },
+    orderBy: { title: 'asc' }
+  });
+}
+
+/**
+ * Marcar (o desmarcar) las imágenes cuyo tamaño es atípico frente al resto de las guardadas.
+ * Depende del conjunto, así que se recalcula después de guardar y no al procesar cada imagen.
+ */
+async flagFileSizeOutliers(k: number): Promise<number> {
+  const images = await this.prisma.productImage.findMany({
+    where: { processed: true, fileSize: { gt: 0 } },
+    select: { id: true, fileSize: true, qualityIssues: true }
+  });
+  const fences = ImageQualityService.fileSizeFences(images.map(image => image.fileSize!), k);
+
+  let flagged = 0;
+  for (const image of images) {
+    const previous = (image.qualityIssues as ImageQualityIssue[] | null) || [];
+    const outlier = fences && ImageQualityService.fileSizeOutlier(image.fileSize!, fences);
+    const issues = [...previous.filter(issue => issue.code !== 'fileSizeOutlier'), ...(outlier ? [outlier] : [])];
+    if (outlier) {
+      flagged++;
+    }
+
+    if (JSON.stringify(issues) !== JSON.stringify(previous)) {
+      await this.prisma.productImage.update({
+        where: { id: image.id },
+        data: {
+          qualityIssues: issues as Prisma.InputJsonValue,
+          qualityStatus: ImageQualityService.statusOf(issues).toUpperCase() as ImageQualityStatus,
+          qualityCheckedAt: new Date()
+        }
+      });
+    }
+  }
+
+  return flagged;
+}
+
+/**
+ * Pasar a draft los productos cuyas imágenes procesadas fueron todas rechazadas
+ * (mismo criterio que los converters, para resultados que llegan después, p. ej. retry-images)
+ */
+async draftProductsWithoutAcceptableImage(productIds: string[]): Promise<number> {
+  const products = await this.prisma.product.findMany({
+    where: { id: { in: productIds }, status: { not: ProductStatus.DRAFT } },
+    select: { id: true, images: { where: { processed: true }, select: { qualityStatus: true } } }
+  });
+
+  const rejected = products
+    .filter(product => product.images.length > 0 &&
+      product.images.every(image => image.qualityStatus === ImageQualityStatus.REJECTED))
+    .map(product => product.id);
+
+  if (rejected.length === 0) {
+    return 0;
+  }
+
+  const { count } = await this.prisma.product.updateMany({
+    where: { id: { in: rejected } },
+    data: { status: ProductStatus.DRAFT, published: false }
+  });
+  return count;
+}
+
 /**
  * Obtener imágenes fallidas para reprocesar
  */
-async getFailedImages(): Promise<any[]> {
-  return await this.prisma.productImage.findMany({
+async getFailedImages(filters: FailedImageFilters = {}): Promise<FailedImage[]> {
+  const product: Prisma.ProductWhereInput = {
+    ...(filters.sourceType ? { sourceType: filters.sourceType } : {}),
+    ...(filters.product
+      ? { OR: [{ id: filters.product }, { handle: filters.product }, { variantSku: filters.product }] }
+      : {})
+  };
+
+  const images = await this.prisma.productImage.findMany({
     where: {
-      processed: false
+      processed: false,
+      ...(filters.reasons?.length ? { failureReason: { in: filters.reasons.map(toFailureReasonEnum) } } : {}),
+      ...(filters.maxAttempts !== undefined ? { attempts: { lt: filters.maxAttempts } } : {}),
+      product
     },
     select: {
       id: true,
+      productId: true,
       originalUrl: true,
+      position: true,
+      attempts: true,
+      lastAttemptAt: true,
+      failureReason: true,
+      failureMessage: true,
+      failureHttpStatus: true,
       product: {
         select: {
-          title: true
+          title: true,
+          handle: true
         }
       }
-    }
+    },
+    orderBy: [{ productId: 'asc' }, { position: 'asc' }]
   });
+
+  return images.map(({ failureReason, failureMessage, failureHttpStatus, ...image }) => ({
+    ...image,
+    failure: toImageFailure({ failureReason, failureMessage, failureHttpStatus })
+  }));
 }
 
 /**
- * Actualizar resultado de procesamiento de imagen
+ * Actualizar resultado de procesamiento de imagen. Si volvió a fallar solo se
+ * registran el intento y el motivo; la URL guardada no se toca.
  */
-async updateImageProcessingResult(imageId: string, processedImage: any): Promise<void> {
-  await this.prisma.productImage.update({
+async updateImageProcessingResult(imageId: string, processedImage: ProcessedImage): Promise<void> {
+  const attempt = { attempts: { increment: 1 }, lastAttemptAt: new Date() };
+
+  if (!processedImage.success) {
+    await this.prisma.productImage.update({
+      where: { id: imageId },
+      data: { ...attempt, ...this.toFailureFields(processedImage) }
+    });
+    return;
+  }
+
+  const image = await this.prisma.productImage.update({
     where: {
       id: imageId
     },
     data: {
-      supabaseUrl: processedImage.supabaseUrl,
-      supabasePath: processedImage.supabasePath,
+      ...attempt,
+      storageUrl: processedImage.storageUrl,
+      storageKey: processedImage.storageKey,
+      storageBackend: processedImage.storageBackend,
       width: processedImage.width,
       height: processedImage.height,
       fileSize: processedImage.fileSize,
-      processed: processedImage.success,
-      processedAt: processedImage.success ? new Date() : null
-    }
+      format: processedImage.format,
+      exif: processedImage.exif as Prisma.InputJsonValue | undefined,
+      contentHash: processedImage.contentHash,
+      perceptualHash: processedImage.perceptualHash,
+      processed: true,
+      processedAt: new Date(),
+      ...this.toQualityFields(processedImage),
+      ...this.toFailureFields(processedImage),
+      variants: {
+        deleteMany: {},
+        create: this.toVariantRows(processedImage)
+      }
+    },
+    select: { productId: true, position: true }
+  });
+
+  // Reprocesar la imagen principal (retry-images) también completa el color y el formato del producto
+  if (image.position === 1) {
+    await this.updateProductMerchandising(image.productId, processedImage);
+  }
+}
+
+/**
+ * Guardar color dominante y formato de un producto desde su imagen principal; lo que falte no se pisa
+ */
+async updateProductMerchandising(
+  productId: string,
+  image: Pick<ProcessedImage, 'palette' | 'width' | 'height'>
+): Promise<boolean> {
+  const data = PrismaProductService.merchandisingFields(image);
+  if (Object.keys(data).length === 0) {
+    return false;
+  }
+
+  await this.prisma.product.update({ where: { id: productId }, data });
+  return true;
+}
+
+/**
+ * Productos con imagen principal procesada a los que les falta el color dominante o el formato
+ * (migrados antes de extraerlos, o con la imagen reutilizada sin descargarla)
+ */
+async getProductsMissingMerchandising(sourceType?: SourceType): Promise<Array<Pick<Product, 'id' | 'handle' | 'orientation'> & {
+  dominantColors: Prisma.JsonValue;
+  images: Array<Pick<ProductImage, 'originalUrl' | 'width' | 'height'>>;
+}>> {
+  return await this.prisma.product.findMany({
+    where: {
+      sourceType,
+      OR: [{ dominantColors: { equals: Prisma.AnyNull } }, { orientation: null }],
+      images: { some: { position: 1, processed: true } }
+    },
+    select: {
+      id: true,
+      handle: true,
+      orientation: true,
+      dominantColors: true,
+      images: { where: { position: 1, processed: true }, select: { originalUrl: true, width: true, height: true }, take: 1 }
+    },
+    orderBy: { handle: 'asc' }
+  });
+}
+
+/**
+ * Imagen ya subida con el mismo contenido (para reutilizar su objeto en storage)
+ */
+async findStoredImage(contentHash: string, backend: StorageBackendName): Promise<StoredImage | undefined> {
+  const variant = await this.prisma.productImageVariant.findFirst({
+    where: { contentHash, storageBackend: backend },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (variant) {
+    return {
+      storageUrl: variant.storageUrl,
+      storageKey: variant.storageKey,
+      storageBackend: backend,
+      width: variant.width ?? undefined,
+      height: variant.height ?? undefined,
+      fileSize: variant.fileSize ?? undefined
+    };
+  }
+
+  // Imágenes guardadas antes de las renditions
+  const image = await this.prisma.productImage.findFirst({
+    where: { contentHash, storageBackend: backend, processed: true, storageKey: { not: '' } },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  if (!image || !image.storageKey) {
+    return undefined;
+  }
+
+  return {
+    storageUrl: image.storageUrl,
+    storageKey: image.storageKey,
+    storageBackend: backend,
+    width: image.width ?? undefined,
+    height: image.height ?? undefined,
+    fileSize: image.fileSize ?? undefined
+  };
+}
+
+/**
+ * Cuánto storage se ahorra al compartir objetos (renditions o imágenes) con el mismo contenido
+ */
+async getStorageSavings(): Promise<{
+  hashedImages: number;
+  storedObjects: number;
+  storedBytes: number;
+  savedBytes: number;
+}> {
+  const variantGroups = await this.prisma.productImageVariant.groupBy({
+    by: ['contentHash'],
+    where: { contentHash: { not: null } },
+    _count: { id: true },
+    _max: { fileSize: true }
+  });
+
+  // Imágenes guardadas antes de las renditions (sin variantes)
+  const imageGroups = await this.prisma.productImage.groupBy({
+    by: ['contentHash'],
+    where: { processed: true, contentHash: { not: null }, variants: { none: {} } },
+    _count: { id: true },
+    _max: { fileSize: true }
+  });
+
+  return [...variantGroups, ...imageGroups].reduce((totals, group) => {
+    const size = group._max.fileSize || 0;
+    return {
+      hashedImages: totals.hashedImages + group._count.id,
+      storedObjects: totals.storedObjects + 1,
+      storedBytes: totals.storedBytes + size,
+      savedBytes: totals.savedBytes + size * (group._count.id - 1)
+    };
+  }, { hashedImages: 0, storedObjects: 0, storedBytes: 0, savedBytes: 0 });
+}
+
+/**
+ * Keys de storage que usan las imágenes y sus renditions en un backend
+ * (las filas sin backend son anteriores a los backends intercambiables: Supabase)
+ */
+async getStorageReferences(backend: StorageBackendName): Promise<StorageReference[]> {
+  const inBackend = backend === 'supabase'
+    ? { OR: [{ storageBackend: backend }, { storageBackend: null }] }
+    : { storageBackend: backend };
+
+  const images = await this.prisma.productImage.findMany({
+    where: { ...inBackend, storageKey: { not: '' } },
+    select: { storageKey: true, position: true, product: { select: { handle: true } } }
+  });
+  const variants = await this.prisma.productImageVariant.findMany({
+    where: inBackend,
+    select: { storageKey: true, rendition: true, image: { select: { position: true, product: { select: { handle: true } } } } }
+  });
+
+  return [
+    ...images
+      .filter(image => image.storageKey)
+      .map(image => ({ key: image.storageKey!, handle: image.product.handle, position: image.position })),
+    ...variants.map(variant => ({
+      key: variant.storageKey,
+      handle: variant.image.product.handle,
+      position: variant.image.position,
+      rendition: variant.rendition.toLowerCase()
+    }))
+  ];
+}
+
+/**
+ * Dejar para retry-images las imágenes cuyo objeto (o el de alguna de sus variantes) falta en el storage.
+ * Las variantes con esas keys se borran: si quedaran, findStoredImage reutilizaría el objeto que falta.
+ */
+async markMissingImages(backend: StorageBackendName, keys: string[]): Promise<number> {
+  if (keys.length === 0) {
+    return 0;
+  }
+
+  const inBackend = backend === 'supabase'
+    ? { OR: [{ storageBackend: backend }, { storageBackend: null }] }
+    : { storageBackend: backend };
+
+  const [marked] = await this.prisma.$transaction([
+    this.prisma.productImage.updateMany({
+      where: {
+        OR: [
+          { ...inBackend, storageKey: { in: keys } },
+          { variants: { some: { ...inBackend, storageKey: { in: keys } } } }
+        ]
+      },
+      data: {
+        processed: false,
+        contentHash: null,
+        failureReason: ImageFailureReason.UPLOAD,
+        failureMessage: 'El objeto ya no está en el storage',
+        failureHttpStatus: null
+      }
+    }),
+    this.prisma.productImageVariant.deleteMany({
+      where: { ...inBackend, storageKey: { in: keys } }
+    })
+  ]);
+  return marked.count;
+}
+
+/**
+ * Productos con sus imágenes, para regenerar el alt text
+ */
+async getProductsForAltText(sourceType?: SourceType): Promise<Array<Product & {
+  images: Array<Pick<ProductImage, 'id' | 'position' | 'originalUrl' | 'altText'>>;
+}>> {
+  return await this.prisma.product.findMany({
+    where: { sourceType, images: { some: {} } },
+    include: {
+      images: {
+        orderBy: { position: 'asc' },
+        select: { id: true, position: true, originalUrl: true, altText: true }
+      }
+    },
+    orderBy: { title: 'asc' }
+  });
+}
+
+async updateImageAltText(imageId: string, altText: string): Promise<void> {
+  await this.prisma.productImage.update({
+    where: { id: imageId },
+    data: { altText }
   });
 }
 
+/**
+ * Alt texts repetidos en más de una imagen, con las imágenes que los usan
+ */
+async getDuplicateAltTexts(): Promise<Array<{
+  altText: string;
+  images: Array<{ id: string; position: number; handle: string; title: string }>;
+}>> {
+  const groups = await this.prisma.productImage.groupBy({
+    by: ['altText'],
+    where: { altText: { not: null } },
+    _count: { id: true },
+    having: { id: { _count: { gt: 1 } } },
+    orderBy: { _count: { id: 'desc' } }
+  });
+
+  const images = await this.prisma.productImage.findMany({
+    where: { altText: { in: groups.map(group => group.altText!) } },
+    select: { id: true, position: true, altText: true, product: { select: { handle: true, title: true } } },
+    orderBy: [{ product: { handle: 'asc' } }, { position: 'asc' }]
+  });
+
+  return groups.map(group => ({
+    altText: group.altText!,
+    images: images
+      .filter(image => image.altText === group.altText)
+      .map(image => ({ id: image.id, position: image.position, handle: image.product.handle, title: image.product.title }))
+  }));
+}
+
+/**
+ * Guardar los duplicados detectados con la resolución aplicada.
+ * El par se identifica por los sourceId de ambas fuentes: volver a detectarlo lo actualiza.
+ */
+async saveDuplicateMatches(
+  resolutions: AppliedDuplicateResolution[],
+  options: { strategy?: string; runId?: string } = {}
+): Promise<{ created: number; updated: number; toMerge: string[] }> {
+  const result = { created: 0, updated: 0, toMerge: [] as string[] };
+  if (resolutions.length === 0) {
+    return result;
+  }
+
+  // La versión descartada solo tiene producto si ya estaba guardada de antes
+  const products = await this.prisma.product.findMany({
+    where: {
+      OR: [
+        { sourceType: SourceType.ARTWORK_ARCHIVE, sourceId: { in: resolutions.map(r => r.duplicate.artworkSourceId) } },
+        { sourceType: SourceType.WOOCOMMERCE, sourceId: { in: resolutions.map(r => r.duplicate.wooSourceId) } }
+      ]
+    },
+    select: { id: true, sourceType: true, sourceId: true }
+  });
+  const productId = (sourceType: SourceType, sourceId: string) =>
+    products.find(product => product.sourceType === sourceType && product.sourceId === sourceId)?.id ?? null;
+
+  const resolvedAt = new Date();
+
+  for (const { duplicate, choice, renamed } of resolutions) {
+    const notes = [
+      options.strategy === 'ask' ? 'Elegido manualmente' : options.strategy ? `Estrategia ${options.strategy}` : undefined,
+      renamed ? `WooCommerce renombrado a ${renamed.handle}` : undefined
+    ].filter(Boolean).join('; ');
+
+    const data = {
+      artworkProductId: productId(SourceType.ARTWORK_ARCHIVE, duplicate.artworkSourceId),
+      wooProductId: productId(SourceType.WOOCOMMERCE, duplicate.wooSourceId),
+      title: duplicate.title,
+      matchType: duplicate.matchType,
+      confidence: duplicate.similarity,
+      artworkSKU: duplicate.artworkSKU,
+      wooSKU: duplicate.wooSKU,
+      artworkPrice: duplicate.artworkPrice,
+      wooPrice: duplicate.wooPrice,
+      artworkArtist: duplicate.artworkArtist,
+      wooArtist: duplicate.wooArtist,
+      dimensions: duplicate.dimensions,
+      signals: duplicate.signals
+    };
+    // La fusión se aplica después sobre los productos ya guardados; hasta entonces queda pendiente
+    const resolution = choice === 'pending' || choice === 'merged'
+      ? { resolution: DuplicateResolution.PENDING, resolvedAt: null, resolutionNotes: null }
+      : { resolution: DUPLICATE_RESOLUTIONS[choice], resolvedAt, resolutionNotes: notes || null };
+
+    const key = { artworkSourceId: duplicate.artworkSourceId, wooSourceId: duplicate.wooSourceId };
+    const existing = await this.prisma.duplicateMatch.findUnique({
+      where: { artworkSourceId_wooSourceId: key },
+      select: { id: true, resolution: true }
+    });
+
+    if (existing) {
+      // Un par ya resuelto (por duplicates resolve o por una corrida anterior) conserva su resolución:
+      // los productos quedaron en ese estado y migrate no los vuelve a tocar
+      const keepResolution = existing.resolution !== DuplicateResolution.PENDING;
+      await this.prisma.duplicateMatch.update({
+        where: { id: existing.id },
+        data: keepResolution ? data : { ...data, ...resolution }
+      });
+      if (choice === 'merged' && !keepResolution) {
+        result.toMerge.push(existing.id);
+      }
+      result.updated++;
+    } else {
+      // Solo el match creado queda en la corrida: el rollback no debe borrar los de corridas anteriores
+      const created = await this.prisma.duplicateMatch.create({
+        data: { ...key, ...data, ...resolution, runId: options.runId },
+        select: { id: true }
+      });
+      if (choice === 'merged') {
+        result.toMerge.push(created.id);
+      }
+      result.created++;
+    }
+  }
+
+  return result;
+}
 
 // Agregar estos métodos a tu PrismaProductService
 
@@ -0,0 +1,98 @@
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Logger } from '../../utils/logger';
+import { StorageBackend, StorageDeleteResult, StoredObject } from './StorageBackend';
+
+export type LocalStorageConfig = {
+  dir: string;
+  // URL desde la que se sirve el directorio (vacío = file://)
+  publicUrl: string;
+};
+
+/**
+ * Storage en el sistema de archivos local (desarrollo, o un directorio servido por nginx)
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local' as const;
+
+  constructor(private readonly config: LocalStorageConfig) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.config.dir, { recursive: true });
+    Logger.success(`Storage local en ${path.resolve(this.config.dir)}`);
+  }
+
+  async upload(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  getPublicUrl(key: string): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${key}`;
+    }
+    return pathToFileURL(this.resolve(key)).toString();
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fsSync.existsSync(this.resolve(key));
+  }
+
+  async delete(keys: string[]): Promise<StorageDeleteResult> {
+    const errors: string[] = [];
+    let deleted = 0;
+
+    for (const key of keys) {
+      try {
+        await fs.rm(this.resolve(key));
+        deleted++;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          errors.push(`${key}: ${error.message}`);
+        }
+      }
+    }
+
+    return { deleted, errors };
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const root = this.resolve(prefix);
+    if (!fsSync.existsSync(root)) {
+      return [];
+    }
+
+    const objects: StoredObject[] = [];
+    const walk = async (dir: string) => {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else {
+          const stats = await fs.stat(entryPath);
+          objects.push({
+            key: path.relative(this.config.dir, entryPath).split(path.sep).join('/'),
+            size: stats.size,
+            lastModified: stats.mtime
+          });
+        }
+      }
+    };
+
+    await walk(root);
+    return objects;
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.config.dir, key);
+    // Una key nunca debe salir del directorio del storage (ni caer en uno hermano con el mismo prefijo)
+    const relative = path.relative(path.resolve(this.config.dir), resolved);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw new Error(`Key de storage inválida: ${key}`);
+    }
+    return resolved;
+  }
+}
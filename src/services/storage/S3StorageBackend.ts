@@ -0,0 +1,148 @@
+import {
+  CreateBucketCommand,
+  DeleteObjectsCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { Logger } from '../../utils/logger';
+import { StorageBackend, StorageDeleteResult, StoredObject } from './StorageBackend';
+
+export type S3StorageConfig = {
+  // Vacío = AWS; para MinIO local: http://localhost:9000
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // MinIO y la mayoría de los S3 compatibles usan http://host/bucket/key
+  forcePathStyle: boolean;
+  // URL pública del bucket (CDN); vacío = se arma desde endpoint/región
+  publicUrl: string;
+};
+
+/**
+ * Storage S3 o compatible (MinIO, R2, Spaces...)
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly name = 's3' as const;
+  private client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    if (!config.bucket) {
+      throw new Error('Falta el bucket de S3 (S3_BUCKET o storage.s3.bucket en el perfil)');
+    }
+
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint || undefined,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.client.send(new HeadBucketCommand({ Bucket: this.config.bucket }));
+      Logger.success(`Bucket S3 ${this.config.bucket} disponible`);
+    } catch (error: any) {
+      if (error.$metadata?.httpStatusCode !== 404) {
+        Logger.error(`Error verificando bucket S3 ${this.config.bucket}: ${error.message}`);
+        throw error;
+      }
+
+      // Un MinIO recién levantado no tiene buckets
+      Logger.info(`Creando bucket S3 ${this.config.bucket}...`);
+      await this.client.send(new CreateBucketCommand({ Bucket: this.config.bucket }));
+      Logger.success(`Bucket S3 ${this.config.bucket} creado`);
+    }
+  }
+
+  async upload(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+  }
+
+  getPublicUrl(key: string): string {
+    if (this.config.publicUrl) {
+      return `${this.config.publicUrl.replace(/\/$/, '')}/${key}`;
+    }
+
+    if (this.config.endpoint) {
+      const endpoint = this.config.endpoint.replace(/\/$/, '');
+      if (this.config.forcePathStyle) {
+        return `${endpoint}/${this.config.bucket}/${key}`;
+      }
+      const url = new URL(endpoint);
+      return `${url.protocol}//${this.config.bucket}.${url.host}/${key}`;
+    }
+
+    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${key}`;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.config.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(keys: string[]): Promise<StorageDeleteResult> {
+    const errors: string[] = [];
+    let deleted = 0;
+
+    // DeleteObjects acepta hasta 1000 keys por llamada
+    for (let i = 0; i < keys.length; i += 1000) {
+      const batch = keys.slice(i, i + 1000);
+      try {
+        const result = await this.client.send(new DeleteObjectsCommand({
+          Bucket: this.config.bucket,
+          Delete: { Objects: batch.map(key => ({ Key: key })), Quiet: false }
+        }));
+        deleted += result.Deleted?.length || 0;
+        (result.Errors || []).forEach(error => errors.push(`${error.Key}: ${error.Message}`));
+      } catch (error: any) {
+        Logger.error(`Error borrando objetos de S3: ${error.message}`);
+        errors.push(error.message);
+      }
+    }
+
+    return { deleted, errors };
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      (page.Contents || []).forEach(object => objects.push({
+        key: object.Key!,
+        size: object.Size,
+        lastModified: object.LastModified
+      }));
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+}
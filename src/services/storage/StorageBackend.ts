@@ -0,0 +1,36 @@
+import { StorageBackendName } from '../../types';
+
+export type { StorageBackendName };
+
+export type StoredObject = {
+  key: string;
+  size?: number;
+  lastModified?: Date;
+};
+
+export type StorageDeleteResult = {
+  deleted: number;
+  errors: string[];
+};
+
+/**
+ * Dónde se guardan las imágenes convertidas. Las keys son relativas al bucket/directorio
+ * (p. ej. products/<hash>.webp), así que una imagen puede moverse de un backend a otro.
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+
+  // Verificar (o crear) el bucket o directorio
+  initialize(): Promise<void>;
+
+  upload(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  getPublicUrl(key: string): string;
+
+  exists(key: string): Promise<boolean>;
+
+  delete(keys: string[]): Promise<StorageDeleteResult>;
+
+  // Objetos bajo un prefijo (p. ej. products/)
+  list(prefix: string): Promise<StoredObject[]>;
+}
@@ -0,0 +1,56 @@
+import { StorageBackend, StoredObject } from './StorageBackend';
+
+// Objeto del storage al que apunta una fila de la base de datos
+export type StorageReference = {
+  key: string;
+  handle: string;
+  position: number;
+  rendition?: string;
+};
+
+export type StorageGcReport = {
+  backend: string;
+  prefix: string;
+  listed: number;
+  referenced: number;
+  // Sin ninguna fila que los use y más viejos que el período de gracia: se pueden borrar
+  orphans: StoredObject[];
+  orphanBytes: number;
+  // Sin uso pero recientes: pueden ser de una corrida en curso
+  recentOrphans: StoredObject[];
+  // Filas que apuntan a objetos que ya no están en el storage
+  missing: StorageReference[];
+};
+
+/**
+ * Compara los objetos del storage con las keys guardadas en ProductImage / ProductImageVariant
+ */
+export class StorageGcService {
+  static async scan(
+    storage: StorageBackend,
+    references: StorageReference[],
+    options: { prefix: string; graceHours: number }
+  ): Promise<StorageGcReport> {
+    const objects = await storage.list(options.prefix);
+    const listedKeys = new Set(objects.map(object => object.key));
+    const referencedKeys = new Set(references.map(reference => reference.key));
+    const cutoff = Date.now() - options.graceHours * 60 * 60 * 1000;
+
+    const unused = objects.filter(object => !referencedKeys.has(object.key));
+    // Sin fecha no se puede saber si es reciente: se trata como dentro del período de gracia
+    const orphans = unused.filter(object => object.lastModified && object.lastModified.getTime() < cutoff);
+    const recentOrphans = unused.filter(object => !orphans.includes(object));
+
+    return {
+      backend: storage.name,
+      prefix: options.prefix,
+      listed: objects.length,
+      referenced: referencedKeys.size,
+      orphans,
+      orphanBytes: orphans.reduce((sum, object) => sum + (object.size || 0), 0),
+      recentOrphans,
+      missing: references.filter(reference =>
+        reference.key.startsWith(options.prefix) && !listedKeys.has(reference.key))
+    };
+  }
+}
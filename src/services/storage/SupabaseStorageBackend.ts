@@ -0,0 +1,166 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import { Logger } from '../../utils/logger';
+import { StorageBackend, StorageDeleteResult, StoredObject } from './StorageBackend';
+
+export type SupabaseStorageConfig = {
+  url: string;
+  key: string;
+  bucketName: string;
+};
+
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly name = 'supabase' as const;
+  private supabase: SupabaseClient;
+
+  constructor(private readonly config: SupabaseStorageConfig) {
+    if (!config.url || !config.key) {
+      throw new Error(`Variables de entorno de Supabase no configuradas correctamente:
+        SUPABASE_URL: ${config.url ? 'OK' : 'MISSING'}
+        SUPABASE_KEY: ${config.key ? 'OK' : 'MISSING'}`);
+    }
+
+    this.supabase = createClient(config.url, config.key, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    });
+  }
+
+  async initialize(): Promise<void> {
+    await this.ensureBucketExists();
+  }
+
+  private async ensureBucketExists(): Promise<void> {
+    try {
+      // Intentar listar buckets primero
+      const { data: buckets, error: listError } = await this.supabase.storage.listBuckets();
+
+      if (!listError && buckets) {
+        const bucketExists = buckets.some(bucket => bucket.name === this.config.bucketName);
+
+        if (bucketExists) {
+          Logger.success(`Bucket ${this.config.bucketName} ya existe y está disponible`);
+          return;
+        }
+      } else {
+        Logger.warning(`No se pudo listar buckets: ${listError?.message}. Verificando con prueba directa...`);
+      }
+
+      // Si no pudimos listar buckets o no existe, intentar crear
+      Logger.info(`Intentando crear bucket ${this.config.bucketName}...`);
+      const { error: createError } = await this.supabase.storage.createBucket(this.config.bucketName, {
+        public: true,
+        allowedMimeTypes: ['image/webp', 'image/avif', 'image/jpeg', 'image/png']
+      });
+
+      if (createError) {
+        // Si el bucket ya existe, es OK
+        if (createError.message.includes('already exists') ||
+            createError.message.includes('resource already exists')) {
+          Logger.success(`Bucket ${this.config.bucketName} ya existía`);
+          return;
+        }
+
+        // Si es un error de permisos, dar instrucciones específicas
+        if (createError.message.includes('row-level security policy') ||
+            createError.message.includes('RLS') ||
+            createError.message.includes('permission denied')) {
+          Logger.error(`Error de permisos. El bucket debe crearse manualmente.`);
+          Logger.info(`Ve a Supabase Dashboard → Storage → Create bucket: "${this.config.bucketName}"`);
+          throw createError;
+        }
+
+        // Cualquier otro error
+        throw createError;
+      }
+
+      Logger.success(`Bucket ${this.config.bucketName} creado exitosamente`);
+    } catch (error: any) {
+      // Si el error es que ya existe, tratarlo como éxito
+      if (error.message?.includes('already exists') ||
+          error.message?.includes('resource already exists')) {
+        Logger.success(`Bucket ${this.config.bucketName} confirmado (ya existía)`);
+        return;
+      }
+
+      Logger.error(`Error verificando/creando bucket: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async upload(key: string, data: Buffer, contentType: string): Promise<void> {
+    // upsert: con keys por contenido, la misma key siempre tiene los mismos bytes
+    const { error } = await this.supabase.storage
+      .from(this.config.bucketName)
+      .upload(key, data, { contentType, upsert: true });
+
+    if (error) throw error;
+  }
+
+  getPublicUrl(key: string): string {
+    const { data } = this.supabase.storage.from(this.config.bucketName).getPublicUrl(key);
+    return data.publicUrl;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const { data, error } = await this.supabase.storage
+      .from(this.config.bucketName)
+      .list(path.posix.dirname(key), { search: path.posix.basename(key) });
+
+    if (error) throw error;
+    return (data || []).some(object => object.name === path.posix.basename(key));
+  }
+
+  /**
+   * Borrar objetos del bucket (en lotes, la API de Supabase acepta varios paths por llamada)
+   */
+  async delete(keys: string[]): Promise<StorageDeleteResult> {
+    const errors: string[] = [];
+    let deleted = 0;
+
+    for (let i = 0; i < keys.length; i += 100) {
+      const batch = keys.slice(i, i + 100);
+      const { data, error } = await this.supabase.storage.from(this.config.bucketName).remove(batch);
+
+      if (error) {
+        Logger.error(`Error borrando objetos de Supabase: ${error.message}`);
+        errors.push(error.message);
+      } else {
+        deleted += data?.length || 0;
+      }
+    }
+
+    return { deleted, errors };
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const folder = prefix.replace(/\/$/, '');
+    const objects: StoredObject[] = [];
+    const pageSize = 1000;
+
+    // Supabase lista una carpeta por página (no es recursivo)
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.supabase.storage
+        .from(this.config.bucketName)
+        .list(folder, { limit: pageSize, offset });
+
+      if (error) throw error;
+
+      (data || [])
+        .filter(object => object.id) // las carpetas no tienen id
+        .forEach(object => objects.push({
+          key: folder ? `${folder}/${object.name}` : object.name,
+          size: object.metadata?.size,
+          lastModified: object.updated_at ? new Date(object.updated_at) : undefined
+        }));
+
+      if (!data || data.length < pageSize) {
+        break;
+      }
+    }
+
+    return objects;
+  }
+}
@@ -0,0 +1,30 @@
+import { config as appConfig } from '../../config';
+import { LocalStorageBackend } from './LocalStorageBackend';
+import { S3StorageBackend } from './S3StorageBackend';
+import { StorageBackend, StorageBackendName } from './StorageBackend';
+import { SupabaseStorageBackend } from './SupabaseStorageBackend';
+
+export * from './StorageBackend';
+export * from './StorageGcService';
+
+export const STORAGE_BACKENDS: StorageBackendName[] = ['supabase', 'local', 's3'];
+
+/**
+ * Crear un backend con la configuración global (env + perfil); por defecto, el configurado
+ */
+export const createStorageBackend = (name: StorageBackendName = appConfig.storage.backend): StorageBackend => {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseStorageBackend({
+        url: appConfig.supabase.url,
+        key: appConfig.supabase.key,
+        bucketName: appConfig.images.bucketName
+      });
+    case 'local':
+      return new LocalStorageBackend({ ...appConfig.storage.local });
+    case 's3':
+      return new S3StorageBackend({ ...appConfig.storage.s3 });
+    default:
+      throw new Error(`Backend de storage desconocido: ${name}`);
+  }
+};
@@ -22,6 +22,7 @@ export type WooProduct = {
   post_title: string;
   post_content: string;
   post_status: string;
+  post_modified_gmt?: Date | string;
   sku: string;
   regular_price: string;
   sale_price: string;
@@ -35,17 +36,28 @@ export type WooProduct = {
   gallery_ids?: string;
 }
 
+export type DbSslConfig = {
+  enabled: boolean;
+  ca?: string; // Ruta al certificado de la CA
+  rejectUnauthorized?: boolean;
+}
+
 export type DbConfig = {
   host: string;
   port: number;
   user: string;
   password: string;
   database: string;
+  tablePrefix: string; // Prefijo de tablas de WordPress (wp_ por defecto)
+  ssl?: DbSslConfig;
 }
 
 
 export type DuplicateMatch = {
   title: string;
+  // sourceId de cada producto (Piece Id / ID del post): identifican el par en la base de datos
+  artworkSourceId: string;
+  wooSourceId: string;
   artworkSKU: string;
   wooSKU: string;
   artworkPrice: string;
@@ -60,39 +72,265 @@ export type DuplicateMatch = {
   };
   matchType: string;
   similarity: number;
+  // Puntaje combinado de las señales (config.duplicates.scoring) y su desglose
+  score: number;
+  signals: DuplicateSignalScore[];
 }
 
+export type DuplicateSignal = 'title' | 'artist' | 'dimensions' | 'price' | 'year' | 'image';
+
+// Una señal del puntaje: score 0-1 o null si a alguna de las dos versiones le falta el dato.
+// weight es el peso ya repartido entre las señales disponibles (sobre el total si hay menos de minSignals),
+// así que el puntaje es la suma de weight * score.
+export type DuplicateSignalScore = {
+  signal: DuplicateSignal;
+  score: number | null;
+  weight: number;
+  artwork: string;
+  woo: string;
+};
+
+
+// merged: se guardan ambos y se fusionan en el producto de Artwork Archive (config.duplicates.mergePolicy)
+export type DuplicateChoice = 'artwork' | 'woo' | 'both' | 'merged';
+
+// review: se guardan ambos productos sin cambios y el duplicado queda pendiente (duplicates resolve)
+export type DuplicateStrategy = 'keepBoth' | 'preferArtwork' | 'preferWoo' | 'ask' | 'review' | 'merge';
+
+export type MergeSource = 'artwork' | 'woo';
+
+export type MergeField = 'title' | 'description' | 'artist' | 'dimensions' | 'year' | 'medium' | 'price' | 'tags' | 'images';
+
+// De qué fuente sale cada campo al fusionar. Si la fuente elegida no tiene el dato se usa la otra.
+// newer: la versión modificada más recientemente en su origen. Solo decide si las dos tienen fecha
+// por registro; Artwork Archive no la tiene (la del producto es la del export) y se usa newerFallback.
+export type MergePolicy = {
+  title: MergeSource | 'newer';
+  description: MergeSource | 'newer';
+  artist: MergeSource | 'newer';
+  dimensions: MergeSource | 'newer';
+  year: MergeSource | 'newer';
+  medium: MergeSource | 'newer';
+  price: MergeSource | 'newer' | 'higher' | 'lower';
+  tags: MergeSource | 'union';
+  // Fuente de la imagen principal; el resto es la unión de ambas sin repetidas
+  images: MergeSource;
+  // Fuente de los campos con newer cuando alguna versión no tiene fecha por registro
+  newerFallback: MergeSource;
+};
+
+// Fuente de la que salió cada campo de un producto fusionado (both = unión)
+export type MergeFieldSources = Partial<Record<MergeField, MergeSource | 'both'>>;
+
+// Registros de origen que se fusionaron en un producto
+export type MergeLineageEntry = {
+  sourceType: 'ARTWORK_ARCHIVE' | 'WOOCOMMERCE';
+  sourceId: string;
+};
+
+// Resolución aplicada a un duplicado: qué versión se conservó y, si se
+// conservaron ambas, el nuevo título/handle del producto de WooCommerce.
+// pending: se dejó para revisar más tarde
+export type AppliedDuplicateResolution = {
+  duplicate: DuplicateMatch;
+  choice: DuplicateChoice | 'pending';
+  renamed?: {
+    title: string;
+    handle: string;
+  };
+}
+
+// weighted: puntaje combinado de título, artista, medidas, precio, año e imagen (config.duplicates.scoring)
+export type MatchingStrategy = 'exactTitle' | 'normalizedTitle' | 'advanced' | 'fuzzy' | 'imageSimilarity' | 'weighted';
 
 export type DuplicateDetectionConfig = {
-  matchingStrategy: 'exactTitle' | 'normalizedTitle' | 'advanced' | 'fuzzy';
+  matchingStrategy: MatchingStrategy;
   similarityThreshold?: number;
+  // imageSimilarity: bits distintos máximos entre hashes perceptuales (0-64)
+  maxImageDistance?: number;
 }
 
 export type DuplicateResolutionConfig = {
-  strategy: 'keepBoth' | 'preferArtwork' | 'preferWoo' | 'ask';
-  onManualChoice?: (duplicate: DuplicateMatch) => Promise<'artwork' | 'woo' | 'both'>;
+  strategy: DuplicateStrategy;
+  onManualChoice?: (duplicate: DuplicateMatch) => Promise<DuplicateChoice>;
 }
 
 export type ImageProcessorConfig = {
-  supabaseUrl: string;
-  supabaseKey: string;
-  bucketName: string;
+  storageBackend: StorageBackendName;
   tempDir: string;
   webpOptions: {
     quality: number;
     effort: number;
   };
+  avifOptions?: {
+    quality: number;
+    effort: number;
+  };
+  jpegOptions?: {
+    quality: number;
+    progressive: boolean;
+    mozjpeg: boolean;
+  };
+  formats?: ImageFormat[];
+  formatSelection?: ImageFormatSelection;
+  minSsim?: number;
   retryCount: number;
   timeout: number;
+  concurrency?: number;
+  perHostConcurrency?: number;
+  requestsPerSecond?: number;
+  cache?: {
+    enabled: boolean;
+    dir: string;
+    maxSizeMb: number;
+  };
+  renditions?: Record<ImageRendition, number>;
+  quality?: ImageQualityConfig;
+  metadata?: ImageMetadataConfig;
+  dryRun?: boolean;
+}
+
+export type ImageMetadataConfig = {
+  // Girar según la orientación EXIF (fotos de teléfono)
+  autoRotate: boolean;
+  // Metadata en los WebP publicados: all = nada, keepCopyright = solo Artist/Copyright, none = todo el EXIF (incluye GPS)
+  strip: 'all' | 'keepCopyright' | 'none';
+  // srgb = convertir y embeber el perfil sRGB; keep = conservar el perfil ICC de origen
+  colorSpace: 'srgb' | 'keep';
+  // Guardar el EXIF original en ProductImage.exif
+  storeExif: boolean;
+};
+
+export type ImageQualityConfig = {
+  enabled: boolean;
+  minShortEdge: number;
+  maxAspectRatio: number;
+  uniformStdDev: number;
+  minFileSizeKb: number;
+  maxFileSizeMb: number;
+  // Factor k de las cercas de Tukey (IQR) sobre el tamaño de todas las imágenes; 0 = sin detección
+  fileSizeOutlierIqr: number;
+};
+
+export type ImageQualityIssueCode =
+  'lowResolution' | 'blank' | 'extremeAspectRatio' | 'truncated' | 'fileTooSmall' | 'fileTooLarge' | 'fileSizeOutlier';
+
+export type ImageQualityIssue = {
+  code: ImageQualityIssueCode;
+  message: string;
+  // reject: la imagen no sirve para publicar; warning: se publica pero conviene revisarla
+  severity: 'warning' | 'reject';
+};
+
+export type ImageQualityStatus = 'ok' | 'warning' | 'rejected';
+
+export type ImageQualityReport = {
+  status: ImageQualityStatus;
+  issues: ImageQualityIssue[];
+};
+
+// Por qué no se pudo procesar una imagen (se guarda en ProductImage.failureReason)
+export type ImageFailureReason =
+  | 'invalidUrl'
+  | 'notFound'
+  | 'httpError'
+  | 'timeout'
+  | 'network'
+  | 'notAnImage'
+  | 'decode'
+  | 'conversion'
+  | 'upload'
+  | 'unknown';
+
+export type ImageFailure = {
+  reason: ImageFailureReason;
+  message: string;
+  httpStatus?: number;
+};
+
+export type ImageRendition = 'thumbnail' | 'medium' | 'large' | 'original';
+
+export type ImageFormat = 'webp' | 'avif' | 'jpeg';
+
+// Color de la paleta de una imagen y la proporción (0-1) que ocupa
+export type ColorSwatch = {
+  hex: string;
+  share: number;
+};
+
+export type ArtworkOrientation = 'portrait' | 'landscape' | 'square' | 'panoramic';
+
+// all = se sube cada formato configurado; smallest = por imagen, solo el más liviano que cumpla el SSIM mínimo
+export type ImageFormatSelection = 'all' | 'smallest';
+
+export type StorageBackendName = 'supabase' | 'local' | 's3';
+
+export type ProcessedImageVariant = {
+  rendition: ImageRendition;
+  format?: ImageFormat;
+  ssim?: number;
+  storageUrl: string;
+  storageKey: string;
+  storageBackend?: StorageBackendName;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  contentHash?: string;
 }
 
 export type ProcessedImage = {
   originalUrl: string;
-  supabaseUrl: string;
-  supabasePath: string;
+  storageUrl: string;
+  storageKey: string;
+  storageBackend?: StorageBackendName;
   width?: number;
   height?: number;
   fileSize?: number;
+  format?: ImageFormat;
+  contentHash?: string;
+  reused?: boolean;
+  variants?: ProcessedImageVariant[];
+  quality?: ImageQualityReport;
+  exif?: Record<string, Record<string, unknown>>;
+  perceptualHash?: string;
+  palette?: ColorSwatch[];
   success: boolean;
+  skipped?: boolean;
   error?: string;
-}
\ No newline at end of file
+  failure?: ImageFailure;
+}
+export type MigrationSourceType = 'ARTWORK_ARCHIVE' | 'WOOCOMMERCE';
+
+export type MigrationRecordStage = 'CONVERTED' | 'IMAGES_PROCESSED' | 'SAVED' | 'FAILED';
+
+// Estado serializable de un ShopifyProduct (para guardar el progreso de una corrida)
+export type ShopifyProductSnapshot = {
+  data: Record<string, string>;
+  draftReasons: string[];
+  sourceId?: string;
+};
+
+export type CheckpointRecord = {
+  stage: MigrationRecordStage;
+  products: ShopifyProductSnapshot[];
+  images: ProcessedImage[];
+  productId?: string | null;
+};
+
+/**
+ * Progreso por registro de origen de una corrida de migración.
+ * Los converters y el guardado lo consultan para no repetir trabajo al reanudar.
+ */
+export interface MigrationCheckpoint {
+  readonly runId: string;
+  getRecord(sourceType: MigrationSourceType, sourceId: string): CheckpointRecord | undefined;
+  markConverted(
+    sourceType: MigrationSourceType,
+    sourceId: string,
+    products: ShopifyProductSnapshot[],
+    images: ProcessedImage[],
+    imagesProcessed: boolean
+  ): Promise<void>;
+  markSaved(sourceType: MigrationSourceType, sourceId: string, productId: string): Promise<void>;
+  markFailed(sourceType: MigrationSourceType, sourceId: string, error: string): Promise<void>;
+}
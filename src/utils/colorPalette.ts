@@ -0,0 +1,51 @@
+import sharp from 'sharp';
+import { ColorSwatch } from '../types';
+
+// 8 niveles por canal (512 colores) alcanzan para agrupar tonos parecidos
+const LEVEL_SHIFT = 5;
+// Colores que ocupan menos que esto no entran en la paleta
+const MIN_SHARE = 0.02;
+
+const toHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+const binOf = (r: number, g: number, b: number): number =>
+  ((r >> LEVEL_SHIFT) << 6) | ((g >> LEVEL_SHIFT) << 3) | (b >> LEVEL_SHIFT);
+
+/**
+ * Paleta dominante de una imagen, de mayor a menor proporción. El primer color es el
+ * dominante según sharp stats; el resto sale de un histograma de la imagen reducida.
+ */
+export const extractPalette = async (input: string | Buffer, maxColors = 5): Promise<ColorSwatch[]> => {
+  // La transparencia cuenta como fondo blanco, como se ve en la tienda
+  const image = sharp(input, { failOn: 'none' })
+    .resize(64, 64, { fit: 'inside' })
+    .flatten({ background: '#ffffff' })
+    .toColourspace('srgb');
+
+  const [{ dominant }, { data, info }] = await Promise.all([
+    image.clone().stats(),
+    image.clone().raw().toBuffer({ resolveWithObject: true })
+  ]);
+
+  const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const bin = bins.get(binOf(r, g, b)) || { count: 0, r: 0, g: 0, b: 0 };
+    bins.set(binOf(r, g, b), { count: bin.count + 1, r: bin.r + r, g: bin.g + g, b: bin.b + b });
+  }
+
+  const total = info.width * info.height;
+  const dominantBin = binOf(dominant.r, dominant.g, dominant.b);
+
+  const swatches = [...bins.entries()]
+    .filter(([bin, { count }]) => bin === dominantBin || count / total >= MIN_SHARE)
+    .sort(([binA, a], [binB, b]) => Number(binB === dominantBin) - Number(binA === dominantBin) || b.count - a.count)
+    .slice(0, maxColors)
+    .map(([bin, { count, r, g, b }]) => ({
+      hex: bin === dominantBin ? toHex(dominant.r, dominant.g, dominant.b) : toHex(r / count, g / count, b / count),
+      share: Math.round((count / total) * 1000) / 1000
+    }));
+
+  return swatches;
+};
@@ -0,0 +1,77 @@
+/**
+ * Limita cuántas tareas corren a la vez
+ */
+export class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // El lugar pasa directamente a la siguiente tarea
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Un semáforo por clave (p. ej. conexiones simultáneas por host)
+ */
+export class KeyedSemaphore {
+  private semaphores = new Map<string, Semaphore>();
+
+  constructor(private readonly limit: number) {}
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    let semaphore = this.semaphores.get(key);
+    if (!semaphore) {
+      semaphore = new Semaphore(this.limit);
+      this.semaphores.set(key, semaphore);
+    }
+    return semaphore.run(task);
+  }
+}
+
+/**
+ * Espacia las peticiones para no superar N por segundo (0 = sin límite)
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private readonly perSecond: number) {}
+
+  async wait(): Promise<void> {
+    if (this.perSecond <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.perSecond;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import exifReader from 'exif-reader';
+
+// Bloques de EXIF que se guardan; la miniatura embebida y los bloques de interoperabilidad no aportan.
+// GPSInfo no se guarda: es la ubicación de quien sacó la foto (a menudo el taller o la casa del artista).
+const EXIF_SECTIONS = ['Image', 'Photo'] as const;
+
+/**
+ * EXIF crudo (metadata.exif de sharp) a JSON: fechas en ISO, sin buffers (MakerNote, etc.) ni tags GPS.
+ * Devuelve undefined si no hay EXIF o no se puede leer.
+ */
+export const parseExif = (raw?: Buffer): Record<string, Record<string, unknown>> | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  let exif: exifReader.Exif;
+  try {
+    exif = exifReader(raw);
+  } catch {
+    return undefined;
+  }
+
+  const result: Record<string, Record<string, unknown>> = {};
+  for (const section of EXIF_SECTIONS) {
+    const tags = Object.entries(exif[section] || {})
+      .filter(([tag]) => !tag.startsWith('GPS'))
+      .map(([tag, value]) => [tag, toJsonValue(value)] as const)
+      .filter(([, value]) => value !== undefined);
+
+    if (tags.length > 0) {
+      result[section] = Object.fromEntries(tags);
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+const toJsonValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (typeof value === 'string') {
+    // Los campos de texto suelen venir con relleno de NULs, y Postgres no acepta \u0000 en JSONB
+    return value.replace(/\0/g, '').trim() || undefined;
+  }
+  return value;
+};
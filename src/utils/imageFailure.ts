@@ -0,0 +1,66 @@
+import { ImageFailure, ImageFailureReason } from '../types';
+
+export const FAILURE_LABELS: Record<ImageFailureReason, string> = {
+  invalidUrl: 'Invalid URL',
+  notFound: 'Not found (404/410)',
+  httpError: 'HTTP error',
+  timeout: 'Timeout',
+  network: 'Network error',
+  notAnImage: 'Not an image',
+  decode: 'Cannot decode',
+  conversion: 'Conversion',
+  upload: 'Storage upload',
+  unknown: 'Unknown'
+};
+
+// Reintentar no cambia el resultado mientras el origen siga igual
+export const PERMANENT_FAILURES: ImageFailureReason[] = ['invalidUrl', 'notFound', 'notAnImage'];
+
+export const isPermanentFailure = (reason?: ImageFailureReason | null): boolean =>
+  Boolean(reason && PERMANENT_FAILURES.includes(reason));
+
+const NETWORK_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'EPIPE', 'ERR_TLS_CERT_ALTNAME_INVALID'];
+
+/**
+ * Categoría de un error de descarga (axios o de red)
+ */
+export const classifyDownloadError = (error: any): ImageFailure => {
+  const message: string = error?.message || String(error);
+  const httpStatus: number | undefined = error?.response?.status;
+
+  if (httpStatus) {
+    return { reason: httpStatus === 404 || httpStatus === 410 ? 'notFound' : 'httpError', message, httpStatus };
+  }
+  if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT' || /timeout/i.test(message)) {
+    return { reason: 'timeout', message };
+  }
+  if (NETWORK_CODES.includes(error?.code)) {
+    return { reason: 'network', message };
+  }
+  if (error?.code === 'ERR_INVALID_URL') {
+    return { reason: 'invalidUrl', message };
+  }
+  return { reason: 'unknown', message };
+};
+
+// Mensajes de sharp/libvips cuando el archivo no es una imagen legible o está corrupto
+const DECODE_ERRORS = /unsupported image format|corrupt|premature end|truncated|bad seek|not a known file format|VipsJpeg|VipsPng|VipsForeignLoad|gifload|heifload/i;
+
+/**
+ * Categoría de un error de sharp al convertir: decode si no se pudo leer la imagen de origen
+ */
+export const classifyConversionError = (error: any): ImageFailure => {
+  const message: string = error?.message || String(error);
+  return { reason: DECODE_ERRORS.test(message) ? 'decode' : 'conversion', message };
+};
+
+/**
+ * Host de la URL de origen, para agrupar fallas (la URL tal cual si no se puede parsear)
+ */
+export const imageHost = (url: string): string => {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+};
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ShopifyProduct } from '../models/ShopifyProduct';
+import { AppliedDuplicateResolution } from '../types';
+
+export type PlannedProduct = {
+  source: 'ARTWORK_ARCHIVE' | 'WOOCOMMERCE';
+  sku: string;
+  title: string;
+  handle: string;
+  status: string;
+  draftReasons: string[];
+  images: number;
+};
+
+export type PlannedDuplicate = {
+  title: string;
+  matchType: string;
+  similarity: number;
+  artworkSKU: string;
+  wooSKU: string;
+  action: 'dropWoo' | 'dropArtwork' | 'renameWoo' | 'review' | 'merge';
+  renamedTo?: { title: string; handle: string };
+};
+
+export type MigrationPlan = {
+  generatedAt: string;
+  settings: Record<string, any>;
+  summary: {
+    productsToCreate: number;
+    artworkProducts: number;
+    wooProducts: number;
+    active: number;
+    draft: number;
+    images: number;
+    duplicates: number;
+    droppedProducts: number;
+    renamedProducts: number;
+  };
+  products: PlannedProduct[];
+  duplicates: PlannedDuplicate[];
+};
+
+/**
+ * Construye el plan de una migración en dry-run a partir de los productos
+ * ya convertidos y de las resoluciones de duplicados aplicadas en memoria
+ */
+export const buildMigrationPlan = (
+  artworkProducts: ShopifyProduct[],
+  wooProducts: ShopifyProduct[],
+  resolutions: AppliedDuplicateResolution[],
+  settings: Record<string, any>
+): MigrationPlan => {
+  const products = [
+    ...toPlannedProducts(artworkProducts, 'ARTWORK_ARCHIVE'),
+    ...toPlannedProducts(wooProducts, 'WOOCOMMERCE')
+  ];
+
+  const duplicates: PlannedDuplicate[] = resolutions.map(({ duplicate, choice, renamed }) => ({
+    title: duplicate.title,
+    matchType: duplicate.matchType,
+    similarity: duplicate.similarity,
+    artworkSKU: duplicate.artworkSKU,
+    wooSKU: duplicate.wooSKU,
+    action: choice === 'artwork' ? 'dropWoo' : choice === 'woo' ? 'dropArtwork' : choice === 'pending' ? 'review'
+      : choice === 'merged' ? 'merge' : 'renameWoo',
+    renamedTo: renamed
+  }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    settings,
+    summary: {
+      productsToCreate: products.length,
+      artworkProducts: products.filter(p => p.source === 'ARTWORK_ARCHIVE').length,
+      wooProducts: products.filter(p => p.source === 'WOOCOMMERCE').length,
+      active: products.filter(p => p.status === 'active').length,
+      draft: products.filter(p => p.status === 'draft').length,
+      images: products.reduce((sum, p) => sum + p.images, 0),
+      duplicates: duplicates.length,
+      droppedProducts: duplicates.filter(d => d.action === 'dropWoo' || d.action === 'dropArtwork').length,
+      renamedProducts: duplicates.filter(d => d.action === 'renameWoo').length
+    },
+    products,
+    duplicates
+  };
+};
+
+export const printMigrationPlan = (plan: MigrationPlan): void => {
+  const { summary } = plan;
+
+  console.log('\n' + chalk.bold('Migration Plan (dry-run):'));
+  console.log(chalk.bold('========================='));
+  console.log(`Products to create: ${summary.productsToCreate} (Artwork Archive: ${summary.artworkProducts}, WooCommerce: ${summary.wooProducts})`);
+  console.log(chalk.green(`  - Active: ${summary.active}`));
+  console.log(chalk.yellow(`  - Draft: ${summary.draft}`));
+  console.log(`Images to process: ${summary.images}`);
+
+  const drafts = plan.products.filter(p => p.status === 'draft');
+  if (drafts.length > 0) {
+    console.log('\n' + chalk.bold('Products that will be DRAFT:'));
+    drafts.forEach(p => {
+      console.log(chalk.yellow(`  ${p.handle} (${p.source}, SKU ${p.sku}): ${p.draftReasons.join(', ') || 'status'}`));
+    });
+  }
+
+  if (plan.duplicates.length > 0) {
+    console.log('\n' + chalk.bold(`Duplicates (${summary.duplicates}):`));
+    plan.duplicates.forEach(d => {
+      if (d.action === 'renameWoo') {
+        console.log(chalk.cyan(`  "${d.title}": keep both, WooCommerce ${d.wooSKU} renamed to "${d.renamedTo?.title}" (${d.renamedTo?.handle})`));
+      } else if (d.action === 'review') {
+        console.log(chalk.cyan(`  "${d.title}": keep both unchanged, pending review (Artwork Archive ${d.artworkSKU}, WooCommerce ${d.wooSKU})`));
+      } else if (d.action === 'merge') {
+        console.log(chalk.cyan(`  "${d.title}": WooCommerce ${d.wooSKU} merged into Artwork Archive ${d.artworkSKU} (duplicates.mergePolicy)`));
+      } else if (d.action === 'dropWoo') {
+        console.log(chalk.cyan(`  "${d.title}": WooCommerce ${d.wooSKU} dropped, Artwork Archive ${d.artworkSKU} kept`));
+      } else {
+        console.log(chalk.cyan(`  "${d.title}": Artwork Archive ${d.artworkSKU} dropped, WooCommerce ${d.wooSKU} kept`));
+      }
+    });
+  }
+
+  console.log('\n' + chalk.blue('Dry-run: nothing was written to the database and no images were downloaded or uploaded.'));
+};
+
+export const writeMigrationPlan = (plan: MigrationPlan, filePath: string): string => {
+  const outputPath = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(plan, null, 2));
+  return outputPath;
+};
+
+const toPlannedProducts = (
+  products: ShopifyProduct[],
+  source: PlannedProduct['source']
+): PlannedProduct[] => {
+  // Las filas de imágenes adicionales comparten handle con su producto principal
+  const imageCounts = new Map<string, number>();
+  products.forEach(p => {
+    if (p.toRecord()['Image Src']) {
+      imageCounts.set(p.getHandle(), (imageCounts.get(p.getHandle()) || 0) + 1);
+    }
+  });
+
+  return products
+    .filter(p => p.getTitle() !== '')
+    .map(p => ({
+      source,
+      sku: p.getSKU(),
+      title: p.getTitle(),
+      handle: p.getHandle(),
+      status: p.getStatus(),
+      draftReasons: p.getDraftReasons(),
+      images: imageCounts.get(p.getHandle()) || 0
+    }));
+};
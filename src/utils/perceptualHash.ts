@@ -0,0 +1,53 @@
+import sharp from 'sharp';
+
+/**
+ * dHash de 64 bits (hex): la imagen en gris a 9x8 y, por fila, si cada píxel es más claro que el siguiente.
+ * Sobrevive a cambios de tamaño, compresión y pequeños ajustes de color, no a recortes grandes.
+ */
+export const dHash = async (input: string | Buffer): Promise<string> => {
+  const pixels = await sharp(input, { failOn: 'none' })
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const bit = pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1n : 0n;
+      hash = (hash << 1n) | bit;
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+};
+
+/**
+ * Bits distintos entre dos hashes hex del mismo largo (0 = misma imagen)
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+};
+
+export const HASH_BITS = 64;
+
+// Bits en 1 (o en 0) desde los que un hash no dice nada de la imagen
+const MIN_SET_BITS = 4;
+
+/**
+ * Hash de una imagen lisa o casi (fondo uniforme, degradado, imagen en blanco): todas dan
+ * 0000000000000000 o parecido y coincidirían entre sí, así que no sirven para comparar
+ */
+export const isDegenerateHash = (hash: string): boolean => {
+  const setBits = hammingDistance(hash, '0'.repeat(hash.length));
+  return setBits < MIN_SET_BITS || setBits > HASH_BITS - MIN_SET_BITS;
+};
+
+// Distancia hasta la que dos imágenes se consideran la misma foto (p. ej. al fusionar duplicados)
+export const SAME_IMAGE_DISTANCE = 4;
@@ -1,3 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DuplicateScoringService } from '../services/DuplicateScoringService';
+import { AppliedDuplicateResolution, DuplicateChoice } from '../types';
+import { NormalizeUtils } from './normalizeFields';
+
+const RESOLUTION_LABELS: Record<DuplicateChoice | 'pending', string> = {
+  artwork: 'Artwork Archive',
+  woo: 'WooCommerce',
+  both: 'Ambos (WooCommerce renombrado)',
+  merged: 'Fusionado',
+  pending: 'Pendiente de revisión'
+};
+
+// Los títulos y valores vienen de los orígenes: no se interpolan en el HTML sin escapar
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const percentOf = (count: number, total: number): string => (total > 0 ? (count / total) * 100 : 0).toFixed(1);
+
+/**
+ * Datos del reporte HTML a partir de los duplicados resueltos en migrate
+ */
+export const buildDuplicateReportData = (
+  resolutions: AppliedDuplicateResolution[],
+  settings: {
+    matchingStrategy: string;
+    duplicateStrategy: string;
+    similarityThreshold?: number;
+    artworkProductsCount: number;
+    wooProductsCount: number;
+  }
+) => {
+  const duplicates = resolutions.map(({ duplicate, choice }) => {
+    const artworkPrice = parseFloat(duplicate.artworkPrice) || 0;
+    const wooPrice = parseFloat(duplicate.wooPrice) || 0;
+    const difference = Math.abs(artworkPrice - wooPrice);
+
+    return {
+      ...duplicate,
+      normalizedTitle: NormalizeUtils.normalizeTitle(duplicate.title),
+      priceDifference: difference.toFixed(2),
+      percentPriceDifference: percentOf(difference, Math.max(artworkPrice, wooPrice)),
+      sameArtist: NormalizeUtils.normalizeArtist(duplicate.artworkArtist) === NormalizeUtils.normalizeArtist(duplicate.wooArtist),
+      sameDimensions: NormalizeUtils.normalizeDimensions(duplicate.dimensions.artwork) === NormalizeUtils.normalizeDimensions(duplicate.dimensions.woo),
+      resolution: RESOLUTION_LABELS[choice]
+    };
+  });
+
+  const differences = duplicates.map(dupe => parseFloat(dupe.priceDifference));
+  const significant = differences.filter(difference => difference > 100).length;
+  const generic = duplicates.filter(dupe => dupe.normalizedTitle === 'untitled').length;
+  const artistMismatches = duplicates.filter(dupe => !dupe.sameArtist).length;
+
+  return {
+    summary: {
+      date: new Date().toISOString(),
+      totalDuplicates: duplicates.length,
+      matchingStrategy: settings.matchingStrategy,
+      similarityThreshold: settings.matchingStrategy === 'fuzzy' ? settings.similarityThreshold ?? 'N/A' : 'N/A',
+      resolutionStrategy: settings.duplicateStrategy,
+      artworkProductsCount: settings.artworkProductsCount,
+      wooProductsCount: settings.wooProductsCount
+    },
+    duplicates,
+    genericTitleStats: {
+      sinTitulo: duplicates.filter(dupe => NormalizeUtils.normalizeString(dupe.title) === 'sin titulo').length,
+      st: duplicates.filter(dupe => NormalizeUtils.normalizeString(dupe.title) === 's t').length
+    },
+    stats: {
+      genericTitles: { count: generic, percentage: percentOf(generic, duplicates.length) },
+      priceDifferences: {
+        significantCount: significant,
+        significantPercentage: percentOf(significant, duplicates.length),
+        averageDifference: (differences.reduce((sum, difference) => sum + difference, 0) / (differences.length || 1)).toFixed(2),
+        maxDifference: Math.max(0, ...differences).toFixed(2)
+      },
+      artistMismatches: { count: artistMismatches, percentage: percentOf(artistMismatches, duplicates.length) }
+    }
+  };
+};
+
+export const writeDuplicateReport = (reportData: ReturnType<typeof buildDuplicateReportData>, filePath: string): string => {
+  const outputPath = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, generateHtmlReport(reportData));
+  return outputPath;
+};
+
 export const generateHtmlReport = (reportData: any): string => {
     const { summary, duplicates, genericTitleStats, stats } = reportData;
     
@@ -14,25 +108,26 @@ export const generateHtmlReport = (reportData: any): string => {
       return `
       <tr class="${rowClass}">
         <td>${index + 1}</td>
-        <td>${dupe.title}</td>
-        <td>${dupe.artworkArtist || 'N/A'}</td>
-        <td>${dupe.wooArtist || 'N/A'}</td>
-        <td>${dupe.artworkSKU}</td>
-        <td>${dupe.wooSKU}</td>
-        <td>$${dupe.artworkPrice}</td>
-        <td>$${dupe.wooPrice}</td>
+        <td>${escapeHtml(dupe.title)}</td>
+        <td>${escapeHtml(dupe.artworkArtist || 'N/A')}</td>
+        <td>${escapeHtml(dupe.wooArtist || 'N/A')}</td>
+        <td>${escapeHtml(dupe.artworkSKU)}</td>
+        <td>${escapeHtml(dupe.wooSKU)}</td>
+        <td>$${escapeHtml(dupe.artworkPrice)}</td>
+        <td>$${escapeHtml(dupe.wooPrice)}</td>
         <td class="${parseFloat(dupe.priceDifference) > 100 ? 'price-diff' : ''}" data-value="${dupe.priceDifference}">
           $${dupe.priceDifference} (${dupe.percentPriceDifference}%)
         </td>
-        <td>${dupe.artworkStatus}</td>
-        <td>${dupe.wooStatus}</td>
-        <td>${dupe.dimensions?.artwork || 'N/A'}</td>
-        <td>${dupe.dimensions?.woo || 'N/A'}</td>
-        <td>${dupe.matchType || 'title'}</td>
+        <td>${escapeHtml(dupe.artworkStatus)}</td>
+        <td>${escapeHtml(dupe.wooStatus)}</td>
+        <td>${escapeHtml(dupe.dimensions?.artwork || 'N/A')}</td>
+        <td>${escapeHtml(dupe.dimensions?.woo || 'N/A')}</td>
+        <td>${escapeHtml(dupe.matchType || 'title')}</td>
         <td>${dupe.similarity ? (dupe.similarity * 100).toFixed(1) + '%' : 'N/A'}</td>
+        <td class="signals">${dupe.signals ? DuplicateScoringService.explain(dupe.signals).map(escapeHtml).join('<br>') : 'N/A'}</td>
         <td>${dupe.sameArtist ? '✓' : '✗'}</td>
         <td>${dupe.sameDimensions ? '✓' : '✗'}</td>
-        <td>${dupe.resolution}</td>
+        <td>${escapeHtml(dupe.resolution)}</td>
       </tr>
     `}).join('');
     
@@ -95,6 +190,11 @@ export const generateHtmlReport = (reportData: any): string => {
         .artist-mismatch {
           background-color: #e3f2fd !important;
         }
+        .signals {
+          font-family: monospace;
+          font-size: 0.85em;
+          white-space: pre;
+        }
         .price-diff {
           font-weight: bold;
           color: #e53935;
@@ -203,8 +303,8 @@ export const generateHtmlReport = (reportData: any): string => {
           <h2>Resumen</h2>
           <p>Reporte generado el: ${new Date(summary.date).toLocaleString()}</p>
           <p>Total de productos duplicados encontrados: <strong>${summary.totalDuplicates}</strong></p>
-          <p>Estrategia de detección utilizada: <strong>${summary.matchingStrategy}</strong>${summary.similarityThreshold !== 'N/A' ? ` (umbral: ${summary.similarityThreshold})` : ''}</p>
-          <p>Estrategia de resolución utilizada: <strong>${summary.resolutionStrategy}</strong></p>
+          <p>Estrategia de detección utilizada: <strong>${escapeHtml(summary.matchingStrategy)}</strong>${summary.similarityThreshold !== 'N/A' ? ` (umbral: ${summary.similarityThreshold})` : ''}</p>
+          <p>Estrategia de resolución utilizada: <strong>${escapeHtml(summary.resolutionStrategy)}</strong></p>
         </div>
         
         <div class="stats">
@@ -265,6 +365,7 @@ export const generateHtmlReport = (reportData: any): string => {
               <option value="title">Solo título</option>
               <option value="title+artist">Título + Artista</option>
               <option value="fuzzy">Coincidencias aproximadas</option>
+              <option value="weighted">Puntaje por señales</option>
             </select>
           </div>
           
@@ -310,6 +411,7 @@ export const generateHtmlReport = (reportData: any): string => {
               <th>Dim. Woo</th>
               <th>Tipo Coincidencia</th>
               <th>Similitud</th>
+              <th>Señales</th>
               <th>Mismo Artista</th>
               <th>Mismas Dim.</th>
               <th>Resolución</th>
@@ -325,6 +427,7 @@ export const generateHtmlReport = (reportData: any): string => {
           <p><span class="badge badge-generic">Título Genérico</span> Productos con títulos genéricos como "Sin Título" o "S/T".</p>
           <p><span class="badge badge-price">Diferencia de Precio</span> Productos con diferencias significativas de precio entre las dos fuentes (>$100).</p>
           <p><span class="badge badge-artist">Discrepancia de Artista</span> Productos donde los nombres de los artistas no coinciden entre las fuentes.</p>
+          <p><strong>Señales:</strong> puntaje de cada señal x su peso, con los valores de Artwork Archive / WooCommerce; n/a si a alguna de las dos le falta el dato.</p>
         </div>
       </div>
       
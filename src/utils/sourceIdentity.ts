@@ -0,0 +1,12 @@
+import { ArtworkArchiveRecord, WooProduct } from '../types';
+
+/**
+ * ID estable de una obra de Artwork Archive: su Piece Id o, si falta, la fila del CSV
+ */
+export const artworkSourceId = (artwork: ArtworkArchiveRecord, index: number): string =>
+  artwork['Piece Id']?.trim() || `row-${index + 1}`;
+
+/**
+ * ID estable de un producto de WooCommerce (ID del post)
+ */
+export const wooSourceId = (wooProduct: WooProduct): string => wooProduct.ID.toString();
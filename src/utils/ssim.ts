@@ -0,0 +1,83 @@
+import sharp from 'sharp';
+
+// Lado largo al que se reducen ambas imágenes antes de comparar
+const COMPARE_EDGE = 512;
+const WINDOW = 8;
+const STEP = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+/**
+ * SSIM medio (0-1, 1 = idénticas) en escala de grises entre la imagen de origen y una codificada.
+ * Las dos se llevan al mismo tamaño, así que sirve para comparar una rendition con su original.
+ */
+export const structuralSimilarity = async (
+  reference: string | Buffer,
+  candidate: string | Buffer,
+  options: { autoOrient?: boolean } = {}
+): Promise<number> => {
+  const decode = (input: string | Buffer, orient: boolean) => {
+    let pipeline = sharp(input, { failOn: 'none' });
+    if (orient) {
+      pipeline = pipeline.autoOrient();
+    }
+    return pipeline;
+  };
+
+  const { width, height } = await decode(reference, Boolean(options.autoOrient))
+    .resize({ width: COMPARE_EDGE, height: COMPARE_EDGE, fit: 'inside', withoutEnlargement: true })
+    .toBuffer({ resolveWithObject: true })
+    .then(({ info }) => info);
+
+  const toGrey = (input: string | Buffer, orient: boolean) => decode(input, orient)
+    .greyscale()
+    .resize(width, height, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  const [a, b] = await Promise.all([toGrey(reference, Boolean(options.autoOrient)), toGrey(candidate, false)]);
+  return ssim(a, b, width, height);
+};
+
+/**
+ * SSIM sobre dos buffers de grises del mismo tamaño, en ventanas de 8x8 cada 4 px
+ */
+export const ssim = (a: Buffer, b: Buffer, width: number, height: number): number => {
+  if (width < WINDOW || height < WINDOW) {
+    return a.equals(b) ? 1 : 0;
+  }
+
+  let total = 0;
+  let windows = 0;
+  const size = WINDOW * WINDOW;
+
+  for (let y = 0; y + WINDOW <= height; y += STEP) {
+    for (let x = 0; x + WINDOW <= width; x += STEP) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let dy = 0; dy < WINDOW; dy++) {
+        const row = (y + dy) * width + x;
+        for (let dx = 0; dx < WINDOW; dx++) {
+          const va = a[row + dx];
+          const vb = b[row + dx];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+
+      const meanA = sumA / size;
+      const meanB = sumB / size;
+      const varA = sumAA / size - meanA * meanA;
+      const varB = sumBB / size - meanB * meanB;
+      const covariance = sumAB / size - meanA * meanB;
+
+      total += ((2 * meanA * meanB + C1) * (2 * covariance + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows++;
+    }
+  }
+
+  return total / windows;
+};